@@ -5,17 +5,27 @@ import * as http from 'http';
 import * as fs from 'fs';     // 引入 fs 模組
 import express from 'express';
 import config from './server/config'; // Import config from the copied server code
-import createProxyRouter from './server/routes/proxy'; // Import the proxy router function
+import createProxyRouter, { RawBodyRequest } from './server/routes/proxy'; // Import the proxy router function
+import createModelsRouter from './server/routes/models'; // Import the models router function
+import createOpenAIRouter from './server/routes/openai'; // Import the OpenAI-compatible router function
+import createAnthropicRouter from './server/routes/anthropic'; // Import the Anthropic-compatible router function
 import errorHandler from './server/middlewares/errorHandler'; // Import error handler middleware
+import createClientAuthMiddleware, { isEndpointUnauthenticated } from './server/middlewares/clientAuth'; // Import client auth middleware
 import ApiKeyManager from './server/core/ApiKeyManager'; // Import ApiKeyManager
 import RequestDispatcher from './server/core/RequestDispatcher'; // Import RequestDispatcher
 import GoogleApiForwarder from './server/core/GoogleApiForwarder'; // Import GoogleApiForwarder
 import { StreamHandler } from './server/core/StreamHandler'; // Import StreamHandler
+import { ModelCatalog } from './server/core/ModelCatalog'; // Import ModelCatalog
+import KeyRevalidator from './server/core/KeyRevalidator'; // Import KeyRevalidator
+import ModelRouter from './server/core/ModelRouter'; // Import ModelRouter
+import ClientTokenManager from './server/core/ClientTokenManager'; // Import ClientTokenManager
 // We might not need loggerMiddleware directly in extension.ts, but the errorHandler uses the logger.
 // Let's keep the import for now or ensure the logger is accessible.
 import { logger, loggerMiddleware } from "./server/middlewares/logger"; // 引入 logger 和 loggerMiddleware
-import { eventManager, RequestStatus } from "./server/core/EventManager"; // 引入 eventManager 和 RequestStatus
+import { eventManager, KeyCircuitStateChange, RequestStatus } from "./server/core/EventManager"; // 引入 eventManager 和 RequestStatus
 import { ApiKey } from "./server/types/ApiKey"; // 引入 ApiKey 介面
+import { QuotaProfile } from "./server/types/Quota";
+import { KeyRoutingRule } from "./server/types/KeyRouting";
 import { ProxyPoolManager } from "./server/core/ProxyPoolManager"; // Import ProxyPoolManager
 import { ProxyAssignmentManager } from "./server/core/ProxyAssignmentManager"; // Import ProxyAssignmentManager
 import { ProxyLoadBalancer } from "./server/core/ProxyLoadBalancer"; // Import ProxyLoadBalancer
@@ -31,6 +41,7 @@ import { ApiKeyTreeProvider } from './ui/providers/ApiKeyTreeProvider';
 import { ProxyTreeProvider } from './ui/providers/ProxyTreeProvider';
 import { ServerStatusTreeProvider } from './ui/providers/ServerStatusTreeProvider';
 import { ApiKeyCommands } from './ui/commands/ApiKeyCommands';
+import { ClientTokenCommands } from './ui/commands/ClientTokenCommands';
 import { ProxyCommands } from './ui/commands/ProxyCommands';
 import { ServerCommands } from './ui/commands/ServerCommands';
 import {
@@ -46,6 +57,7 @@ let apiKeyManager: ApiKeyManager; // Declare apiKeyManager variable to be access
 let webviewPanel: vscode.WebviewPanel | undefined; // 新增：保存 webviewPanel 引用
 let proxyPoolManager: ProxyPoolManager | undefined; // Declare proxy pool manager for cleanup
 let rotatingProxyHealthMonitor: RotatingProxyHealthMonitor | undefined; // Declare health monitor for cleanup
+let keyRevalidator: KeyRevalidator | undefined; // Declare disabled key revalidator for cleanup
 
 // Native UI components
 let apiKeyTreeProvider: ApiKeyTreeProvider | undefined;
@@ -54,6 +66,7 @@ let serverStatusTreeProvider: ServerStatusTreeProvider | undefined;
 let coreIntegrationService: any;
 let webviewManager: WebviewManager | undefined;
 let apiKeyCommands: ApiKeyCommands | undefined;
+let clientTokenCommands: ClientTokenCommands | undefined;
 let proxyCommands: ProxyCommands | undefined;
 let serverCommands: ServerCommands | undefined;
 
@@ -208,22 +221,94 @@ export async function activate(context: vscode.ExtensionContext) {
 	);
 	await apiKeyManager.loadKeys(initialApiKeys); // 確保在啟動時載入持久化狀態
 
+	// 客户端访问令牌，签发后代理端点要求携带有效令牌
+	const clientTokenManager = new ClientTokenManager(context);
+	await clientTokenManager.initialize();
+
 	const googleApiForwarder = new GoogleApiForwarder();
 	
 	// Connect health monitor to GoogleApiForwarder
 	googleApiForwarder.setHealthMonitor(rotatingProxyHealthMonitor);
 	
+	// 后台重新验证因认证失败而被禁用的 Key
+	if (config.KEY_REVALIDATION_INTERVAL_MS > 0) {
+		keyRevalidator = new KeyRevalidator(apiKeyManager, googleApiForwarder);
+		keyRevalidator.start();
+	}
+	
 	const streamHandler = new StreamHandler();
-	const requestDispatcher = new RequestDispatcher(apiKeyManager);
+	const requestDispatcher = new RequestDispatcher(apiKeyManager, googleApiForwarder, eventManager);
+
+	// 分发策略、Key 权重、并发上限、配额档案、Key 分组、路由表和流式响应超时的设置变更即时生效 (环境变量优先)
+	context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+		const settings = vscode.workspace.getConfiguration('geminiAggregator-dev');
+		if (event.affectsConfiguration('geminiAggregator-dev.dispatchStrategy') && !process.env.DISPATCH_STRATEGY) {
+			config.DISPATCH_STRATEGY = settings.get<string>('dispatchStrategy') || 'round_robin';
+			apiKeyManager.setDispatchStrategy(config.DISPATCH_STRATEGY);
+		}
+		if (event.affectsConfiguration('geminiAggregator-dev.keyWeights')) {
+			config.KEY_WEIGHTS = settings.get<Record<string, number>>('keyWeights') || {};
+		}
+		if (event.affectsConfiguration('geminiAggregator-dev.maxConcurrentRequestsPerKey') && !process.env.MAX_CONCURRENT_REQUESTS_PER_KEY) {
+			config.MAX_CONCURRENT_REQUESTS_PER_KEY = settings.get<number>('maxConcurrentRequestsPerKey') ?? 0;
+		}
+		if (event.affectsConfiguration('geminiAggregator-dev.keyMaxConcurrency')) {
+			config.KEY_MAX_CONCURRENCY = settings.get<Record<string, number>>('keyMaxConcurrency') || {};
+		}
+		if (event.affectsConfiguration('geminiAggregator-dev.quotaProfile') && !process.env.QUOTA_PROFILE) {
+			config.QUOTA_PROFILE = settings.get<string>('quotaProfile') || 'none';
+		}
+		if (event.affectsConfiguration('geminiAggregator-dev.keyQuotaProfiles')) {
+			config.KEY_QUOTA_PROFILES = settings.get<Record<string, string>>('keyQuotaProfiles') || {};
+		}
+		if (event.affectsConfiguration('geminiAggregator-dev.quotaProfiles')) {
+			config.QUOTA_PROFILES = settings.get<Record<string, QuotaProfile>>('quotaProfiles') || {};
+		}
+		if (event.affectsConfiguration('geminiAggregator-dev.requestPacing') && !process.env.REQUEST_PACING) {
+			config.REQUEST_PACING = settings.get<boolean>('requestPacing') ?? false;
+		}
+		if (event.affectsConfiguration('geminiAggregator-dev.keyGroups')) {
+			config.KEY_GROUPS = settings.get<Record<string, string>>('keyGroups') || {};
+			apiKeyManager.refreshKeyGroups();
+		}
+		if (event.affectsConfiguration('geminiAggregator-dev.keyRoutingRules')) {
+			config.KEY_ROUTING_RULES = settings.get<KeyRoutingRule[]>('keyRoutingRules') || [];
+		}
+		if (event.affectsConfiguration('geminiAggregator-dev.sessionAffinity') && !process.env.SESSION_AFFINITY) {
+			config.SESSION_AFFINITY = settings.get<boolean>('sessionAffinity') ?? false;
+		}
+		if (event.affectsConfiguration('geminiAggregator-dev.streamHeartbeatIntervalMs') && !process.env.STREAM_HEARTBEAT_INTERVAL_MS) {
+			config.STREAM_HEARTBEAT_INTERVAL_MS = settings.get<number>('streamHeartbeatIntervalMs') ?? 15000;
+		}
+		if (event.affectsConfiguration('geminiAggregator-dev.streamIdleTimeoutMs') && !process.env.STREAM_IDLE_TIMEOUT_MS) {
+			config.STREAM_IDLE_TIMEOUT_MS = settings.get<number>('streamIdleTimeoutMs') ?? 180000;
+		}
+		if (event.affectsConfiguration('geminiAggregator-dev.modelRoutes')) {
+			config.MODEL_ROUTES = settings.get<Record<string, string[]>>('modelRoutes') || {};
+		}
+	}));
+
+	const modelCatalog = new ModelCatalog(apiKeyManager, googleApiForwarder);
 
 	// Create the proxy router
-	const proxyRouter = createProxyRouter(apiKeyManager, requestDispatcher, googleApiForwarder, streamHandler, eventManager );
+	const modelRouter = new ModelRouter(requestDispatcher, eventManager);
+	const proxyRouter = createProxyRouter(apiKeyManager, requestDispatcher, googleApiForwarder, streamHandler, eventManager, modelRouter);
+	const modelsRouter = createModelsRouter(modelCatalog);
+	const openAIRouter = createOpenAIRouter(requestDispatcher, modelCatalog, streamHandler, modelRouter);
+	const anthropicRouter = createAnthropicRouter(requestDispatcher, streamHandler, modelRouter);
+
+	// 校验客户端访问令牌 (在解析请求体之前拒绝未授权的请求)
+	app.use(createClientAuthMiddleware(clientTokenManager));
 
 	// Integrate JSON body parser middleware
-	app.use(express.json({ limit: '8mb' }));
+	// 保留原始请求体，供透传模式原样转发
+	app.use(express.json({ limit: '8mb', verify: (req, _res, buf) => { (req as RawBodyRequest).rawBody = buf; } }));
 
 	// Integrate proxy router
 	app.use('/', proxyRouter);
+	app.use('/', modelsRouter);
+	app.use('/', openAIRouter);
+	app.use('/', anthropicRouter);
 
 	// 使用 loggerMiddleware
   app.use(loggerMiddleware);
@@ -298,20 +383,31 @@ export async function activate(context: vscode.ExtensionContext) {
 	
 	// Initialize command handlers
 	apiKeyCommands = new ApiKeyCommands(coreIntegrationService);
+	clientTokenCommands = new ClientTokenCommands(clientTokenManager);
 	proxyCommands = new ProxyCommands(proxyPoolManager, proxyAssignmentManager);
 	serverCommands = new ServerCommands();
 	
 	// Register all commands
 	apiKeyCommands.registerCommands(context);
+	clientTokenCommands.registerCommands(context);
 	proxyCommands.registerCommands(context);
 	serverCommands.registerCommands(context);
 	
 	// Initialize and show status bar
 	statusBarManager.show();
+	// 端点未要求客户端令牌时在状态栏持续提示
+	const updateClientAuthStatus = () => statusBarManager.updateClientAuthStatus(isEndpointUnauthenticated(clientTokenManager));
+	updateClientAuthStatus();
+	context.subscriptions.push(clientTokenManager.onDidChangeTokens(updateClientAuthStatus));
 	
 	// Start system monitoring
 	systemMonitor.startMonitoring();
 	
+	// Notify when a key's circuit breaker opens or recovers
+	const onKeyCircuitStateChange = (change: KeyCircuitStateChange) => systemMonitor.handleKeyCircuitStateChange(change);
+	eventManager.on('keyCircuitStateChange', onKeyCircuitStateChange);
+	context.subscriptions.push({ dispose: () => eventManager.off('keyCircuitStateChange', onKeyCircuitStateChange) });
+	
 	// Register UI components with disposal manager
 	disposalManager.register(apiKeyTreeView);
 	disposalManager.register(proxyTreeView);
@@ -323,6 +419,7 @@ export async function activate(context: vscode.ExtensionContext) {
 	// Register cleanup tasks
 	disposalManager.registerCleanupTask(() => {
 		if (apiKeyCommands) apiKeyCommands.dispose();
+		if (clientTokenCommands) clientTokenCommands.dispose();
 		if (proxyCommands) proxyCommands.dispose();
 		if (serverCommands) serverCommands.dispose();
 		if (apiKeyTreeProvider) apiKeyTreeProvider.dispose();
@@ -345,7 +442,7 @@ console.log('Roo: After registering runserver command');
 	context.subscriptions.push(disposable);
 
 	// Note: Other commands are now handled by the structured command classes
-	// (ApiKeyCommands, ProxyCommands, ServerCommands) to avoid conflicts
+	// (ApiKeyCommands, ClientTokenCommands, ProxyCommands, ServerCommands) to avoid conflicts
 
 	// Initialize WebviewManager
 	webviewManager = new WebviewManager(context);
@@ -401,6 +498,15 @@ export async function deactivate() {
 		}
 	}
 
+	if (keyRevalidator) {
+		try {
+			keyRevalidator.stop();
+			console.log('Key revalidator stopped successfully.');
+		} catch (error) {
+			console.error('Error stopping key revalidator:', error);
+		}
+	}
+
 	// Clean up proxy resources
 	if (proxyPoolManager) {
 		try {
@@ -1,4 +1,6 @@
 import dotenv from 'dotenv';
+import { QuotaProfile } from '../types/Quota';
+import { KeyRoutingRule } from '../types/KeyRouting';
 
 // 加载环境变量
 dotenv.config();
@@ -16,8 +18,44 @@ try {
 interface Config {
   PORT: number;
   KEY_COOL_DOWN_DURATION_MS: number;
+  COOL_DOWN_BACKOFF_MULTIPLIER: number; // 连续限流时每升一级冷却时长的倍数
+  COOL_DOWN_MAX_DURATION_MS: number; // 退避后冷却时长的上限 (上游要求更长时以上游为准)
+  COOL_DOWN_ESCALATION_WINDOW_MS: number; // 上一次冷却结束后多久内再次限流视为连续限流
+  COOL_DOWN_DECAY_SUCCESSES: number; // 每成功多少个请求退避等级降低一级
+  KEY_REVALIDATION_INTERVAL_MS: number; // 被禁用的 Key 首次重新验证前的等待时间，之后每次失败翻倍 (0 表示不自动验证)
+  KEY_REVALIDATION_MAX_INTERVAL_MS: number; // 重新验证间隔的上限
+  CIRCUIT_BREAKER_FAILURE_THRESHOLD: number; // 连续失败多少次后断开 Key 的熔断器
+  CIRCUIT_BREAKER_ERROR_RATE: number; // 健康窗口内错误率达到该值时断开熔断器
+  CIRCUIT_BREAKER_MIN_REQUESTS: number; // 按错误率判断前窗口内至少需要的请求数
+  CIRCUIT_BREAKER_OPEN_DURATION_MS: number; // 熔断器断开后多久放行一次试探请求
+  KEY_HEALTH_WINDOW_MS: number; // 健康评分的统计窗口
+  MAX_RETRY_ATTEMPTS: number; // 单个请求最多尝试的次数 (每次换用不同的 Key)
+  RETRY_DEADLINE_MS: number; // 从请求开始计算的重试截止时间
+  QUEUE_MAX_WAIT_MS: number; // 没有可用 Key 时请求在等待队列中的最长等待时间 (0 表示不排队)
+  QUEUE_MAX_DEPTH: number; // 等待队列的最大长度
+  STREAM_HEARTBEAT_INTERVAL_MS: number; // SSE 流式响应发送注释心跳的间隔 (0 表示不发送)
+  STREAM_IDLE_TIMEOUT_MS: number; // 上游流式响应超过该时间没有数据块时视为停滞并中止 (0 表示不限制)
+  MAX_CONCURRENT_REQUESTS_PER_KEY: number; // 每个 Key 同时处理的最大请求数 (0 表示不限制)
+  KEY_MAX_CONCURRENCY: Record<string, number>; // 单独指定并发上限的 Key (keyId → 上限)
   LOG_LEVEL: string;
-  DISPATCH_STRATEGY: string;
+  DISPATCH_STRATEGY: string; // Key 选择策略：round_robin、least_recently_used、least_in_flight、weighted、quota_aware
+  KEY_WEIGHTS: Record<string, number>; // weighted 策略使用的 Key 权重 (keyId → 权重，默认 1)
+  QUOTA_PROFILE: string; // 默认配额档案：none (不限制)、free_tier、tier_1 或 QUOTA_PROFILES 中的自定义档案
+  KEY_QUOTA_PROFILES: Record<string, string>; // 单独指定配额档案的 Key (keyId → 档案名)
+  QUOTA_PROFILES: Record<string, QuotaProfile>; // 自定义配额档案 (档案名 → 模型 → 限额)
+  QUOTA_SAVE_DELAY_MS: number; // 配额用量变化后延迟持久化的时间，期间的多次记录合并为一次写入
+  REQUEST_PACING: boolean; // 是否按 Key 的 RPM 用令牌桶匀速发送请求
+  PACING_BURST_SIZE: number; // 令牌桶容量：Key 空闲后可立即连续发送的请求数
+  PACING_MAX_DELAY_MS: number; // 请求为等待令牌最多延迟的时间，超过时该 Key 视为不可用
+  KEY_GROUPS: Record<string, string>; // Key 所属的分组 (keyId → 分组名，默认 default)
+  KEY_ROUTING_RULES: KeyRoutingRule[]; // 按模型、客户端或请求头限制可用 Key 分组的路由规则 (第一条匹配的规则生效)
+  REQUIRE_CLIENT_TOKEN: boolean; // 尚未签发访问令牌时是否也拒绝所有请求 (否则端点在签发第一个令牌前不需要认证)
+  SESSION_AFFINITY: boolean; // 是否将同一会话的请求固定到同一个 Key，以命中 Gemini 的隐式上下文缓存
+  SESSION_AFFINITY_TTL_MS: number; // 会话多久没有请求后解除与 Key 的绑定
+  MODEL_ROUTES: Record<string, string[]>; // 模型路由表：模型名或别名 → 依次尝试的 Gemini 模型
+  MODEL_CATALOG_TTL_MS: number; // 模型列表缓存时间
+  OPENAI_EMBEDDING_MODEL: string; // OpenAI 嵌入模型名称映射到的 Gemini 嵌入模型
+  FORWARDING_MODE: string; // 原生路由的转发方式：'sdk' 经 @google/genai 重建请求，'raw' 原样透传 REST 请求体
   apiKeys: string[]; // 添加 apiKeys 属性
   ROTATING_PROXY?: string; // 添加旋转代理支持
   USE_ROTATING_PROXY: boolean; // 是否使用旋转代理模式
@@ -27,8 +65,45 @@ interface Config {
 const config: Config = {
   PORT: parseInt(process.env.PORT || '3146', 10),
   KEY_COOL_DOWN_DURATION_MS: parseInt(process.env.KEY_COOL_DOWN_DURATION_MS || '60000', 10),
+  COOL_DOWN_BACKOFF_MULTIPLIER: parseFloat(process.env.COOL_DOWN_BACKOFF_MULTIPLIER || '2'),
+  COOL_DOWN_MAX_DURATION_MS: parseInt(process.env.COOL_DOWN_MAX_DURATION_MS || '900000', 10),
+  COOL_DOWN_ESCALATION_WINDOW_MS: parseInt(process.env.COOL_DOWN_ESCALATION_WINDOW_MS || '300000', 10),
+  COOL_DOWN_DECAY_SUCCESSES: parseInt(process.env.COOL_DOWN_DECAY_SUCCESSES || '10', 10),
+  KEY_REVALIDATION_INTERVAL_MS: parseInt(process.env.KEY_REVALIDATION_INTERVAL_MS || '300000', 10),
+  KEY_REVALIDATION_MAX_INTERVAL_MS: parseInt(process.env.KEY_REVALIDATION_MAX_INTERVAL_MS || '21600000', 10),
+  CIRCUIT_BREAKER_FAILURE_THRESHOLD: parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5', 10),
+  CIRCUIT_BREAKER_ERROR_RATE: parseFloat(process.env.CIRCUIT_BREAKER_ERROR_RATE || '0.5'),
+  CIRCUIT_BREAKER_MIN_REQUESTS: parseInt(process.env.CIRCUIT_BREAKER_MIN_REQUESTS || '10', 10),
+  CIRCUIT_BREAKER_OPEN_DURATION_MS: parseInt(process.env.CIRCUIT_BREAKER_OPEN_DURATION_MS || '30000', 10),
+  KEY_HEALTH_WINDOW_MS: parseInt(process.env.KEY_HEALTH_WINDOW_MS || '300000', 10),
+  // 至少尝试一次 (0、负数或无法解析的值按 1 处理)
+  MAX_RETRY_ATTEMPTS: Math.max(1, parseInt(process.env.MAX_RETRY_ATTEMPTS || '3', 10) || 1),
+  RETRY_DEADLINE_MS: parseInt(process.env.RETRY_DEADLINE_MS || '60000', 10),
+  QUEUE_MAX_WAIT_MS: parseInt(process.env.QUEUE_MAX_WAIT_MS || '30000', 10),
+  QUEUE_MAX_DEPTH: parseInt(process.env.QUEUE_MAX_DEPTH || '100', 10),
+  STREAM_HEARTBEAT_INTERVAL_MS: parseInt(process.env.STREAM_HEARTBEAT_INTERVAL_MS || String((vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<number>('streamHeartbeatIntervalMs') : undefined) ?? 15000), 10),
+  STREAM_IDLE_TIMEOUT_MS: parseInt(process.env.STREAM_IDLE_TIMEOUT_MS || String((vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<number>('streamIdleTimeoutMs') : undefined) ?? 180000), 10),
+  MAX_CONCURRENT_REQUESTS_PER_KEY: parseInt(process.env.MAX_CONCURRENT_REQUESTS_PER_KEY || String((vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<number>('maxConcurrentRequestsPerKey') : undefined) ?? 0), 10),
+  KEY_MAX_CONCURRENCY: (vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<Record<string, number>>('keyMaxConcurrency') : undefined) || {},
   LOG_LEVEL: process.env.LOG_LEVEL || 'info',
-  DISPATCH_STRATEGY: process.env.DISPATCH_STRATEGY || 'round_robin',
+  DISPATCH_STRATEGY: process.env.DISPATCH_STRATEGY || (vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<string>('dispatchStrategy') : undefined) || 'round_robin',
+  KEY_WEIGHTS: (vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<Record<string, number>>('keyWeights') : undefined) || {},
+  QUOTA_PROFILE: process.env.QUOTA_PROFILE || (vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<string>('quotaProfile') : undefined) || 'none',
+  KEY_QUOTA_PROFILES: (vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<Record<string, string>>('keyQuotaProfiles') : undefined) || {},
+  QUOTA_PROFILES: (vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<Record<string, QuotaProfile>>('quotaProfiles') : undefined) || {},
+  QUOTA_SAVE_DELAY_MS: parseInt(process.env.QUOTA_SAVE_DELAY_MS || '5000', 10),
+  REQUEST_PACING: process.env.REQUEST_PACING ? process.env.REQUEST_PACING === 'true' : (vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<boolean>('requestPacing') : undefined) ?? false,
+  PACING_BURST_SIZE: parseInt(process.env.PACING_BURST_SIZE || '1', 10),
+  PACING_MAX_DELAY_MS: parseInt(process.env.PACING_MAX_DELAY_MS || '5000', 10),
+  KEY_GROUPS: (vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<Record<string, string>>('keyGroups') : undefined) || {},
+  KEY_ROUTING_RULES: (vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<KeyRoutingRule[]>('keyRoutingRules') : undefined) || [],
+  REQUIRE_CLIENT_TOKEN: process.env.REQUIRE_CLIENT_TOKEN ? process.env.REQUIRE_CLIENT_TOKEN === 'true' : (vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<boolean>('requireClientToken') : undefined) ?? false,
+  SESSION_AFFINITY: process.env.SESSION_AFFINITY ? process.env.SESSION_AFFINITY === 'true' : (vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<boolean>('sessionAffinity') : undefined) ?? false,
+  SESSION_AFFINITY_TTL_MS: parseInt(process.env.SESSION_AFFINITY_TTL_MS || '600000', 10),
+  MODEL_ROUTES: (vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<Record<string, string[]>>('modelRoutes') : undefined) || {},
+  MODEL_CATALOG_TTL_MS: parseInt(process.env.MODEL_CATALOG_TTL_MS || '600000', 10),
+  OPENAI_EMBEDDING_MODEL: process.env.OPENAI_EMBEDDING_MODEL || 'gemini-embedding-001',
+  FORWARDING_MODE: process.env.FORWARDING_MODE || (vscode ? vscode.workspace.getConfiguration('geminiAggregator-dev').get<string>('forwardingMode') : undefined) || 'sdk',
   // 从 VS Code 配置中获取 API Keys (如果可用)
   apiKeys: vscode ? (vscode.workspace.getConfiguration('geminiAggregator-dev').get('apiKeys') || []) : [],
   // 旋转代理配置
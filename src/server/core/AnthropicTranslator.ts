@@ -0,0 +1,406 @@
+import {
+  AnthropicContentBlock,
+  AnthropicErrorResponse,
+  AnthropicMessagesRequest,
+  AnthropicMessagesResponse,
+  AnthropicStreamEvent,
+  AnthropicUsage,
+  GeminiContent,
+  GeminiGenerateContentRequest,
+  GeminiGenerateContentResponse,
+  GeminiPart,
+  GeminiUsageMetadata,
+} from '../types';
+import { toGeminiSchema } from './GeminiSchema';
+
+/**
+ * Per-stream state needed to translate Gemini chunks into Anthropic stream events
+ */
+export interface AnthropicStreamState {
+  id: string;
+  model: string;
+  started: boolean;                     // Whether message_start has been emitted
+  blockIndex: number;                   // Index of the next (or currently open) content block
+  openBlockType: 'text' | null;         // Only text blocks stay open across chunks
+  sawToolUse: boolean;
+  stopReason: string | null;
+  usage: AnthropicUsage;
+}
+
+/**
+ * Translates between the Anthropic Messages protocol and Gemini generateContent
+ */
+export class AnthropicTranslator {
+
+  /**
+   * Strip the optional "models/" prefix from a requested model name
+   */
+  static toGeminiModelId(model: string): string {
+    return model.startsWith('models/') ? model.substring('models/'.length) : model;
+  }
+
+  /**
+   * Convert an Anthropic Messages request to a GoogleApiForwarder request body
+   */
+  static toGeminiRequest(request: AnthropicMessagesRequest): GeminiGenerateContentRequest {
+    const contents: GeminiContent[] = [];
+    // tool_result 只携带 tool_use_id，需要根据之前的 tool_use 块找回函数名
+    const toolUseNames = new Map<string, string>();
+
+    for (const message of request.messages || []) {
+      const role = message.role === 'assistant' ? 'model' : 'user';
+      const blocks = typeof message.content === 'string'
+        ? [{ type: 'text', text: message.content }]
+        : message.content || [];
+      const parts: GeminiPart[] = [];
+
+      for (const block of blocks) {
+        if (block.type === 'tool_use' && block.name) {
+          if (block.id) {
+            toolUseNames.set(block.id, block.name);
+          }
+          parts.push({ functionCall: { name: block.name, args: block.input || {} } });
+        } else if (block.type === 'tool_result') {
+          parts.push(...AnthropicTranslator.toFunctionResponseParts(block, toolUseNames));
+        } else {
+          const part = AnthropicTranslator.toGeminiPart(block);
+          if (part) {
+            parts.push(part);
+          }
+        }
+      }
+
+      AnthropicTranslator.appendContent(contents, role, parts);
+    }
+
+    const generateConfig: Record<string, unknown> = {};
+    const systemText = AnthropicTranslator.getTextContent(request.system);
+    if (systemText.length > 0) {
+      generateConfig.systemInstruction = { parts: [{ text: systemText }] };
+    }
+    if (request.max_tokens !== undefined) {
+      generateConfig.maxOutputTokens = request.max_tokens;
+    }
+    if (request.temperature !== undefined) {
+      generateConfig.temperature = request.temperature;
+    }
+    if (request.top_p !== undefined) {
+      generateConfig.topP = request.top_p;
+    }
+    if (request.top_k !== undefined) {
+      generateConfig.topK = request.top_k;
+    }
+    if (request.stop_sequences && request.stop_sequences.length > 0) {
+      generateConfig.stopSequences = request.stop_sequences;
+    }
+    if (request.thinking?.type === 'enabled' && request.thinking.budget_tokens !== undefined) {
+      generateConfig.thinkingConfig = { thinkingBudget: request.thinking.budget_tokens };
+    }
+
+    if (request.tools && request.tools.length > 0) {
+      generateConfig.tools = [{
+        functionDeclarations: request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: toGeminiSchema(tool.input_schema),
+        })),
+      }];
+    }
+    if (request.tool_choice !== undefined) {
+      generateConfig.toolConfig = { functionCallingConfig: AnthropicTranslator.toFunctionCallingConfig(request.tool_choice) };
+    }
+
+    return { contents, config: generateConfig };
+  }
+
+  /**
+   * Convert a Gemini generateContent response to an Anthropic Messages response
+   */
+  static toMessagesResponse(response: GeminiGenerateContentResponse, model: string, id: string): AnthropicMessagesResponse {
+    // Messages 协议只有一个候选结果
+    const candidate = response.candidates?.[0];
+    const content: AnthropicContentBlock[] = [];
+
+    for (const part of candidate?.content?.parts || []) {
+      if (typeof part.text === 'string' && !part.thought) {
+        const last = content[content.length - 1];
+        if (last && last.type === 'text') {
+          last.text += part.text;
+        } else {
+          content.push({ type: 'text', text: part.text });
+        }
+      } else if (part.functionCall) {
+        content.push(AnthropicTranslator.toToolUseBlock(part));
+      }
+    }
+
+    let stopReason: string | null;
+    if (content.some(block => block.type === 'tool_use')) {
+      stopReason = 'tool_use';
+    } else if (!candidate && response.promptFeedback?.blockReason) {
+      // 提示词被拦截时 Gemini 不返回候选结果
+      stopReason = 'refusal';
+    } else {
+      stopReason = AnthropicTranslator.toStopReason(candidate?.finishReason);
+    }
+
+    return {
+      id,
+      type: 'message',
+      role: 'assistant',
+      model,
+      content,
+      stop_reason: stopReason,
+      stop_sequence: null,
+      usage: AnthropicTranslator.toUsage(response.usageMetadata),
+    };
+  }
+
+  /**
+   * Create the state object used to translate one streaming response
+   */
+  static createStreamState(model: string, id: string): AnthropicStreamState {
+    return {
+      id,
+      model,
+      started: false,
+      blockIndex: 0,
+      openBlockType: null,
+      sawToolUse: false,
+      stopReason: null,
+      usage: { input_tokens: 0, output_tokens: 0 },
+    };
+  }
+
+  /**
+   * Convert one Gemini stream chunk into zero or more Anthropic stream events
+   */
+  static toStreamEvents(chunk: GeminiGenerateContentResponse, state: AnthropicStreamState): AnthropicStreamEvent[] {
+    if (chunk.usageMetadata) {
+      state.usage = AnthropicTranslator.toUsage(chunk.usageMetadata);
+    }
+
+    const events: AnthropicStreamEvent[] = [];
+    AnthropicTranslator.startMessage(events, state);
+
+    const candidate = chunk.candidates?.[0];
+    if (!candidate && chunk.promptFeedback?.blockReason) {
+      state.stopReason = 'refusal';
+    }
+
+    for (const part of candidate?.content?.parts || []) {
+      if (typeof part.text === 'string' && !part.thought && part.text.length > 0) {
+        if (state.openBlockType !== 'text') {
+          events.push({ type: 'content_block_start', index: state.blockIndex, content_block: { type: 'text', text: '' } });
+          state.openBlockType = 'text';
+        }
+        events.push({ type: 'content_block_delta', index: state.blockIndex, delta: { type: 'text_delta', text: part.text } });
+      } else if (part.functionCall) {
+        // Gemini 一次性返回完整的函数调用，作为一个完整的 tool_use 块发送
+        AnthropicTranslator.closeBlock(events, state);
+        const toolUse = AnthropicTranslator.toToolUseBlock(part);
+        events.push({ type: 'content_block_start', index: state.blockIndex, content_block: { ...toolUse, input: {} } });
+        events.push({ type: 'content_block_delta', index: state.blockIndex, delta: { type: 'input_json_delta', partial_json: JSON.stringify(toolUse.input) } });
+        events.push({ type: 'content_block_stop', index: state.blockIndex });
+        state.blockIndex++;
+        state.sawToolUse = true;
+      }
+    }
+
+    if (state.sawToolUse) {
+      state.stopReason = 'tool_use';
+    } else if (candidate?.finishReason) {
+      state.stopReason = AnthropicTranslator.toStopReason(candidate.finishReason);
+    }
+
+    return events;
+  }
+
+  /**
+   * Build the final events that close an Anthropic stream
+   */
+  static toFinalEvents(state: AnthropicStreamState): AnthropicStreamEvent[] {
+    const events: AnthropicStreamEvent[] = [];
+    AnthropicTranslator.startMessage(events, state);
+    AnthropicTranslator.closeBlock(events, state);
+    events.push({
+      type: 'message_delta',
+      delta: { stop_reason: state.stopReason || 'end_turn', stop_sequence: null },
+      usage: { output_tokens: state.usage.output_tokens },
+    });
+    events.push({ type: 'message_stop' });
+    return events;
+  }
+
+  /**
+   * Build an Anthropic-shaped error body for the given HTTP status
+   */
+  static toErrorResponse(statusCode: number, message: string): AnthropicErrorResponse {
+    let type = 'api_error';
+    if (statusCode === 400) {
+      type = 'invalid_request_error';
+    } else if (statusCode === 401) {
+      type = 'authentication_error';
+    } else if (statusCode === 403) {
+      type = 'permission_error';
+    } else if (statusCode === 404) {
+      type = 'not_found_error';
+    } else if (statusCode === 429) {
+      type = 'rate_limit_error';
+    } else if (statusCode === 503 || statusCode === 529) {
+      type = 'overloaded_error';
+    }
+
+    return { type: 'error', error: { type, message } };
+  }
+
+  private static startMessage(events: AnthropicStreamEvent[], state: AnthropicStreamState): void {
+    if (state.started) {
+      return;
+    }
+    events.push({
+      type: 'message_start',
+      message: {
+        id: state.id,
+        type: 'message',
+        role: 'assistant',
+        model: state.model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: state.usage.input_tokens, output_tokens: 0 },
+      },
+    });
+    state.started = true;
+  }
+
+  private static closeBlock(events: AnthropicStreamEvent[], state: AnthropicStreamState): void {
+    if (state.openBlockType === null) {
+      return;
+    }
+    events.push({ type: 'content_block_stop', index: state.blockIndex });
+    state.blockIndex++;
+    state.openBlockType = null;
+  }
+
+  /**
+   * Append parts to the conversation, merging consecutive turns from the same role
+   */
+  private static appendContent(contents: GeminiContent[], role: 'user' | 'model', parts: GeminiPart[]): void {
+    if (parts.length === 0) {
+      return;
+    }
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  }
+
+  private static getTextContent(content?: string | AnthropicContentBlock[]): string {
+    if (!content) {
+      return '';
+    }
+    if (typeof content === 'string') {
+      return content;
+    }
+    return content
+      .filter(block => block.type === 'text' && block.text)
+      .map(block => block.text)
+      .join('\n');
+  }
+
+  private static toGeminiPart(block: AnthropicContentBlock): GeminiPart | undefined {
+    if (block.type === 'text' && block.text) {
+      return { text: block.text };
+    }
+    if ((block.type === 'image' || block.type === 'document') && block.source) {
+      if (block.source.type === 'base64' && block.source.data) {
+        return { inlineData: { mimeType: block.source.media_type || 'application/octet-stream', data: block.source.data } };
+      }
+      if (block.source.type === 'url' && block.source.url) {
+        return { fileData: { fileUri: block.source.url } };
+      }
+    }
+    // thinking 块带有 Anthropic 专用签名，Gemini 无法使用，直接丢弃
+    return undefined;
+  }
+
+  /**
+   * Convert a tool_result block to a functionResponse part, followed by any non-text parts it carries
+   */
+  private static toFunctionResponseParts(block: AnthropicContentBlock, toolUseNames: Map<string, string>): GeminiPart[] {
+    const name = (block.tool_use_id && toolUseNames.get(block.tool_use_id)) || 'unknown_function';
+    const text = AnthropicTranslator.getTextContent(block.content);
+    let response: Record<string, unknown>;
+    if (block.is_error) {
+      response = { error: text };
+    } else {
+      try {
+        const parsed = JSON.parse(text);
+        response = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { content: parsed };
+      } catch {
+        response = { content: text };
+      }
+    }
+
+    const extraParts = Array.isArray(block.content)
+      ? block.content
+        .filter(inner => inner.type !== 'text')
+        .map(inner => AnthropicTranslator.toGeminiPart(inner))
+        .filter((part): part is GeminiPart => part !== undefined)
+      : [];
+
+    return [{ functionResponse: { name, response } }, ...extraParts];
+  }
+
+  private static toFunctionCallingConfig(toolChoice: NonNullable<AnthropicMessagesRequest['tool_choice']>): Record<string, unknown> {
+    switch (toolChoice.type) {
+      case 'none':
+        return { mode: 'NONE' };
+      case 'any':
+        return { mode: 'ANY' };
+      case 'tool':
+        return toolChoice.name ? { mode: 'ANY', allowedFunctionNames: [toolChoice.name] } : { mode: 'ANY' };
+      default:
+        return { mode: 'AUTO' };
+    }
+  }
+
+  private static toToolUseBlock(part: GeminiPart): AnthropicContentBlock {
+    const functionCall = part.functionCall!;
+    return {
+      type: 'tool_use',
+      id: functionCall.id || `toolu_${Math.random().toString(36).substring(2, 14)}`,
+      name: functionCall.name,
+      input: functionCall.args || {},
+    };
+  }
+
+  private static toStopReason(finishReason?: string): string | null {
+    switch (finishReason) {
+      case undefined:
+        return null;
+      case 'MAX_TOKENS':
+        return 'max_tokens';
+      case 'SAFETY':
+      case 'RECITATION':
+      case 'BLOCKLIST':
+      case 'PROHIBITED_CONTENT':
+      case 'SPII':
+      case 'IMAGE_SAFETY':
+        return 'refusal';
+      default:
+        return 'end_turn';
+    }
+  }
+
+  private static toUsage(usage?: GeminiUsageMetadata): AnthropicUsage {
+    return {
+      input_tokens: usage?.promptTokenCount || 0,
+      // 思考 token 同样按输出计费
+      output_tokens: (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0),
+    };
+  }
+}
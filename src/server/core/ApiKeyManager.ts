@@ -1,19 +1,33 @@
-import { ApiKey } from "../types/ApiKey";
+import { ApiKey, CircuitState, KeySelectionContext, KeySelectionStrategy } from "../types/ApiKey";
 import { eventManager, EventManager } from "./EventManager"; // 引入 EventManager 類別
 import * as vscode from "vscode"; // 引入 vscode 模組
 import { ProxyPoolManager } from "./ProxyPoolManager";
 import { ProxyAssignmentManager } from "./ProxyAssignmentManager";
 import { ProxyLoadBalancer } from "./ProxyLoadBalancer";
+import { createKeySelectionStrategy } from "./KeySelectionStrategy";
+import * as QuotaTracker from "./QuotaTracker";
+import * as KeyHealthTracker from "./KeyHealthTracker";
+import * as RequestPacer from "./RequestPacer";
+import { getAllowedKeyGroups, getKeyGroup } from "./KeyRouting";
+import { PacingBucket, QuotaUsage } from "../types/Quota";
 import config from "../config";
 
+/**
+ * Key 的并发上限 (keyMaxConcurrency 优先于 MAX_CONCURRENT_REQUESTS_PER_KEY)，0 表示不限制
+ */
+export function getKeyMaxConcurrency(keyId: string): number {
+  return config.KEY_MAX_CONCURRENCY[keyId] ?? config.MAX_CONCURRENT_REQUESTS_PER_KEY;
+}
+
 class ApiKeyManager {
   private keys: Map<string, ApiKey> = new Map();
-  private roundRobinIndex: number = 0;
+  private strategy: KeySelectionStrategy = createKeySelectionStrategy(config.DISPATCH_STRATEGY);
   private eventManager: EventManager; // 修改為 EventManager 類型
   private context: vscode.ExtensionContext; // 新增屬性
   private proxyPoolManager?: ProxyPoolManager;
   private proxyAssignmentManager?: ProxyAssignmentManager;
   private proxyLoadBalancer?: ProxyLoadBalancer;
+  private quotaSaveTimers: Map<string, NodeJS.Timeout> = new Map(); // key → 待执行的配额用量持久化
 
   constructor(
     apiKeys: ApiKey[], 
@@ -44,7 +58,15 @@ class ApiKeyManager {
       const storedStatusJson = await this.context.secrets.get(keyStatusId);
       let status: 'available' | 'cooling_down' | 'disabled' = 'available';
       let coolingDownUntil: number | undefined = undefined;
+      let coolDownReason: ApiKey['coolDownReason'] = undefined;
+      let coolDownLevel: number | undefined = undefined;
+      let lastCoolDownUntil: number | undefined = undefined;
+      let disabledReason: string | undefined = undefined;
+      let disabledAt: number | undefined = undefined;
+      let revalidationAttempts: number | undefined = undefined;
+      let nextRevalidationAt: number | undefined = undefined;
       let usedHistory: { date: number; rate: number; serverCurrentTime?: number }[] = []; // 新增：初始化 usedHistory
+      let quotaUsage: Record<string, QuotaUsage> = {};
 
       // Legacy proxy field (for backward compatibility)
       let proxy: string | undefined = undefined;
@@ -58,7 +80,15 @@ class ApiKeyManager {
           const storedStatus = JSON.parse(storedStatusJson);
           status = storedStatus.status || 'available';
           coolingDownUntil = storedStatus.coolingDownUntil;
+          coolDownReason = storedStatus.coolDownReason;
+          coolDownLevel = storedStatus.coolDownLevel;
+          lastCoolDownUntil = storedStatus.lastCoolDownUntil;
+          disabledReason = storedStatus.disabledReason;
+          disabledAt = storedStatus.disabledAt;
+          revalidationAttempts = storedStatus.revalidationAttempts;
+          nextRevalidationAt = storedStatus.nextRevalidationAt;
           usedHistory = storedStatus.usedHistory || []; // 新增：載入 usedHistory
+          quotaUsage = storedStatus.quotaUsage || {};
           proxy = storedStatus.proxy;
           assignedProxyId = storedStatus.assignedProxyId;
           proxyAssignedAt = storedStatus.proxyAssignedAt;
@@ -73,11 +103,20 @@ class ApiKeyManager {
       this.keys.set(keyObj.key, {
         key: keyObj.key,
         keyId: keyObj.keyId,
+        group: getKeyGroup(keyObj.keyId),
         status: status, // 使用持久化的狀態
         coolingDownUntil: coolingDownUntil, // 使用持久化的冷卻時間
+        coolDownReason: coolDownReason,
+        coolDownLevel: coolDownLevel,
+        lastCoolDownUntil: lastCoolDownUntil,
+        disabledReason: disabledReason,
+        disabledAt: disabledAt,
+        revalidationAttempts: revalidationAttempts,
+        nextRevalidationAt: nextRevalidationAt,
         currentRequests: keyObj.currentRequests || 0,
         lastUsed: keyObj.lastUsed,
         usedHistory: usedHistory, // 新增：設置 usedHistory
+        quotaUsage: quotaUsage,
         proxy: proxy, // Legacy field
         assignedProxyId: assignedProxyId,
         proxyAssignedAt: proxyAssignedAt
@@ -128,11 +167,21 @@ class ApiKeyManager {
   }
 
   private async saveKeyStatus(apiKey: ApiKey): Promise<void> {
+    // 本次写入已包含最新的配额用量
+    this.cancelQuotaSave(apiKey.key);
     const keyStatusId = `apiKeyStatus_${apiKey.keyId}`;
     const statusData = {
       status: apiKey.status,
       coolingDownUntil: apiKey.coolingDownUntil,
+      coolDownReason: apiKey.coolDownReason,
+      coolDownLevel: apiKey.coolDownLevel,
+      lastCoolDownUntil: apiKey.lastCoolDownUntil,
+      disabledReason: apiKey.disabledReason,
+      disabledAt: apiKey.disabledAt,
+      revalidationAttempts: apiKey.revalidationAttempts,
+      nextRevalidationAt: apiKey.nextRevalidationAt,
       usedHistory: apiKey.usedHistory, // 新增：儲存 usedHistory
+      quotaUsage: apiKey.quotaUsage,
       proxy: apiKey.proxy, // Legacy field for backward compatibility
       assignedProxyId: apiKey.assignedProxyId, // Enhanced proxy field
       proxyAssignedAt: apiKey.proxyAssignedAt // Enhanced proxy field
@@ -190,23 +239,89 @@ class ApiKeyManager {
     this.proxies = proxies;
   }
 
-  async getAvailableKey(): Promise<ApiKey | null> {
-    const availableKeys = Array.from(this.keys.values()).filter(
-      key => key.status === 'available' && (!key.coolingDownUntil || key.coolingDownUntil <= Date.now())
+  /**
+   * 获取当前可用 (未冷却、未禁用) 的 Key 列表。
+   * 冷却时间已过但尚未被 checkCoolingDownKeys 恢复的 Key 也视为可用。
+   */
+  getAvailableKeys(): ApiKey[] {
+    const now = Date.now();
+    return Array.from(this.keys.values()).filter(key => {
+      if (key.status === 'cooling_down') {
+        return key.coolingDownUntil !== undefined && key.coolingDownUntil <= now;
+      }
+      return key.status === 'available' && (!key.coolingDownUntil || key.coolingDownUntil <= now);
+    });
+  }
+
+  /**
+   * keyGroups 设置变更后更新所有 Key 的分组
+   */
+  refreshKeyGroups(): void {
+    for (const apiKey of this.keys.values()) {
+      const group = getKeyGroup(apiKey.keyId);
+      if (apiKey.group !== group) {
+        apiKey.group = group;
+        this.eventManager.emitApiKeyStatusUpdate(apiKey);
+      }
+    }
+  }
+
+  /**
+   * 切换 Key 选择策略 (DISPATCH_STRATEGY)，运行中即时生效
+   */
+  setDispatchStrategy(type: string): void {
+    this.strategy = createKeySelectionStrategy(type);
+    console.info(`ApiKeyManager: Key 选择策略切换为 ${type}。`);
+  }
+
+  /**
+   * 按当前的 Key 选择策略选择一个可用 Key。
+   * 选中的 Key 会立即占用一个并发名额，调用方在请求结束时必须调用 decrementRequestCount 释放。
+   * @param excludeKeys 本次请求已尝试过、需要跳过的 Key
+   * @param context 本次请求的信息 (如模型、会话固定的 Key)，供选择策略参考
+   */
+  async getAvailableKey(excludeKeys?: Set<string>, context: KeySelectionContext = {}): Promise<ApiKey | null> {
+    // 跳过路由规则不允许的分组、熔断器断开、已达并发上限、再发一次请求就会超出该模型配额或需要等待令牌过久的 Key
+    const allowedGroups = getAllowedKeyGroups(context);
+    const availableKeys = this.getAvailableKeys().filter(key =>
+      !excludeKeys?.has(key.key) &&
+      (!allowedGroups || allowedGroups.includes(key.group || getKeyGroup(key.keyId))) &&
+      KeyHealthTracker.isCircuitAllowing(key.health) &&
+      this.hasConcurrencyCapacity(key) &&
+      (!context.modelId || (this.isWithinQuota(key, context.modelId) && this.getPacingDelay(key, context.modelId) <= config.PACING_MAX_DELAY_MS))
     );
 
-    if (availableKeys.length === 0) {
+    // 启用请求匀速时优先选择令牌桶中有令牌的 Key；都没有时选择最早有令牌的 Key，把突发请求分散到整个 Key 池
+    const candidateKeys = context.modelId ? this.getPacedCandidates(availableKeys, context.modelId) : availableKeys;
+
+    // 会话已固定的 Key 可用时优先使用，否则按选择策略选取
+    const selectedKey = candidateKeys.find(key => key.key === context.preferredKey) ?? this.strategy.selectKey(candidateKeys, context);
+    if (!selectedKey) {
       console.warn('ApiKeyManager: 没有可用的 API Key。');
       return null;
     }
 
-    // 简单轮询策略
-    const selectedKey = availableKeys[this.roundRobinIndex % availableKeys.length];
-    this.roundRobinIndex = (this.roundRobinIndex + 1) % availableKeys.length;
+    // 在任何 await 之前占用名额，避免并发请求同时选中已满的 Key
+    selectedKey.currentRequests++;
+    if (selectedKey.health) {
+      // 熔断器等待结束后，本次请求作为半开状态下唯一的试探请求
+      const previousState = selectedKey.health.circuitState;
+      this.emitCircuitStateChange(selectedKey, previousState, KeyHealthTracker.beginCircuitAttempt(selectedKey.health));
+    }
 
     // 更新 lastUsed 並發送事件
     selectedKey.lastUsed = Date.now();
     
+    const keyToReturn = await this.resolveKeyProxy(selectedKey);
+    
+    this.eventManager.emitApiKeyStatusUpdate(selectedKey);
+    return keyToReturn;
+  }
+
+  /**
+   * 返回附带本次请求所用代理的 Key 副本，不修改原始 Key
+   */
+  async resolveKeyProxy(selectedKey: ApiKey): Promise<ApiKey> {
     // Create a copy of the selected key to avoid modifying the original
     let keyToReturn = { ...selectedKey };
     
@@ -245,45 +360,216 @@ class ApiKeyManager {
       console.log(`ApiKeyManager: Using rotating proxy ${keyToReturn.proxy} for key ${selectedKey.keyId}`);
     }
     
-    this.eventManager.emitApiKeyStatusUpdate(selectedKey);
     return keyToReturn;
   }
 
-  async markAsCoolingDown(key: string, durationMs: number): Promise<void> { // 修改為 async
+  /**
+   * 将 Key 冷却指定时长 (上游建议的重试延迟，或每日配额重置前的剩余时间)
+   */
+  async markAsCoolingDown(key: string, durationMs: number, reason: 'rate_limit' | 'daily_quota' = 'rate_limit'): Promise<void> { // 修改為 async
     const apiKey = this.keys.get(key);
     if (apiKey) {
+      const now = Date.now();
+      // 同一波突发中并发请求的 429 只计一次：冷却期间的限流不再延长冷却或提升退避等级
+      if (reason === 'rate_limit' && apiKey.status === 'cooling_down' && (apiKey.coolingDownUntil ?? 0) > now) {
+        return;
+      }
+      if (reason === 'rate_limit') {
+        durationMs = this.escalateCoolDown(apiKey, durationMs, now);
+        apiKey.lastCoolDownUntil = now + durationMs;
+      }
       apiKey.status = 'cooling_down';
-      apiKey.coolingDownUntil = Date.now() + durationMs;
-      console.warn(`ApiKeyManager: Key ${apiKey.keyId} 标记为冷却中，直到 ${new Date(apiKey.coolingDownUntil).toISOString()}`);
+      apiKey.coolingDownUntil = now + durationMs;
+      apiKey.coolDownReason = reason;
+      console.warn(`ApiKeyManager: Key ${apiKey.keyId} 标记为冷却中 (${reason}，退避等级 ${apiKey.coolDownLevel ?? 0})，直到 ${new Date(apiKey.coolingDownUntil).toISOString()}`);
       this.eventManager.emitApiKeyStatusUpdate(apiKey);
       await this.saveKeyStatus(apiKey); // 持久化狀態
     }
   }
 
+  /**
+   * 上一次冷却结束后不久再次限流时提升退避等级，冷却时长按等级成倍放大 (不超过上限)；
+   * 距上一次冷却结束已超过窗口时重新从等级 0 开始
+   */
+  private escalateCoolDown(apiKey: ApiKey, baseDurationMs: number, now: number): number {
+    const isRepeated = apiKey.lastCoolDownUntil !== undefined
+      && now >= apiKey.lastCoolDownUntil
+      && now - apiKey.lastCoolDownUntil <= config.COOL_DOWN_ESCALATION_WINDOW_MS;
+    apiKey.coolDownLevel = isRepeated ? (apiKey.coolDownLevel ?? 0) + 1 : 0;
+    apiKey.successesSinceBackoff = 0;
+
+    const escalated = baseDurationMs * Math.pow(config.COOL_DOWN_BACKOFF_MULTIPLIER, apiKey.coolDownLevel);
+    return Math.round(Math.min(escalated, Math.max(config.COOL_DOWN_MAX_DURATION_MS, baseDurationMs)));
+  }
+
+  /**
+   * 记录一次成功的请求：持续成功 COOL_DOWN_DECAY_SUCCESSES 次后退避等级降低一级
+   */
+  async recordSuccess(key: string): Promise<void> {
+    const apiKey = this.keys.get(key);
+    if (!apiKey || !apiKey.coolDownLevel) {
+      return;
+    }
+    apiKey.successesSinceBackoff = (apiKey.successesSinceBackoff ?? 0) + 1;
+    if (apiKey.successesSinceBackoff >= config.COOL_DOWN_DECAY_SUCCESSES) {
+      apiKey.coolDownLevel--;
+      apiKey.successesSinceBackoff = 0;
+      console.info(`ApiKeyManager: Key ${apiKey.keyId} 持续成功，退避等级降为 ${apiKey.coolDownLevel}。`);
+      await this.saveKeyStatus(apiKey);
+    }
+  }
+
   async markAsAvailable(key: string): Promise<void> { // 修改為 async
     const apiKey = this.keys.get(key);
     if (apiKey) {
       apiKey.status = 'available';
       apiKey.coolingDownUntil = undefined;
+      apiKey.coolDownReason = undefined;
+      apiKey.disabledReason = undefined;
+      apiKey.disabledAt = undefined;
+      apiKey.revalidationAttempts = undefined;
+      apiKey.nextRevalidationAt = undefined;
       console.info(`ApiKeyManager: Key ${apiKey.keyId} 标记为可用。`);
       this.eventManager.emitApiKeyStatusUpdate(apiKey);
       await this.saveKeyStatus(apiKey); // 持久化狀態
     }
   }
 
-  // 可选方法，用于更复杂的并发控制
+  /**
+   * 禁用 Key (如认证失败)，并安排后台重新验证
+   */
+  async markAsDisabled(key: string, reason: string): Promise<void> {
+    const apiKey = this.keys.get(key);
+    if (apiKey) {
+      apiKey.status = 'disabled';
+      apiKey.disabledReason = reason;
+      apiKey.disabledAt = Date.now();
+      apiKey.coolingDownUntil = undefined;
+      apiKey.coolDownReason = undefined;
+      apiKey.revalidationAttempts = 0;
+      apiKey.nextRevalidationAt = this.getNextRevalidationTime(0);
+      console.error(`ApiKeyManager: Key ${apiKey.keyId} 已禁用: ${reason}`);
+      this.eventManager.emitApiKeyStatusUpdate(apiKey);
+      await this.saveKeyStatus(apiKey);
+    }
+  }
+
+  /**
+   * 重新验证失败后，按指数退避安排下一次验证
+   */
+  async scheduleRevalidation(key: string): Promise<void> {
+    const apiKey = this.keys.get(key);
+    if (apiKey && apiKey.status === 'disabled') {
+      apiKey.revalidationAttempts = (apiKey.revalidationAttempts || 0) + 1;
+      apiKey.nextRevalidationAt = this.getNextRevalidationTime(apiKey.revalidationAttempts);
+      console.warn(`ApiKeyManager: Key ${apiKey.keyId} 重新验证失败，下次验证时间 ${apiKey.nextRevalidationAt ? new Date(apiKey.nextRevalidationAt).toISOString() : '无'}`);
+      this.eventManager.emitApiKeyStatusUpdate(apiKey);
+      await this.saveKeyStatus(apiKey);
+    }
+  }
+
+  /**
+   * 已到重新验证时间的禁用 Key
+   */
+  getKeysDueForRevalidation(now: number = Date.now()): ApiKey[] {
+    return Array.from(this.keys.values()).filter(key =>
+      key.status === 'disabled' && key.nextRevalidationAt !== undefined && key.nextRevalidationAt <= now
+    );
+  }
+
+  /**
+   * 手动重新启用 Key
+   */
+  async enableKey(keyId: string): Promise<boolean> {
+    const apiKey = Array.from(this.keys.values()).find(key => key.keyId === keyId);
+    if (!apiKey) {
+      return false;
+    }
+    await this.markAsAvailable(apiKey.key);
+    return true;
+  }
+
+  private getNextRevalidationTime(attempts: number): number | undefined {
+    if (config.KEY_REVALIDATION_INTERVAL_MS <= 0) {
+      return undefined;
+    }
+    const interval = Math.min(config.KEY_REVALIDATION_INTERVAL_MS * Math.pow(2, attempts), config.KEY_REVALIDATION_MAX_INTERVAL_MS);
+    return Date.now() + interval;
+  }
+
+  /**
+   * Key 是否还有空闲的并发名额
+   */
+  hasConcurrencyCapacity(apiKey: ApiKey): boolean {
+    const maxConcurrency = getKeyMaxConcurrency(apiKey.keyId);
+    return maxConcurrency <= 0 || apiKey.currentRequests < maxConcurrency;
+  }
+
+  /**
+   * 记录一次转发尝试的结果，更新 Key 的健康评分和熔断器状态
+   * @param success 上游是否正常响应
+   * @param latencyMs 本次尝试的耗时
+   */
+  recordKeyOutcome(key: string, success: boolean, latencyMs: number): void {
+    const apiKey = this.keys.get(key);
+    if (apiKey) {
+      if (!apiKey.health) {
+        apiKey.health = KeyHealthTracker.createKeyHealth();
+      }
+      const previousState = apiKey.health.circuitState;
+      this.emitCircuitStateChange(apiKey, previousState, KeyHealthTracker.recordKeyOutcome(apiKey.health, success, latencyMs));
+      this.eventManager.emitApiKeyStatusUpdate(apiKey);
+    }
+  }
+
+  /**
+   * 试探请求因与 Key 健康无关的原因结束 (如 429 或客户端错误) 时，允许下一个请求继续试探
+   */
+  endCircuitTrial(key: string): void {
+    const apiKey = this.keys.get(key);
+    if (apiKey?.health?.trialInFlight) {
+      apiKey.health.trialInFlight = false;
+      this.eventManager.emitApiKeyStatusUpdate(apiKey);
+    }
+  }
+
+  /**
+   * 熔断器断开的 Key 中最早放行试探请求的时间 (用于唤醒等待队列)
+   */
+  getNextCircuitRetryTime(): number | undefined {
+    const now = Date.now();
+    // 已到放行时间的 Key 无需等待 (仍被并发上限等条件排除时，名额释放会触发 apiKeyStatusUpdate)
+    const retryTimes = this.getAvailableKeys()
+      .filter(key => key.health?.circuitState === 'open' && key.health.circuitOpenUntil !== undefined && key.health.circuitOpenUntil > now)
+      .map(key => key.health!.circuitOpenUntil!);
+    return retryTimes.length > 0 ? Math.min(...retryTimes) : undefined;
+  }
+
+  private emitCircuitStateChange(apiKey: ApiKey, previousState: CircuitState, state: CircuitState): void {
+    if (previousState === state) {
+      return;
+    }
+    const level = state === 'open' ? 'warn' : 'info';
+    console[level](`ApiKeyManager: Key ${apiKey.keyId} 熔断器 ${previousState} → ${state} (健康评分 ${Math.round((apiKey.health?.score ?? 1) * 100)}%)`);
+    this.eventManager.emitKeyCircuitStateChange({ apiKey, previousState, state });
+  }
+
   incrementRequestCount(key: string): void {
     const apiKey = this.keys.get(key);
     if (apiKey) {
       apiKey.currentRequests++;
+      this.eventManager.emitApiKeyStatusUpdate(apiKey);
     }
   }
 
-  // 可选方法，用于更复杂的并发控制
+  /**
+   * 释放 Key 的一个并发名额 (发送状态更新，使等待队列中的请求可以使用该 Key)
+   */
   decrementRequestCount(key: string): void {
     const apiKey = this.keys.get(key);
     if (apiKey && apiKey.currentRequests > 0) {
       apiKey.currentRequests--;
+      this.eventManager.emitApiKeyStatusUpdate(apiKey);
     }
   }
 
@@ -296,25 +582,176 @@ class ApiKeyManager {
     }
   }
 
-  public getAllKeys(): ApiKey[] {
-    return Array.from(this.keys.values());
+  /**
+   * 获取 Key 在某个模型上的配额用量，不存在时创建
+   */
+  private getQuotaUsage(apiKey: ApiKey, modelId: string): QuotaUsage {
+    const bareModelId = QuotaTracker.normalizeQuotaModelId(modelId);
+    if (!apiKey.quotaUsage) {
+      apiKey.quotaUsage = {};
+    }
+    if (!apiKey.quotaUsage[bareModelId]) {
+      apiKey.quotaUsage[bareModelId] = QuotaTracker.createQuotaUsage();
+    }
+    return apiKey.quotaUsage[bareModelId];
+  }
+
+  /**
+   * 可以立即发送请求的 Key；都需要等待令牌时返回等待时间最短的 Key
+   */
+  private getPacedCandidates(availableKeys: ApiKey[], modelId: string): ApiKey[] {
+    const delays = new Map(availableKeys.map(key => [key, this.getPacingDelay(key, modelId)]));
+    const readyKeys = availableKeys.filter(key => delays.get(key) === 0);
+    if (readyKeys.length > 0 || availableKeys.length === 0) {
+      return readyKeys;
+    }
+    const shortestDelay = Math.min(...delays.values());
+    return availableKeys.filter(key => delays.get(key) === shortestDelay);
+  }
+
+  /**
+   * Key 在某个模型上的 RPM 限额 (来自配额档案)，未启用请求匀速或没有 RPM 限额时返回 undefined
+   */
+  private getPacingRpm(apiKey: ApiKey, modelId: string): number | undefined {
+    if (!config.REQUEST_PACING) {
+      return undefined;
+    }
+    return QuotaTracker.getQuotaLimits(apiKey.keyId, modelId).rpm || undefined;
+  }
+
+  /**
+   * 获取 Key 在某个模型上的令牌桶，不存在时创建
+   */
+  private getPacingBucket(apiKey: ApiKey, modelId: string): PacingBucket {
+    const bareModelId = QuotaTracker.normalizeQuotaModelId(modelId);
+    if (!apiKey.pacing) {
+      apiKey.pacing = {};
+    }
+    if (!apiKey.pacing[bareModelId]) {
+      apiKey.pacing[bareModelId] = RequestPacer.createPacingBucket();
+    }
+    return apiKey.pacing[bareModelId];
+  }
+
+  /**
+   * 该 Key 发送下一个请求前需要等待令牌的时间 (ms)，不需要等待时返回 0
+   */
+  getPacingDelay(apiKey: ApiKey, modelId: string): number {
+    const rpm = this.getPacingRpm(apiKey, modelId);
+    return rpm ? RequestPacer.getPacingDelay(this.getPacingBucket(apiKey, modelId), rpm) : 0;
   }
 
-  public async addKeyHistoryEntry(key: string, entry: { date: number; rate: number; serverCurrentTime?: number }): Promise<void> {
+  /**
+   * 为即将发往上游的请求取走一个令牌，返回请求需要等待的时间 (ms)
+   */
+  reservePacingToken(key: string, modelId: string): number {
+    const apiKey = this.keys.get(key);
+    const rpm = apiKey ? this.getPacingRpm(apiKey, modelId) : undefined;
+    return apiKey && rpm ? RequestPacer.reservePacingToken(this.getPacingBucket(apiKey, modelId), rpm) : 0;
+  }
+
+  /**
+   * 因等待令牌过久而被跳过的 Key 中，最早可以再次选用的时间 (用于唤醒等待队列)
+   */
+  getNextPacingTime(modelId: string): number | undefined {
+    const now = Date.now();
+    const pacingTimes = this.getAvailableKeys()
+      .map(key => this.getPacingDelay(key, modelId))
+      .filter(delay => delay > config.PACING_MAX_DELAY_MS)
+      .map(delay => now + delay - config.PACING_MAX_DELAY_MS);
+    return pacingTimes.length > 0 ? Math.min(...pacingTimes) : undefined;
+  }
+
+  /**
+   * 再发一次请求是否仍在 Key 的配额档案限额内
+   */
+  isWithinQuota(apiKey: ApiKey, modelId: string): boolean {
+    return this.getQuotaReleaseTime(apiKey, modelId) === undefined;
+  }
+
+  /**
+   * Key 在某个模型上重新有配额余量的时间，当前未超额时返回 undefined
+   */
+  getQuotaReleaseTime(apiKey: ApiKey, modelId: string): number | undefined {
+    const usage = apiKey.quotaUsage?.[QuotaTracker.normalizeQuotaModelId(modelId)];
+    return usage ? QuotaTracker.getQuotaReleaseTime(usage, QuotaTracker.getQuotaLimits(apiKey.keyId, modelId)) : undefined;
+  }
+
+  /**
+   * 可用 Key 中最早恢复该模型配额余量的时间 (用于唤醒等待队列)
+   */
+  getNextQuotaReleaseTime(modelId: string): number | undefined {
+    const releaseTimes = this.getAvailableKeys()
+      .map(key => this.getQuotaReleaseTime(key, modelId))
+      .filter((time): time is number => time !== undefined);
+    return releaseTimes.length > 0 ? Math.min(...releaseTimes) : undefined;
+  }
+
+  /**
+   * 记录一次发往上游的请求 (计入 RPM 和 RPD)
+   */
+  recordQuotaRequest(key: string, modelId: string): void {
     const apiKey = this.keys.get(key);
     if (apiKey) {
-      if (!apiKey.usedHistory) {
-        apiKey.usedHistory = [];
-      }
-      apiKey.usedHistory.push(entry);
+      QuotaTracker.recordQuotaRequest(this.getQuotaUsage(apiKey, modelId));
+      this.updateUsedHistory(apiKey);
+      this.scheduleQuotaSave(apiKey);
+    }
+  }
 
-      // 移除超過一分鐘的舊記錄
-      const oneMinuteAgo = Date.now() - 60 * 1000; // 60 秒 * 1000 毫秒
-      apiKey.usedHistory = apiKey.usedHistory.filter(historyEntry => historyEntry.date >= oneMinuteAgo);
+  /**
+   * 由配额计数器生成 Key 最近一分钟的使用记录供 UI 显示，rate 为对应模型的 RPM 限额 (未限制时为 0)
+   */
+  private updateUsedHistory(apiKey: ApiKey): void {
+    const oneMinuteAgo = Date.now() - 60 * 1000;
+    apiKey.usedHistory = Object.entries(apiKey.quotaUsage || {})
+      .flatMap(([modelId, usage]) => {
+        const rate = QuotaTracker.getQuotaLimits(apiKey.keyId, modelId).rpm ?? 0;
+        return usage.requests.filter(date => date >= oneMinuteAgo).map(date => ({ date, rate }));
+      })
+      .sort((a, b) => a.date - b.date);
+    this.eventManager.emitApiKeyStatusUpdate(apiKey); // 使用记录更新也视为状态更新
+  }
+
+  /**
+   * 记录请求消耗的 token 数 (计入 TPM)
+   */
+  recordQuotaTokens(key: string, modelId: string, tokens: number): void {
+    const apiKey = this.keys.get(key);
+    if (apiKey) {
+      QuotaTracker.recordQuotaTokens(this.getQuotaUsage(apiKey, modelId), tokens);
+      this.scheduleQuotaSave(apiKey);
+    }
+  }
 
-      this.eventManager.emitApiKeyStatusUpdate(apiKey); // 歷史更新也視為狀態更新
-      await this.saveKeyStatus(apiKey); // 持久化更新後的歷史
+  /**
+   * 每个请求都会更新配额用量，延迟 QUOTA_SAVE_DELAY_MS 后合并为一次持久化，避免每次尝试都写入 SecretStorage。
+   * 写入失败只记录日志，下一次持久化会带上最新的用量
+   */
+  private scheduleQuotaSave(apiKey: ApiKey): void {
+    if (this.quotaSaveTimers.has(apiKey.key)) {
+      return;
     }
+    const timer = setTimeout(() => {
+      this.quotaSaveTimers.delete(apiKey.key);
+      this.saveKeyStatus(apiKey).catch(error => {
+        console.error(`ApiKeyManager: Key ${apiKey.keyId} 配额用量持久化失败:`, error);
+      });
+    }, config.QUOTA_SAVE_DELAY_MS);
+    timer.unref();
+    this.quotaSaveTimers.set(apiKey.key, timer);
+  }
+
+  private cancelQuotaSave(key: string): void {
+    const timer = this.quotaSaveTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.quotaSaveTimers.delete(key);
+    }
+  }
+
+  public getAllKeys(): ApiKey[] {
+    return Array.from(this.keys.values());
   }
 }
 
@@ -0,0 +1,133 @@
+import { createHash, randomBytes } from 'crypto';
+import * as vscode from 'vscode';
+import { CLIENT_TOKEN_STORAGE_KEY, ClientToken, StoredClientTokens } from '../types/ClientToken';
+
+// 令牌前缀，便于在客户端配置中识别
+const CLIENT_TOKEN_PREFIX = 'gka-';
+
+/**
+ * SHA-256 hash under which a token is stored and looked up
+ */
+export function hashClientToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issues, revokes and verifies the local access tokens clients use to call the aggregator endpoint.
+ * Tokens are kept in SecretStorage as hashes; until the first token is issued the endpoint stays open
+ * unless REQUIRE_CLIENT_TOKEN is set
+ */
+export class ClientTokenManager {
+  private tokens: Map<string, ClientToken> = new Map(); // tokenHash → token
+  private context: vscode.ExtensionContext;
+  private changeListeners: Set<() => void> = new Set();
+
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+  }
+
+  /**
+   * Load the stored tokens and reload them when another window changes them
+   */
+  public async initialize(): Promise<void> {
+    await this.loadTokens();
+    this.context.subscriptions.push(this.context.secrets.onDidChange(event => {
+      if (event.key === CLIENT_TOKEN_STORAGE_KEY) {
+        void this.loadTokens();
+      }
+    }));
+  }
+
+  /**
+   * Call the listener whenever tokens are issued, revoked or reloaded
+   */
+  public onDidChangeTokens(listener: () => void): { dispose(): void } {
+    this.changeListeners.add(listener);
+    return { dispose: () => { this.changeListeners.delete(listener); } };
+  }
+
+  /**
+   * Whether any token has been issued (the endpoint requires a token from then on)
+   */
+  public hasTokens(): boolean {
+    return this.tokens.size > 0;
+  }
+
+  /**
+   * Issued tokens, oldest first
+   */
+  public getTokens(): ClientToken[] {
+    return Array.from(this.tokens.values()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Issue a new token. The returned token value is not stored and cannot be shown again
+   */
+  public async createToken(label: string): Promise<{ token: string; clientToken: ClientToken }> {
+    const token = `${CLIENT_TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const clientToken: ClientToken = {
+      id: randomBytes(4).toString('hex'),
+      label,
+      tokenHash: hashClientToken(token),
+      createdAt: Date.now(),
+    };
+    this.tokens.set(clientToken.tokenHash, clientToken);
+    await this.saveTokens();
+    console.log(`ClientTokenManager: 已创建客户端令牌 "${label}" (${clientToken.id})`);
+    return { token, clientToken };
+  }
+
+  /**
+   * Revoke a token by its ID
+   */
+  public async revokeToken(id: string): Promise<boolean> {
+    const clientToken = Array.from(this.tokens.values()).find(candidate => candidate.id === id);
+    if (!clientToken) {
+      return false;
+    }
+    this.tokens.delete(clientToken.tokenHash);
+    await this.saveTokens();
+    console.log(`ClientTokenManager: 已撤销客户端令牌 "${clientToken.label}" (${id})`);
+    return true;
+  }
+
+  /**
+   * Token matching the value a client sent, or undefined for unknown tokens
+   */
+  public verifyToken(token: string): ClientToken | undefined {
+    return this.tokens.get(hashClientToken(token));
+  }
+
+  /**
+   * Load tokens from storage
+   */
+  private async loadTokens(): Promise<void> {
+    try {
+      const storedTokensJson = await this.context.secrets.get(CLIENT_TOKEN_STORAGE_KEY);
+      const storedTokens: StoredClientTokens | undefined = storedTokensJson ? JSON.parse(storedTokensJson) : undefined;
+      this.tokens = new Map((storedTokens?.tokens ?? []).map(token => [token.tokenHash, token]));
+      console.log(`ClientTokenManager: Loaded ${this.tokens.size} client tokens from storage`);
+      this.notifyChange();
+    } catch (error) {
+      console.error('ClientTokenManager: Error loading client tokens from storage', error);
+    }
+  }
+
+  /**
+   * Save tokens to storage
+   */
+  private async saveTokens(): Promise<void> {
+    const storedTokens: StoredClientTokens = {
+      tokens: this.getTokens(),
+      lastUpdated: Date.now(),
+    };
+    await this.context.secrets.store(CLIENT_TOKEN_STORAGE_KEY, JSON.stringify(storedTokens));
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach(listener => listener());
+  }
+}
+
+export default ClientTokenManager;
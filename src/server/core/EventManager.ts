@@ -1,20 +1,52 @@
 // src/server/core/EventManager.ts
 import { EventEmitter } from "events";
-import { ApiKey } from "../types/ApiKey"; // 引入 ApiKey 介面
+import { ApiKey, CircuitState } from "../types/ApiKey"; // 引入 ApiKey 介面
 import { ProxyServer, ProxyAssignment } from "../types/Proxy"; // 引入 Proxy 相關介面
+import { GeminiUsageMetadata } from "../types"; // 引入 Gemini 用量介面
+
+// 定義單次轉發嘗試的記錄 (一個請求可能因重試而使用多個 Key)
+export interface RequestAttempt {
+  attempt: number; // 第幾次嘗試 (從 1 開始)
+  keyId: string; // 本次嘗試使用的 API Key ID
+  modelId?: string; // 本次嘗試使用的模型 (模型回退時與請求的模型不同)
+  pacingDelay?: number; // 發送前等待令牌的時間 (毫秒)，不計入本次嘗試的耗時
+  startTime: number; // 本次嘗試開始時間戳 (等待令牌之後)
+  endTime: number; // 本次嘗試結束時間戳
+  statusCode?: number; // 上游返回的 HTTP 狀態碼 (如果有)
+  errorMessage?: string; // 錯誤訊息 (如果本次嘗試失敗)
+}
 
 // 定義請求狀態類型
 export interface RequestStatus {
   requestId: string; // 唯一請求識別符
   keyId: string; // 使用的 API Key ID
-  modelId: string; // 請求的模型 ID
+  modelId: string; // 請求的模型 ID (經模型路由後為實際使用的模型)
+  requestedModelId?: string; // 客戶端請求的模型名或別名 (與實際使用的模型不同時設置)
   methodName: string; // 請求的方法名 (e.g., 'generateContent')
-  status: "pending" | "success" | "failed" | "cooling_down"; // 請求狀態
+  status: "queued" | "pending" | "retrying" | "success" | "failed" | "cancelled" | "cooling_down"; // 請求狀態 (cancelled 表示客戶端斷開連接)
   startTime: number; // 請求開始時間戳
   endTime?: number; // 請求結束時間戳 (如果已結束)
   errorMessage?: string; // 錯誤訊息 (如果請求失敗)
   coolDownDuration?: number; // 冷卻持續時間 (如果因速率限制而冷卻)
   proxyId?: string; // 使用的代理伺服器 ID
+  attempts?: RequestAttempt[]; // 已結束的轉發嘗試 (包含失敗後重試的記錄)
+  queuePosition?: number; // 進入等待佇列時的位置 (從 1 開始)
+  queueDuration?: number; // 在等待佇列中等待的時間 (毫秒)
+  pacingDelay?: number; // 所有嘗試為請求勻速等待令牌的總時間 (毫秒)
+  sessionId?: string; // 會話親和使用的會話 ID (啟用 SESSION_AFFINITY 時設置)
+  promptTokens?: number; // 回應 usageMetadata 中的 promptTokenCount
+  cachedTokens?: number; // 回應 usageMetadata 中的 cachedContentTokenCount (命中隱式快取的提示 Token 數)
+  timeToFirstToken?: number; // 串流請求：從請求開始到第一個資料塊轉發給客戶端的時間 (毫秒，包含排隊和重試)
+  chunkCount?: number; // 串流請求：轉發的資料塊數
+  streamDuration?: number; // 串流請求：從開始轉發到串流結束的時間 (毫秒)
+  usageMetadata?: GeminiUsageMetadata; // 串流請求：最後一個資料塊中的完整 usageMetadata
+}
+
+// 定義 Key 熔斷器狀態變化事件
+export interface KeyCircuitStateChange {
+  apiKey: ApiKey; // 狀態改變的 Key
+  previousState: CircuitState; // 變化前的熔斷器狀態
+  state: CircuitState; // 變化後的熔斷器狀態
 }
 
 export class EventManager extends EventEmitter { // 導出 EventManager 類別
@@ -26,6 +58,14 @@ export class EventManager extends EventEmitter { // 導出 EventManager 類別
     this.emit("apiKeyStatusUpdate", apiKey);
   }
 
+  /**
+   * 當 API Key 的熔斷器狀態改變時發送事件 (closed / open / half_open)。
+   * @param change 熔斷器狀態變化資訊。
+   */
+  emitKeyCircuitStateChange(change: KeyCircuitStateChange) {
+    this.emit("keyCircuitStateChange", change);
+  }
+
   /**
    * 當請求狀態改變時發送事件 (例如：開始、成功、失敗、冷卻)。
    * @param requestStatus 更新後的 RequestStatus 物件。
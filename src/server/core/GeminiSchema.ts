@@ -0,0 +1,88 @@
+// Gemini 函数声明和 responseSchema 支持的 OpenAPI Schema 字段
+const SUPPORTED_SCHEMA_FIELDS = new Set([
+  'type',
+  'format',
+  'title',
+  'description',
+  'nullable',
+  'enum',
+  'items',
+  'minItems',
+  'maxItems',
+  'properties',
+  'required',
+  'minProperties',
+  'maxProperties',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'minimum',
+  'maximum',
+  'anyOf',
+  'propertyOrdering',
+  'default',
+  'example',
+]);
+
+/**
+ * Convert a JSON Schema (as sent by OpenAI/Anthropic clients) to the OpenAPI subset Gemini accepts.
+ * Unsupported keywords such as $schema or additionalProperties are dropped, and
+ * `type: ["string", "null"]` is rewritten to `type: "string", nullable: true`.
+ */
+export function toGeminiSchema(schema: unknown): Record<string, unknown> | undefined {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return undefined;
+  }
+
+  const source = schema as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(source)) {
+    if (!SUPPORTED_SCHEMA_FIELDS.has(field)) {
+      continue;
+    }
+
+    switch (field) {
+      case 'type':
+        if (Array.isArray(value)) {
+          const types = value.filter(t => t !== 'null');
+          if (types.length > 0) {
+            result.type = types[0];
+          }
+          if (types.length !== value.length) {
+            result.nullable = true;
+          }
+        } else {
+          result.type = value;
+        }
+        break;
+      case 'properties':
+        if (value && typeof value === 'object') {
+          const properties: Record<string, unknown> = {};
+          for (const [name, propertySchema] of Object.entries(value as Record<string, unknown>)) {
+            properties[name] = toGeminiSchema(propertySchema) || {};
+          }
+          result.properties = properties;
+        }
+        break;
+      case 'items':
+        result.items = toGeminiSchema(value) || {};
+        break;
+      case 'anyOf':
+        if (Array.isArray(value)) {
+          result.anyOf = value.map(item => toGeminiSchema(item) || {});
+        }
+        break;
+      case 'enum':
+        // Gemini 只接受字符串枚举
+        if (Array.isArray(value)) {
+          result.enum = value.map(item => String(item));
+        }
+        break;
+      default:
+        result[field] = value;
+    }
+  }
+
+  return result;
+}
@@ -1,7 +1,11 @@
 const { GoogleGenAI } = require('@google/genai');
-import { ApiKey } from '../types';
+import fetch from 'node-fetch';
+import { Readable } from 'stream';
+import { ApiKey, GoogleQuotaViolation, ListModelsResponse } from '../types';
 import { RotatingProxyConfig } from '../types/RotatingProxy';
 import { RotatingProxyHealthMonitor } from './RotatingProxyHealthMonitor';
+import { GoogleErrorDetails, parseGoogleErrorBody, parseRetryAfter } from './GoogleErrorDetails';
+import { awaitFirstChunk, withIdleTimeout } from './StreamHandler';
 import config from '../config';
 
 // 定义一个简单的错误类型，用于传递 Google API 错误信息，特别是包含 Key 信息
@@ -11,6 +15,12 @@ export class GoogleApiError extends Error {
   isRateLimitError: boolean;
   isProxyError: boolean;
   proxyUrl?: string;
+  retryDelayMs?: number; // 上游建议的重试等待时间 (RetryInfo 或 Retry-After)
+  quotaViolations?: GoogleQuotaViolation[]; // QuotaFailure 中报告的配额项
+  isDailyQuotaExceeded: boolean = false; // 是否为每日配额耗尽
+  errorReason?: string; // ErrorInfo 中的错误原因 (如 API_KEY_INVALID)
+  isCancelled: boolean = false; // 客户端断开连接，上游调用已中止
+  isStreamStalled: boolean = false; // 流式响应长时间没有数据块，上游调用已中止
 
   constructor(
     message: string, 
@@ -33,9 +43,38 @@ export class GoogleApiError extends Error {
 import { HttpsProxyAgent } from 'https-proxy-agent';
 import { SocksProxyAgent } from 'socks-proxy-agent';
 
+// Gemini REST API 基础地址
+const GEMINI_API_BASE_URL = 'https://generativelanguage.googleapis.com';
+
+// REST embedContent 请求体 (batchEmbedContents 的 requests 数组元素也是此格式)
+interface EmbedContentRequestBody {
+  model?: string;
+  content?: unknown;
+  taskType?: string;
+  title?: string;
+  outputDimensionality?: number;
+}
+
+// REST countTokens 请求体：直接携带 contents，或包含完整的 generateContentRequest (系统指令、工具等也计入 Token)
+interface CountTokensRequestBody {
+  contents?: unknown;
+  systemInstruction?: unknown;
+  tools?: unknown;
+  config?: { systemInstruction?: unknown; tools?: unknown };
+  generateContentRequest?: Record<string, unknown>;
+}
+
+// 透传模式下的上游响应：成功时 body 为未读取的流，失败时为已读取的完整响应体
+export interface RawForwardResponse {
+  status: number;
+  headers: Record<string, string[]>;
+  body: NodeJS.ReadableStream | Buffer;
+}
+
 class GoogleApiForwarder {
   private maxProxyRetries: number = 1;
   private requestTimeout: number = 30000; // 30 seconds
+  private apiBaseUrl: string = GEMINI_API_BASE_URL;
   private rotatingProxyFailureCount: number = 0;
   private maxRotatingProxyFailures: number = 3;
   private rotatingProxyDisabledUntil?: number;
@@ -48,6 +87,13 @@ class GoogleApiForwarder {
     this.maxProxyRetries = retries;
   }
 
+  /**
+   * Set the Gemini API base URL (e.g. a local server in tests)
+   */
+  public setApiBaseUrl(baseUrl: string): void {
+    this.apiBaseUrl = baseUrl;
+  }
+
   /**
    * Set the rotating proxy health monitor
    */
@@ -169,6 +215,89 @@ class GoogleApiForwarder {
     return proxyErrorPatterns.some(pattern => errorString.includes(pattern.toLowerCase()));
   }
 
+  /**
+   * Record a successful request against the rotating proxy health monitor
+   */
+  private recordRotatingProxySuccess(isRotatingProxy: boolean, requestStartTime: number): void {
+    const responseTime = Date.now() - requestStartTime;
+    if (isRotatingProxy && this.healthMonitor) {
+      this.healthMonitor.recordRequest(true, responseTime);
+      this.resetRotatingProxyFailures();
+    }
+  }
+
+  /**
+   * Map the optional fields of a REST embedContent request to the SDK config
+   */
+  private toEmbedContentConfig(body: EmbedContentRequestBody): Record<string, unknown> {
+    const embedConfig: Record<string, unknown> = {};
+    if (body.taskType) {
+      embedConfig.taskType = body.taskType;
+    }
+    if (body.title) {
+      embedConfig.title = body.title;
+    }
+    if (body.outputDimensionality) {
+      embedConfig.outputDimensionality = body.outputDimensionality;
+    }
+    return embedConfig;
+  }
+
+  /**
+   * List one page of models visible to the given API key via the REST API
+   */
+  async listModels(
+    apiKey: ApiKey,
+    pageToken?: string
+  ): Promise<{ response?: ListModelsResponse, error?: GoogleApiError }> {
+    const { proxyUrl } = this.getProxyForRequest(apiKey);
+    const agent = proxyUrl ? this.createProxyAgent(proxyUrl) : undefined;
+
+    const url = new URL('/v1beta/models', this.apiBaseUrl);
+    url.searchParams.set('pageSize', '1000');
+    if (pageToken) {
+      url.searchParams.set('pageToken', pageToken);
+    }
+
+    try {
+      const response = await fetch(url.toString(), {
+        method: 'GET',
+        headers: { 'x-goog-api-key': apiKey.key },
+        agent,
+        timeout: this.requestTimeout
+      });
+      const body = await response.json() as ListModelsResponse & { error?: { message?: string } };
+
+      if (!response.ok) {
+        const googleApiError = new GoogleApiError(
+          `Google API Error: ${body.error?.message || response.statusText}`,
+          response.status,
+          apiKey.key,
+          response.status === 429,
+          false,
+          proxyUrl
+        );
+        this.applyErrorDetails(googleApiError, parseGoogleErrorBody(body), response.headers.get('retry-after'));
+        return { error: googleApiError };
+      }
+
+      console.info(`GoogleApiForwarder: 获取模型列表 (${body.models?.length || 0} 个) 使用 Key ${apiKey.keyId}`);
+      return { response: body };
+    } catch (error: unknown) {
+      console.error(`GoogleApiForwarder: 获取模型列表时发生错误 (${apiKey.keyId}):`, error);
+      return {
+        error: new GoogleApiError(
+          `Google API Error: ${(error as any).message || 'Unknown error'}`,
+          undefined,
+          apiKey.key,
+          false,
+          this.isProxyError(error),
+          proxyUrl
+        )
+      };
+    }
+  }
+
   /**
    * Forward a request to the Google API with proxy support and error handling
    */
@@ -177,11 +306,21 @@ class GoogleApiForwarder {
     methodName: string, 
     requestBody: { contents?: unknown; config?: unknown } | unknown, 
     apiKey: ApiKey,
+    signal?: AbortSignal,
     retryCount: number = 0
   ): Promise<{ response?: unknown, stream?: AsyncIterable<unknown>, error?: GoogleApiError }> {
+    if (signal?.aborted) {
+      return { error: this.createCancelledError(apiKey) };
+    }
+    if (methodName === 'countTokens') {
+      return this.forwardCountTokens(modelId, requestBody as CountTokensRequestBody, apiKey, signal);
+    }
+
     // Get the proxy to use for this request (rotating or individual)
     const { proxyUrl, isRotatingProxy } = this.getProxyForRequest(apiKey);
     const agent = proxyUrl ? this.createProxyAgent(proxyUrl) : undefined;
+    const upstream = this.createUpstreamController(signal);
+    this.destroyAgentOnAbort(agent, upstream.signal);
     
     // Log proxy usage
     if (proxyUrl) {
@@ -192,7 +331,9 @@ class GoogleApiForwarder {
     }
     
     // Initialize GoogleGenAI with proxy support
-    const httpOptions = agent ? { agent, timeout: this.requestTimeout } : { timeout: this.requestTimeout };
+    const httpOptions = agent
+      ? { agent, timeout: this.requestTimeout, baseUrl: this.apiBaseUrl }
+      : { timeout: this.requestTimeout, baseUrl: this.apiBaseUrl };
     const ai = new GoogleGenAI({
       apiKey: apiKey.key,
       httpOptions: httpOptions
@@ -208,17 +349,11 @@ class GoogleApiForwarder {
         result = await ai.models.generateContent({
           model: modelId,
           contents: (body.contents || requestBody) as any,
-          config: body.config || {}
+          config: { ...(body.config || {}), abortSignal: upstream.signal }
         });
         console.info(`GoogleApiForwarder: 转发非流式请求到模型 ${modelId} 使用 Key ${apiKey.key}`);
         
-        // Record successful request
-        const responseTime = Date.now() - requestStartTime;
-        if (isRotatingProxy && this.healthMonitor) {
-          this.healthMonitor.recordRequest(true, responseTime);
-          this.resetRotatingProxyFailures();
-        }
-        
+        this.recordRotatingProxySuccess(isRotatingProxy, requestStartTime);
         return { response: result };
       } else if (methodName === 'streamGenerateContent') {
         // 处理流式请求 - 使用新的 @google/genai SDK API
@@ -226,18 +361,59 @@ class GoogleApiForwarder {
         result = await ai.models.generateContentStream({
           model: modelId,
           contents: (body.contents || requestBody) as any,
-          config: body.config || {}
+          config: { ...(body.config || {}), abortSignal: upstream.signal }
         });
+        // 收到第一个数据块才算转发成功，之前的错误仍可换用其他代理或 Key 重试
+        const stream = await awaitFirstChunk<unknown>(this.withStallTimeout(result, upstream, apiKey));
         console.info(`GoogleApiForwarder: 转发流式请求到模型 ${modelId} 使用 Key ${apiKey.key}`);
         
-        // Record successful request
-        const responseTime = Date.now() - requestStartTime;
-        if (isRotatingProxy && this.healthMonitor) {
-          this.healthMonitor.recordRequest(true, responseTime);
-          this.resetRotatingProxyFailures();
+        this.recordRotatingProxySuccess(isRotatingProxy, requestStartTime);
+        return { stream };
+      } else if (methodName === 'embedContent') {
+        // REST 格式为单个 content，SDK 统一按 contents 数组处理
+        const body = requestBody as EmbedContentRequestBody;
+        result = await ai.models.embedContent({
+          model: modelId,
+          contents: [body.content] as any,
+          config: { ...this.toEmbedContentConfig(body), abortSignal: upstream.signal }
+        });
+        console.info(`GoogleApiForwarder: 转发 embedContent 请求到模型 ${modelId} 使用 Key ${apiKey.key}`);
+
+        this.recordRotatingProxySuccess(isRotatingProxy, requestStartTime);
+        // 还原为 REST embedContent 的响应格式
+        return { response: { embedding: result.embeddings?.[0] } };
+      } else if (methodName === 'batchEmbedContents') {
+        const body = requestBody as { requests?: EmbedContentRequestBody[] };
+        const requests = body.requests || [];
+        // 与 REST API 一致：每个请求的 model 必须与 URL 中的模型相同
+        const mismatched = requests.find(request => request.model && request.model !== `models/${modelId}` && request.model !== modelId);
+        if (mismatched) {
+          return {
+            error: new GoogleApiError(`Google API Error: Model "${mismatched.model}" of a batch request does not match the model "${modelId}" in the URL.`, 400, apiKey.key)
+          };
         }
-        
-        return { stream: result };
+
+        // SDK 的 embedContent 每次只接受一组共享的 config：按 taskType、title 和 outputDimensionality 分组转发，再按原顺序合并结果
+        const groups = new Map<string, number[]>();
+        requests.forEach((request, index) => {
+          const groupKey = JSON.stringify(this.toEmbedContentConfig(request));
+          groups.set(groupKey, [...(groups.get(groupKey) ?? []), index]);
+        });
+        const embeddings: unknown[] = new Array(requests.length);
+        for (const indexes of groups.values()) {
+          const groupResult = await ai.models.embedContent({
+            model: modelId,
+            contents: indexes.map(index => requests[index].content) as any,
+            config: { ...this.toEmbedContentConfig(requests[indexes[0]]), abortSignal: upstream.signal }
+          });
+          indexes.forEach((requestIndex, position) => {
+            embeddings[requestIndex] = groupResult.embeddings?.[position];
+          });
+        }
+        console.info(`GoogleApiForwarder: 转发 batchEmbedContents 请求 (${requests.length} 条，${groups.size} 组) 到模型 ${modelId} 使用 Key ${apiKey.key}`);
+
+        this.recordRotatingProxySuccess(isRotatingProxy, requestStartTime);
+        return { response: { embeddings } };
       } else {
         // 理论上这部分代码不会被执行，因为 ProxyRoute 已经做了方法名验证
         // 但作为防御性编程，保留此处的错误处理
@@ -252,87 +428,295 @@ class GoogleApiForwarder {
       }
 
     } catch (error: unknown) {
-      console.error(`GoogleApiForwarder: 调用 Google API 时发生错误 (${apiKey.key}):`, JSON.stringify(error));
+      return this.handleForwardFailure(error, apiKey, proxyUrl, isRotatingProxy, requestStartTime, retryCount, signal,
+        fallbackApiKey => this.forwardRequest(modelId, methodName, requestBody, fallbackApiKey, signal, retryCount + 1));
+    }
+  }
+
+  /**
+   * countTokens 通过 REST 转发完整的请求：SDK 的 countTokens 在 Gemini API 上不支持 systemInstruction 和 tools，
+   * 只转发 contents 会少算这些部分的 Token
+   */
+  private async forwardCountTokens(
+    modelId: string,
+    body: CountTokensRequestBody,
+    apiKey: ApiKey,
+    signal?: AbortSignal
+  ): Promise<{ response?: unknown, error?: GoogleApiError }> {
+    const { raw, error } = await this.forwardRawRequest(modelId, 'countTokens', JSON.stringify(this.toCountTokensRequest(modelId, body)), apiKey, '', signal);
+    if (error || !raw) {
+      return { error };
+    }
 
-      // 尝试识别速率限制错误 (HTTP 429) 或其他 Google API 错误
-      const statusCode = (error as any).response?.status || (error as any).statusCode;
-      const isRateLimit = statusCode === 429; // Google API 返回 429 表示速率限制
-      const isProxyError = this.isProxyError(error);
+    const chunks: Buffer[] = [];
+    if (Buffer.isBuffer(raw.body)) {
+      chunks.push(raw.body);
+    } else {
+      for await (const chunk of raw.body as AsyncIterable<Buffer>) {
+        chunks.push(chunk);
+      }
+    }
+    try {
+      return { response: JSON.parse(Buffer.concat(chunks).toString('utf8')) };
+    } catch {
+      return { error: new GoogleApiError('Google API Error: Invalid countTokens response.', 502, apiKey.key) };
+    }
+  }
+
+  /**
+   * 转换为 REST countTokens 请求体：带系统指令或工具时 (REST 或 SDK 格式) 包装为 generateContentRequest
+   */
+  private toCountTokensRequest(modelId: string, body: CountTokensRequestBody): CountTokensRequestBody {
+    if (body.generateContentRequest) {
+      return { generateContentRequest: { ...body.generateContentRequest, model: `models/${modelId}` } };
+    }
+    const systemInstruction = body.systemInstruction ?? body.config?.systemInstruction;
+    const tools = body.tools ?? body.config?.tools;
+    if (systemInstruction === undefined && tools === undefined) {
+      return { contents: body.contents };
+    }
+    return { generateContentRequest: { model: `models/${modelId}`, contents: body.contents, systemInstruction, tools } };
+  }
+
+  /**
+   * Forward the client's exact REST body to the upstream endpoint and hand back the raw response,
+   * so status, headers and body can be relayed byte-for-byte
+   */
+  async forwardRawRequest(
+    modelId: string,
+    methodName: string,
+    requestBody: Buffer | string,
+    apiKey: ApiKey,
+    queryString: string = '',
+    signal?: AbortSignal,
+    retryCount: number = 0
+  ): Promise<{ raw?: RawForwardResponse, error?: GoogleApiError }> {
+    if (signal?.aborted) {
+      return { error: this.createCancelledError(apiKey) };
+    }
+
+    const { proxyUrl, isRotatingProxy } = this.getProxyForRequest(apiKey);
+    const agent = proxyUrl ? this.createProxyAgent(proxyUrl) : undefined;
+    const upstream = this.createUpstreamController(signal);
+    this.destroyAgentOnAbort(agent, upstream.signal);
+
+    // 客户端自带的 key 参数不能转发，由选中的 Key 通过请求头认证
+    const url = new URL(`/v1beta/models/${modelId}:${methodName}`, this.apiBaseUrl);
+    url.search = queryString;
+    url.searchParams.delete('key');
+
+    const requestStartTime = Date.now();
+
+    try {
+      const response = await fetch(url.toString(), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': apiKey.key,
+        },
+        body: requestBody,
+        agent,
+        timeout: this.requestTimeout,
+        signal: upstream.signal,
+        // 不自动解压，保证响应体按原样转发
+        compress: false,
+      });
+      const raw: RawForwardResponse = {
+        status: response.status,
+        headers: response.headers.raw(),
+        body: response.body,
+      };
+
+      if (!response.ok) {
+        raw.body = await response.buffer();
+        // 非 JSON 错误体时使用状态文本
+        const details = parseGoogleErrorBody(raw.body.toString('utf8'));
+        const message = details.message || response.statusText;
+        console.error(`GoogleApiForwarder: 透传请求返回 ${response.status} (${apiKey.keyId}): ${message}`);
+        const googleApiError = new GoogleApiError(
+          `Google API Error: ${message}`,
+          response.status,
+          apiKey.key,
+          response.status === 429,
+          false,
+          proxyUrl
+        );
+        this.applyErrorDetails(googleApiError, details, response.headers.get('retry-after'));
+        return { raw, error: googleApiError };
+      }
+
+      if (methodName === 'streamGenerateContent') {
+        // 流式响应同样等到第一个数据块才算转发成功
+        raw.body = Readable.from(await awaitFirstChunk(this.withStallTimeout(response.body as AsyncIterable<Buffer>, upstream, apiKey)));
+      }
+
+      console.info(`GoogleApiForwarder: 透传 ${methodName} 请求到模型 ${modelId} 使用 Key ${apiKey.keyId}`);
+      this.recordRotatingProxySuccess(isRotatingProxy, requestStartTime);
+      return { raw };
+    } catch (error: unknown) {
+      return this.handleForwardFailure(error, apiKey, proxyUrl, isRotatingProxy, requestStartTime, retryCount, signal,
+        fallbackApiKey => this.forwardRawRequest(modelId, methodName, requestBody, fallbackApiKey, queryString, signal, retryCount + 1));
+    }
+  }
+
+  /**
+   * Handle a failed upstream call: fall back to another proxy route on proxy errors,
+   * track rotating proxy health and build the GoogleApiError returned to the dispatcher
+   */
+  private async handleForwardFailure<T>(
+    error: unknown,
+    apiKey: ApiKey,
+    proxyUrl: string | undefined,
+    isRotatingProxy: boolean,
+    requestStartTime: number,
+    retryCount: number,
+    signal: AbortSignal | undefined,
+    retry: (fallbackApiKey: ApiKey) => Promise<T>
+  ): Promise<T | { error: GoogleApiError }> {
+    // 客户端断开导致的中止不是代理或上游故障，不回退代理也不计入代理健康统计
+    if (signal?.aborted) {
+      console.warn(`GoogleApiForwarder: 客户端已断开，已中止上游请求 (${apiKey.keyId})。`);
+      return { error: this.createCancelledError(apiKey) };
+    }
+    // 停滞的流在第一个数据块之前就被中止，同样不是代理故障
+    if (error instanceof GoogleApiError && error.isStreamStalled) {
+      return { error };
+    }
+
+    console.error(`GoogleApiForwarder: 调用 Google API 时发生错误 (${apiKey.key}):`, JSON.stringify(error));
+
+    // 尝试识别速率限制错误 (HTTP 429) 或其他 Google API 错误 (@google/genai 的 ApiError 使用 status 字段)
+    const statusCode = (error as any).response?.status || (error as any).statusCode || (error as any).status;
+    const isRateLimit = statusCode === 429; // Google API 返回 429 表示速率限制
+    const isProxyError = this.isProxyError(error);
+    
+    // Handle proxy errors with appropriate fallback logic
+    if (isProxyError && proxyUrl && retryCount < this.maxProxyRetries) {
+      console.warn(`GoogleApiForwarder: Proxy error detected for key ${apiKey.keyId}`);
       
-      // Handle proxy errors with appropriate fallback logic
-      if (isProxyError && proxyUrl && retryCount < this.maxProxyRetries) {
-        console.warn(`GoogleApiForwarder: Proxy error detected for key ${apiKey.keyId}`);
+      if (isRotatingProxy) {
+        // Handle rotating proxy failure
+        const responseTime = Date.now() - requestStartTime;
+        await this.handleRotatingProxyFailure(error, responseTime);
         
-        if (isRotatingProxy) {
-          // Handle rotating proxy failure
-          const responseTime = Date.now() - requestStartTime;
-          await this.handleRotatingProxyFailure(error, responseTime);
-          
-          // Try to fallback to individual proxy if available
-          if (apiKey.proxy && apiKey.proxy !== proxyUrl) {
-            console.log(`GoogleApiForwarder: Falling back to individual proxy for key ${apiKey.keyId}`);
-            const apiKeyWithIndividualProxy: ApiKey = {
-              ...apiKey,
-              useRotatingProxy: false
-            };
-            return this.forwardRequest(modelId, methodName, requestBody, apiKeyWithIndividualProxy, retryCount + 1);
-          } else {
-            // Try without any proxy as last resort
-            console.log(`GoogleApiForwarder: Falling back to direct connection for key ${apiKey.keyId}`);
-            const apiKeyWithoutProxy: ApiKey = {
-              ...apiKey,
-              proxy: undefined,
-              useRotatingProxy: false
-            };
-            return this.forwardRequest(modelId, methodName, requestBody, apiKeyWithoutProxy, retryCount + 1);
-          }
+        // Try to fallback to individual proxy if available
+        if (apiKey.proxy && apiKey.proxy !== proxyUrl) {
+          console.log(`GoogleApiForwarder: Falling back to individual proxy for key ${apiKey.keyId}`);
+          const apiKeyWithIndividualProxy: ApiKey = {
+            ...apiKey,
+            useRotatingProxy: false
+          };
+          return retry(apiKeyWithIndividualProxy);
         } else {
-          // For individual proxy, create a copy of the API key without the proxy
+          // Try without any proxy as last resort
+          console.log(`GoogleApiForwarder: Falling back to direct connection for key ${apiKey.keyId}`);
           const apiKeyWithoutProxy: ApiKey = {
             ...apiKey,
-            proxy: undefined
+            proxy: undefined,
+            useRotatingProxy: false
           };
-          
-          // Retry the request without proxy
-          return this.forwardRequest(modelId, methodName, requestBody, apiKeyWithoutProxy, retryCount + 1);
+          return retry(apiKeyWithoutProxy);
         }
+      } else {
+        // For individual proxy, create a copy of the API key without the proxy
+        const apiKeyWithoutProxy: ApiKey = {
+          ...apiKey,
+          proxy: undefined
+        };
+        
+        // Retry the request without proxy
+        return retry(apiKeyWithoutProxy);
       }
+    }
 
-      // Record failed request and handle rotating proxy failure tracking
-      const responseTime = Date.now() - requestStartTime;
-      if (isRotatingProxy) {
-        if (isProxyError) {
-          await this.handleRotatingProxyFailure(error, responseTime);
-        } else if (this.healthMonitor) {
-          // Record non-proxy errors
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          await this.healthMonitor.recordRequest(false, responseTime, errorMessage);
-        }
+    // Record failed request and handle rotating proxy failure tracking
+    const responseTime = Date.now() - requestStartTime;
+    if (isRotatingProxy) {
+      if (isProxyError) {
+        await this.handleRotatingProxyFailure(error, responseTime);
+      } else if (this.healthMonitor) {
+        // Record non-proxy errors
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        await this.healthMonitor.recordRequest(false, responseTime, errorMessage);
       }
+    }
 
-      // Create enhanced error message for rotating proxy
-      let errorMessage = `Google API Error: ${(error as any).message || 'Unknown error'}`;
-      if (isRotatingProxy && isProxyError) {
-        errorMessage = `Rotating Proxy Error: ${errorMessage}. Failure count: ${this.rotatingProxyFailureCount}/${this.maxRotatingProxyFailures}`;
-        if (this.rotatingProxyDisabledUntil) {
-          errorMessage += `. Rotating proxy temporarily disabled until ${new Date(this.rotatingProxyDisabledUntil).toISOString()}`;
-        }
+    // Create enhanced error message for rotating proxy
+    let errorMessage = `Google API Error: ${(error as any).message || 'Unknown error'}`;
+    if (isRotatingProxy && isProxyError) {
+      errorMessage = `Rotating Proxy Error: ${errorMessage}. Failure count: ${this.rotatingProxyFailureCount}/${this.maxRotatingProxyFailures}`;
+      if (this.rotatingProxyDisabledUntil) {
+        errorMessage += `. Rotating proxy temporarily disabled until ${new Date(this.rotatingProxyDisabledUntil).toISOString()}`;
       }
+    }
+
+    // 创建自定义错误对象，包含 Key 信息和是否为速率限制错误
+    const googleApiError = new GoogleApiError(
+      errorMessage,
+      statusCode,
+      apiKey.key,
+      isRateLimit,
+      isProxyError,
+      proxyUrl
+    );
+    // ApiError 的 message 中包含完整的错误响应体 (含 RetryInfo 和 QuotaFailure 详情)
+    this.applyErrorDetails(googleApiError, parseGoogleErrorBody((error as any).message));
 
-      // 创建自定义错误对象，包含 Key 信息和是否为速率限制错误
-      const googleApiError = new GoogleApiError(
-        errorMessage,
-        statusCode,
-        apiKey.key,
-        isRateLimit,
-        isProxyError,
-        proxyUrl
-      );
-
-      return { error: googleApiError };
+    return { error: googleApiError };
+  }
+
+  /**
+   * Error returned when the client disconnected and the upstream call was aborted
+   */
+  private createCancelledError(apiKey: ApiKey): GoogleApiError {
+    const cancelledError = new GoogleApiError('Request cancelled: client disconnected.', undefined, apiKey.key);
+    cancelledError.isCancelled = true;
+    return cancelledError;
+  }
+
+  /**
+   * Controller for the upstream call: aborted when the client disconnects or the stream stalls
+   */
+  private createUpstreamController(signal?: AbortSignal): AbortController {
+    const upstream = new AbortController();
+    signal?.addEventListener('abort', () => upstream.abort(), { once: true });
+    return upstream;
+  }
+
+  /**
+   * Abort the upstream call and fail the stream when Gemini sends no chunk for STREAM_IDLE_TIMEOUT_MS
+   */
+  private withStallTimeout<T>(stream: AsyncIterable<T>, upstream: AbortController, apiKey: ApiKey): AsyncIterable<T> {
+    const timeoutMs = config.STREAM_IDLE_TIMEOUT_MS;
+    return withIdleTimeout(stream, timeoutMs, () => {
+      console.warn(`GoogleApiForwarder: 流式响应 ${Math.round(timeoutMs / 1000)} 秒没有数据，中止上游请求 (${apiKey.keyId})。`);
+      upstream.abort();
+      const stalledError = new GoogleApiError(`Stream stalled: no data from Google API for ${Math.round(timeoutMs / 1000)}s.`, 504, apiKey.key);
+      stalledError.isStreamStalled = true;
+      return stalledError;
+    });
+  }
+
+  /**
+   * Close the per-request proxy agent's sockets when the client disconnects
+   */
+  private destroyAgentOnAbort(agent: { destroy(): void } | undefined, signal?: AbortSignal): void {
+    if (agent && signal) {
+      signal.addEventListener('abort', () => agent.destroy(), { once: true });
     }
   }
+
+  /**
+   * Copy the retry delay and quota violations of an error response onto the GoogleApiError.
+   * RetryInfo in the body takes precedence over the Retry-After header.
+   */
+  private applyErrorDetails(googleApiError: GoogleApiError, details: GoogleErrorDetails, retryAfter?: string | null): void {
+    googleApiError.retryDelayMs = details.retryDelayMs ?? parseRetryAfter(retryAfter);
+    googleApiError.quotaViolations = details.quotaViolations;
+    googleApiError.isDailyQuotaExceeded = details.isDailyQuotaExceeded;
+    googleApiError.errorReason = details.errorReason;
+  }
 }
 
 export { GoogleApiForwarder };
-export default GoogleApiForwarder;
\ No newline at end of file
+export default GoogleApiForwarder;
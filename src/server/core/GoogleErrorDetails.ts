@@ -0,0 +1,106 @@
+import { GoogleQuotaViolation } from '../types';
+
+// google.rpc 错误详情的 @type
+const RETRY_INFO_TYPE = 'type.googleapis.com/google.rpc.RetryInfo';
+const QUOTA_FAILURE_TYPE = 'type.googleapis.com/google.rpc.QuotaFailure';
+const ERROR_INFO_TYPE = 'type.googleapis.com/google.rpc.ErrorInfo';
+
+// Gemini API 的每日配额在太平洋时间午夜重置
+const DAILY_QUOTA_RESET_TIME_ZONE = 'America/Los_Angeles';
+
+/**
+ * Retry hints extracted from a Google API error body
+ */
+export interface GoogleErrorDetails {
+  message?: string;
+  retryDelayMs?: number;                // google.rpc.RetryInfo retryDelay
+  quotaViolations: GoogleQuotaViolation[];
+  isDailyQuotaExceeded: boolean;        // A per-day quota ran out
+  errorReason?: string;                 // google.rpc.ErrorInfo reason, e.g. API_KEY_INVALID
+}
+
+/**
+ * Parse a protobuf Duration in its JSON form ("37s", "0.5s") to milliseconds
+ */
+function parseDuration(duration: unknown): number | undefined {
+  if (typeof duration !== 'string') {
+    return undefined;
+  }
+  const match = /^(\d+(?:\.\d+)?)s$/.exec(duration.trim());
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Parse a Google API error body such as `{"error":{"code":429,"message":...,"details":[...]}}`.
+ * Accepts the parsed object or a string; SDK errors embed the JSON body in their message,
+ * so a string is parsed from its first "{".
+ */
+export function parseGoogleErrorBody(body: unknown): GoogleErrorDetails {
+  const details: GoogleErrorDetails = { quotaViolations: [], isDailyQuotaExceeded: false };
+
+  let parsed = body;
+  if (typeof body === 'string') {
+    const jsonStart = body.indexOf('{');
+    if (jsonStart < 0) {
+      return details;
+    }
+    try {
+      parsed = JSON.parse(body.substring(jsonStart));
+    } catch {
+      return details;
+    }
+  }
+
+  const error = (parsed as { error?: { message?: string; details?: unknown[] } } | undefined)?.error;
+  if (!error || typeof error !== 'object') {
+    return details;
+  }
+  details.message = error.message;
+
+  for (const detail of Array.isArray(error.details) ? error.details : []) {
+    const typed = detail as { '@type'?: string; retryDelay?: unknown; violations?: GoogleQuotaViolation[]; reason?: unknown };
+    if (typed['@type'] === RETRY_INFO_TYPE) {
+      details.retryDelayMs = parseDuration(typed.retryDelay);
+    } else if (typed['@type'] === QUOTA_FAILURE_TYPE && Array.isArray(typed.violations)) {
+      details.quotaViolations.push(...typed.violations);
+    } else if (typed['@type'] === ERROR_INFO_TYPE && typeof typed.reason === 'string') {
+      details.errorReason = typed.reason;
+    }
+  }
+  details.isDailyQuotaExceeded = details.quotaViolations.some(violation => /PerDay/i.test(violation.quotaId || ''));
+
+  return details;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) to milliseconds from now
+ */
+export function parseRetryAfter(header: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Timestamp (ms) of the next daily quota reset, i.e. the next midnight Pacific time
+ */
+export function getNextDailyQuotaReset(now: number = Date.now()): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: DAILY_QUOTA_RESET_TIME_ZONE,
+    hourCycle: 'h23',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(now));
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+
+  // 夏令时切换当天会有一小时误差，对配额重置来说可以接受
+  const msSinceMidnight = ((part('hour') * 60 + part('minute')) * 60 + part('second')) * 1000 + now % 1000;
+  return now - msSinceMidnight + 24 * 60 * 60 * 1000;
+}
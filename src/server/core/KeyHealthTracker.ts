@@ -0,0 +1,100 @@
+import { CircuitState, KeyHealth } from '../types/ApiKey';
+import config from '../config';
+
+// 平均延迟超过该值后健康评分按比例下降
+const SLOW_LATENCY_MS = 10 * 1000;
+
+/**
+ * Create the health record of a key that has no samples yet
+ */
+export function createKeyHealth(): KeyHealth {
+  return { score: 1, errorRate: 0, consecutiveFailures: 0, samples: [], circuitState: 'closed' };
+}
+
+/**
+ * Health score in [0, 1]: success rate, scaled down for slow responses and for failures in a row
+ */
+export function computeHealthScore(health: KeyHealth): number {
+  const latencyFactor = health.avgLatencyMs && health.avgLatencyMs > SLOW_LATENCY_MS ? SLOW_LATENCY_MS / health.avgLatencyMs : 1;
+  const failurePenalty = Math.min(1, health.consecutiveFailures / Math.max(1, config.CIRCUIT_BREAKER_FAILURE_THRESHOLD));
+  return Math.max(0, Math.min(1, (1 - health.errorRate) * latencyFactor * (1 - failurePenalty / 2)));
+}
+
+/**
+ * Record the outcome of an attempt, refresh the rolling statistics and move the circuit breaker.
+ * Returns the circuit state after the outcome.
+ */
+export function recordKeyOutcome(health: KeyHealth, success: boolean, latencyMs: number, now: number = Date.now()): CircuitState {
+  health.samples = health.samples.filter(sample => sample.time > now - config.KEY_HEALTH_WINDOW_MS);
+  health.samples.push({ time: now, success, latencyMs });
+  health.consecutiveFailures = success ? 0 : health.consecutiveFailures + 1;
+
+  const failures = health.samples.filter(sample => !sample.success).length;
+  const successes = health.samples.filter(sample => sample.success);
+  health.errorRate = failures / health.samples.length;
+  health.avgLatencyMs = successes.length > 0
+    ? Math.round(successes.reduce((sum, sample) => sum + sample.latencyMs, 0) / successes.length)
+    : undefined;
+  health.score = computeHealthScore(health);
+
+  if (health.circuitState === 'half_open') {
+    // 试探请求的结果决定熔断器闭合还是重新断开
+    health.trialInFlight = false;
+    if (success) {
+      closeCircuit(health);
+    } else {
+      openCircuit(health, now);
+    }
+  } else if (health.circuitState === 'closed' && !success && shouldOpenCircuit(health)) {
+    openCircuit(health, now);
+  }
+  return health.circuitState;
+}
+
+/**
+ * Whether a request may be sent with the key now. An open circuit whose wait is over admits one trial request.
+ */
+export function isCircuitAllowing(health: KeyHealth | undefined, now: number = Date.now()): boolean {
+  if (!health || health.circuitState === 'closed') {
+    return true;
+  }
+  if (health.circuitState === 'half_open') {
+    return !health.trialInFlight;
+  }
+  return health.circuitOpenUntil !== undefined && health.circuitOpenUntil <= now;
+}
+
+/**
+ * Mark the key as selected: an open circuit past its wait moves to half-open and the request becomes its trial.
+ * Returns the circuit state after selection.
+ */
+export function beginCircuitAttempt(health: KeyHealth, now: number = Date.now()): CircuitState {
+  if (health.circuitState === 'open' && health.circuitOpenUntil !== undefined && health.circuitOpenUntil <= now) {
+    health.circuitState = 'half_open';
+  }
+  if (health.circuitState === 'half_open') {
+    health.trialInFlight = true;
+  }
+  return health.circuitState;
+}
+
+function shouldOpenCircuit(health: KeyHealth): boolean {
+  if (health.consecutiveFailures >= config.CIRCUIT_BREAKER_FAILURE_THRESHOLD) {
+    return true;
+  }
+  return health.samples.length >= config.CIRCUIT_BREAKER_MIN_REQUESTS && health.errorRate >= config.CIRCUIT_BREAKER_ERROR_RATE;
+}
+
+function openCircuit(health: KeyHealth, now: number): void {
+  health.circuitState = 'open';
+  health.circuitOpenUntil = now + config.CIRCUIT_BREAKER_OPEN_DURATION_MS;
+}
+
+function closeCircuit(health: KeyHealth): void {
+  // 闭合后重新开始统计，避免断开前的失败立即再次触发熔断
+  health.circuitState = 'closed';
+  health.circuitOpenUntil = undefined;
+  health.samples = health.samples.slice(-1);
+  health.errorRate = 0;
+  health.score = computeHealthScore(health);
+}
@@ -0,0 +1,70 @@
+import ApiKeyManager from './ApiKeyManager';
+import GoogleApiForwarder from './GoogleApiForwarder';
+
+// 检查是否有到期待验证 Key 的间隔
+const REVALIDATION_CHECK_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Periodically re-probes disabled keys and restores the ones that authenticate again
+ */
+export class KeyRevalidator {
+  private apiKeyManager: ApiKeyManager;
+  private googleApiForwarder: GoogleApiForwarder;
+  private checkInterval?: NodeJS.Timeout;
+  private isChecking: boolean = false;
+
+  constructor(apiKeyManager: ApiKeyManager, googleApiForwarder: GoogleApiForwarder) {
+    this.apiKeyManager = apiKeyManager;
+    this.googleApiForwarder = googleApiForwarder;
+  }
+
+  /**
+   * Start the background revalidation job
+   */
+  public start(): void {
+    if (this.checkInterval) {
+      return;
+    }
+    console.log('KeyRevalidator: Starting disabled key revalidation');
+    this.checkInterval = setInterval(() => {
+      void this.revalidateDueKeys();
+    }, REVALIDATION_CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the background revalidation job
+   */
+  public stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = undefined;
+    }
+  }
+
+  /**
+   * Probe every disabled key whose revalidation time has come.
+   * Listing models is free of generation quota, so it is used as the probe.
+   */
+  public async revalidateDueKeys(now: number = Date.now()): Promise<void> {
+    if (this.isChecking) {
+      return;
+    }
+    this.isChecking = true;
+    try {
+      for (const apiKey of this.apiKeyManager.getKeysDueForRevalidation(now)) {
+        const { error } = await this.googleApiForwarder.listModels(apiKey);
+        if (!error) {
+          console.info(`KeyRevalidator: Key ${apiKey.keyId} 重新验证成功，恢复可用。`);
+          await this.apiKeyManager.markAsAvailable(apiKey.key);
+        } else {
+          console.warn(`KeyRevalidator: Key ${apiKey.keyId} 重新验证失败 (${error.statusCode ?? 'no status'}): ${error.message}`);
+          await this.apiKeyManager.scheduleRevalidation(apiKey.key);
+        }
+      }
+    } finally {
+      this.isChecking = false;
+    }
+  }
+}
+
+export default KeyRevalidator;
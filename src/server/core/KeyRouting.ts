@@ -0,0 +1,56 @@
+import { IncomingHttpHeaders } from 'http';
+import { KeyRoutingRule, RequestClientInfo } from '../types/KeyRouting';
+import { KeySelectionContext } from '../types/ApiKey';
+import { normalizeQuotaModelId } from './QuotaTracker';
+import config from '../config';
+
+// 未在 KEY_GROUPS 中指定分组的 Key 所属的分组
+export const DEFAULT_KEY_GROUP = 'default';
+
+// 客户端标识所在的请求头
+export const CLIENT_ID_HEADER = 'x-client-id';
+
+/**
+ * Group (tier) of a key from config.KEY_GROUPS
+ */
+export function getKeyGroup(keyId: string): string {
+  return config.KEY_GROUPS[keyId] || DEFAULT_KEY_GROUP;
+}
+
+/**
+ * Client identity and headers of an incoming request
+ */
+export function getRequestClientInfo(req: { headers: IncomingHttpHeaders }): RequestClientInfo {
+  const clientId = req.headers[CLIENT_ID_HEADER];
+  return {
+    clientId: Array.isArray(clientId) ? clientId[0] : clientId,
+    headers: req.headers,
+  };
+}
+
+/**
+ * Whether every condition set on the rule matches the request
+ */
+export function matchesRoutingRule(rule: KeyRoutingRule, context: KeySelectionContext): boolean {
+  if (rule.model && !(context.modelId && normalizeQuotaModelId(context.modelId).startsWith(rule.model))) {
+    return false;
+  }
+  if (rule.client && rule.client !== context.clientId) {
+    return false;
+  }
+  if (rule.header) {
+    const value = context.headers?.[rule.header.toLowerCase()];
+    const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+    if (values.length === 0 || (rule.headerValue !== undefined && !values.includes(rule.headerValue))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Key groups allowed by the first matching rule in config.KEY_ROUTING_RULES, or undefined when no rule matches
+ */
+export function getAllowedKeyGroups(context: KeySelectionContext): string[] | undefined {
+  return config.KEY_ROUTING_RULES.find(rule => matchesRoutingRule(rule, context))?.groups;
+}
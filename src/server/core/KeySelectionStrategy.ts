@@ -0,0 +1,134 @@
+import { ApiKey, KeySelectionContext, KeySelectionStrategy } from '../types/ApiKey';
+import { getQuotaHeadroom, getQuotaLimits, normalizeQuotaModelId } from './QuotaTracker';
+import config from '../config';
+
+/**
+ * Round-robin key selection strategy
+ */
+export class RoundRobinKeyStrategy implements KeySelectionStrategy {
+  private index: number = 0;
+
+  selectKey(availableKeys: ApiKey[]): ApiKey | null {
+    if (availableKeys.length === 0) {
+      return null;
+    }
+
+    const selected = availableKeys[this.index % availableKeys.length];
+    this.index = (this.index + 1) % availableKeys.length;
+    return selected;
+  }
+}
+
+/**
+ * Least-recently-used key selection strategy (keys never used come first)
+ */
+export class LeastRecentlyUsedKeyStrategy implements KeySelectionStrategy {
+  selectKey(availableKeys: ApiKey[]): ApiKey | null {
+    if (availableKeys.length === 0) {
+      return null;
+    }
+
+    return availableKeys.reduce((best, key) => (key.lastUsed ?? 0) < (best.lastUsed ?? 0) ? key : best);
+  }
+}
+
+/**
+ * Least-in-flight key selection strategy: prefers the key handling the fewest concurrent requests
+ */
+export class LeastInFlightKeyStrategy implements KeySelectionStrategy {
+  private lru = new LeastRecentlyUsedKeyStrategy();
+
+  selectKey(availableKeys: ApiKey[]): ApiKey | null {
+    if (availableKeys.length === 0) {
+      return null;
+    }
+
+    // 并发数相同时取最久未使用的 Key，避免总是选中列表中的第一个
+    const minInFlight = Math.min(...availableKeys.map(key => key.currentRequests));
+    return this.lru.selectKey(availableKeys.filter(key => key.currentRequests === minInFlight));
+  }
+}
+
+/**
+ * Smooth weighted round-robin key selection strategy.
+ * Weights come from config.KEY_WEIGHTS (keyId → weight, default 1) and are read on every selection.
+ */
+export class WeightedKeyStrategy implements KeySelectionStrategy {
+  private currentWeights = new Map<string, number>();
+
+  selectKey(availableKeys: ApiKey[]): ApiKey | null {
+    if (availableKeys.length === 0) {
+      return null;
+    }
+
+    let totalWeight = 0;
+    let selected: ApiKey | null = null;
+    for (const key of availableKeys) {
+      const weight = Math.max(0, config.KEY_WEIGHTS[key.keyId] ?? 1);
+      const current = (this.currentWeights.get(key.keyId) ?? 0) + weight;
+      this.currentWeights.set(key.keyId, current);
+      totalWeight += weight;
+      if (!selected || current > this.currentWeights.get(selected.keyId)!) {
+        selected = key;
+      }
+    }
+
+    this.currentWeights.set(selected!.keyId, this.currentWeights.get(selected!.keyId)! - totalWeight);
+    return selected;
+  }
+}
+
+/**
+ * Remaining-quota-aware key selection strategy: prefers the key with the most headroom left
+ * under its quota profile for the requested model, then the one that sent the fewest requests this minute
+ */
+export class QuotaAwareKeyStrategy implements KeySelectionStrategy {
+  private lru = new LeastRecentlyUsedKeyStrategy();
+
+  selectKey(availableKeys: ApiKey[], context: KeySelectionContext): ApiKey | null {
+    if (availableKeys.length === 0) {
+      return null;
+    }
+
+    // 未配置限额时所有 Key 的余量都是 1，此时按本分钟请求数选择
+    const headrooms = availableKeys.map(key => this.getHeadroom(key, context.modelId));
+    const maxHeadroom = Math.max(...headrooms);
+    const candidates = availableKeys.filter((_key, index) => headrooms[index] === maxHeadroom);
+
+    const minuteRequests = candidates.map(key => this.getMinuteRequests(key, context.modelId));
+    const minRequests = Math.min(...minuteRequests);
+    return this.lru.selectKey(candidates.filter((_key, index) => minuteRequests[index] === minRequests));
+  }
+
+  private getHeadroom(key: ApiKey, modelId?: string): number {
+    const usage = modelId ? key.quotaUsage?.[normalizeQuotaModelId(modelId)] : undefined;
+    return usage && modelId ? getQuotaHeadroom(usage, getQuotaLimits(key.keyId, modelId)) : 1;
+  }
+
+  private getMinuteRequests(key: ApiKey, modelId?: string): number {
+    const usages = modelId ? [key.quotaUsage?.[normalizeQuotaModelId(modelId)]] : Object.values(key.quotaUsage || {});
+    const windowStart = Date.now() - 60 * 1000;
+    return usages.reduce((sum, usage) => sum + (usage?.requests.filter(time => time > windowStart).length ?? 0), 0);
+  }
+}
+
+/**
+ * Create a key selection strategy; unknown names fall back to round-robin
+ */
+export function createKeySelectionStrategy(type: string): KeySelectionStrategy {
+  switch (type) {
+    case 'least_recently_used':
+      return new LeastRecentlyUsedKeyStrategy();
+    case 'least_in_flight':
+      return new LeastInFlightKeyStrategy();
+    case 'weighted':
+      return new WeightedKeyStrategy();
+    case 'quota_aware':
+      return new QuotaAwareKeyStrategy();
+    case 'round_robin':
+      return new RoundRobinKeyStrategy();
+    default:
+      console.warn(`KeySelectionStrategy: 未知的分发策略 "${type}"，使用 round_robin。`);
+      return new RoundRobinKeyStrategy();
+  }
+}
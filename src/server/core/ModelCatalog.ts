@@ -0,0 +1,127 @@
+import ApiKeyManager from './ApiKeyManager';
+import GoogleApiForwarder, { GoogleApiError } from './GoogleApiForwarder';
+import { ApiKey, GeminiModel } from '../types';
+import config from '../config';
+
+/**
+ * Cached catalog of the Gemini models the key pool can serve, listed with one key at a time
+ */
+export class ModelCatalog {
+  private apiKeyManager: ApiKeyManager;
+  private googleApiForwarder: GoogleApiForwarder;
+  private models: Map<string, GeminiModel> = new Map();
+  private lastRefresh?: number;
+  private pendingRefresh?: Promise<void>;
+  private nextKeyIndex = 0; // Key to query first on the next refresh
+
+  constructor(apiKeyManager: ApiKeyManager, googleApiForwarder: GoogleApiForwarder) {
+    this.apiKeyManager = apiKeyManager;
+    this.googleApiForwarder = googleApiForwarder;
+  }
+
+  /**
+   * Get all models, refreshing the cache from upstream if it has expired
+   */
+  public async getModels(): Promise<GeminiModel[]> {
+    await this.ensureFresh();
+    return Array.from(this.models.values());
+  }
+
+  /**
+   * Get a single model by ID ("gemini-2.5-flash" or "models/gemini-2.5-flash")
+   */
+  public async getModel(modelId: string): Promise<GeminiModel | undefined> {
+    await this.ensureFresh();
+    return this.models.get(this.toResourceName(modelId));
+  }
+
+  /**
+   * Drop the cached catalog so the next lookup queries upstream again
+   */
+  public invalidate(): void {
+    this.lastRefresh = undefined;
+  }
+
+  /**
+   * Refresh the cache if it is empty or older than the configured TTL
+   */
+  private async ensureFresh(): Promise<void> {
+    const isFresh = this.lastRefresh !== undefined &&
+      Date.now() - this.lastRefresh < config.MODEL_CATALOG_TTL_MS;
+    if (isFresh) {
+      return;
+    }
+
+    // Share a single in-flight refresh between concurrent callers
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refresh().finally(() => {
+        this.pendingRefresh = undefined;
+      });
+    }
+    await this.pendingRefresh;
+  }
+
+  /**
+   * Query one available key and cache the models it can access, falling back to the next key only on error.
+   * The starting key rotates between refreshes so the listModels calls are spread across the pool
+   */
+  private async refresh(): Promise<void> {
+    const availableKeys = this.apiKeyManager.getAvailableKeys();
+    if (availableKeys.length === 0) {
+      throw new Error('No available API keys to query the model catalog.');
+    }
+
+    const startIndex = this.nextKeyIndex++ % availableKeys.length;
+    let lastError: GoogleApiError | undefined;
+
+    for (let offset = 0; offset < availableKeys.length; offset++) {
+      const apiKey = await this.apiKeyManager.resolveKeyProxy(availableKeys[(startIndex + offset) % availableKeys.length]);
+      const result = await this.listAllModels(apiKey);
+      if (result.error) {
+        console.warn(`ModelCatalog: Failed to list models with key ${apiKey.keyId}:`, result.error.message);
+        lastError = result.error;
+        continue;
+      }
+
+      this.models = result.models;
+      this.lastRefresh = Date.now();
+      console.log(`ModelCatalog: Cached ${result.models.size} models using key ${apiKey.keyId}`);
+      return;
+    }
+
+    // Keep serving the previous catalog if every key failed
+    if (this.models.size > 0) {
+      console.warn('ModelCatalog: All keys failed to list models, keeping the cached catalog');
+      return;
+    }
+    throw lastError;
+  }
+
+  /**
+   * List every page of models accessible with one key
+   */
+  private async listAllModels(apiKey: ApiKey): Promise<{ models: Map<string, GeminiModel>, error?: GoogleApiError }> {
+    const models = new Map<string, GeminiModel>();
+    let pageToken: string | undefined;
+
+    do {
+      const result = await this.googleApiForwarder.listModels(apiKey, pageToken);
+      if (result.error || !result.response) {
+        return { models, error: result.error ?? new GoogleApiError('Google API Error: Empty listModels response.', 502, apiKey.key) };
+      }
+      for (const model of result.response.models || []) {
+        models.set(model.name, model);
+      }
+      pageToken = result.response.nextPageToken;
+    } while (pageToken);
+
+    return { models };
+  }
+
+  /**
+   * Normalize a model ID to its "models/..." resource name
+   */
+  private toResourceName(modelId: string): string {
+    return modelId.startsWith('models/') ? modelId : `models/${modelId}`;
+  }
+}
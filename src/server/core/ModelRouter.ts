@@ -0,0 +1,106 @@
+import RequestDispatcher, { DispatchOptions, DispatchResult } from './RequestDispatcher';
+import { EventManager, RequestStatus } from './EventManager';
+import config from '../config';
+
+// 报告实际使用模型的响应头
+export const MODEL_USED_HEADER = 'X-Model-Used';
+
+// 经模型路由的分发结果，modelId 为最后一次分发使用的模型
+export interface RoutedDispatchResult extends DispatchResult {
+  modelId: string;
+}
+
+/**
+ * Ordered list of models to try for a requested model name: its MODEL_ROUTES entry
+ * (an alias or a model with a fallback chain), otherwise the model itself
+ */
+export function resolveModelChain(modelId: string): string[] {
+  const chain = config.MODEL_ROUTES[modelId];
+  return Array.isArray(chain) && chain.length > 0 ? chain : [modelId];
+}
+
+/**
+ * Routing layer between the routes and the dispatcher: resolves model aliases and
+ * falls back to the next model in the chain when every key is exhausted for the current one
+ */
+export class ModelRouter {
+  private requestDispatcher: RequestDispatcher;
+  private eventManager: EventManager;
+
+  constructor(requestDispatcher: RequestDispatcher, eventManager: EventManager) {
+    this.requestDispatcher = requestDispatcher;
+    this.eventManager = eventManager;
+  }
+
+  /**
+   * 按模型路由分发 SDK 模式的请求。
+   * 请求体中带有模型名时 (如 batchEmbedContents 的每一项)，传入按实际模型生成请求体的函数
+   */
+  async dispatch(
+    modelId: string,
+    methodName: string,
+    requestBody: unknown | ((model: string) => unknown),
+    requestStatus: RequestStatus,
+    options: Omit<DispatchOptions, 'fallback'> = {}
+  ): Promise<RoutedDispatchResult> {
+    return this.route(modelId, requestStatus, options, (model, modelOptions) => {
+      const body = typeof requestBody === 'function' ? requestBody(model) : requestBody;
+      return this.requestDispatcher.dispatch(model, methodName, body, requestStatus, modelOptions);
+    });
+  }
+
+  /**
+   * 按模型路由分发透传模式的请求
+   */
+  async dispatchRaw(
+    modelId: string,
+    methodName: string,
+    requestBody: Buffer | string,
+    queryString: string,
+    requestStatus: RequestStatus,
+    options: Omit<DispatchOptions, 'fallback'> = {}
+  ): Promise<RoutedDispatchResult> {
+    return this.route(modelId, requestStatus, options, (model, modelOptions) =>
+      this.requestDispatcher.dispatchRaw(model, methodName, requestBody, queryString, requestStatus, modelOptions));
+  }
+
+  private async route(
+    modelId: string,
+    requestStatus: RequestStatus,
+    options: Omit<DispatchOptions, 'fallback'>,
+    dispatch: (model: string, options: DispatchOptions) => Promise<DispatchResult>
+  ): Promise<RoutedDispatchResult> {
+    const chain = resolveModelChain(modelId);
+    if (chain.length > 1 || chain[0] !== modelId) {
+      requestStatus.requestedModelId = modelId;
+    }
+
+    for (let index = 0; ; index++) {
+      const model = chain[index];
+      const hasFallback = index < chain.length - 1;
+      // RequestStatus 记录实际使用的模型，配额也按该模型统计
+      requestStatus.modelId = model;
+
+      const result = await dispatch(model, { ...options, fallback: hasFallback });
+      // 客户端已断开时不再回退
+      if (!hasFallback || options.signal?.aborted || !this.shouldFallBack(result)) {
+        return { ...result, modelId: model };
+      }
+
+      const nextModel = chain[index + 1];
+      console.warn(`ModelRouter: 模型 ${model} 没有可用的 API Key，回退到 ${nextModel}。`);
+      requestStatus.status = 'retrying';
+      requestStatus.errorMessage = result.error?.message ?? `No available API keys for ${model}.`;
+      this.eventManager.emitRequestUpdate(requestStatus); // 發送回退狀態
+    }
+  }
+
+  /**
+   * 没有可用 Key，或所有尝试过的 Key 都被限流时回退到下一个模型
+   */
+  private shouldFallBack(result: DispatchResult): boolean {
+    return !result.apiKey || result.error?.isRateLimitError === true;
+  }
+}
+
+export default ModelRouter;
@@ -0,0 +1,508 @@
+import {
+  GeminiContent,
+  GeminiGenerateContentRequest,
+  GeminiGenerateContentResponse,
+  GeminiModel,
+  GeminiPart,
+  GeminiUsageMetadata,
+  OpenAIChatCompletion,
+  OpenAIChatCompletionChunk,
+  OpenAIChatCompletionRequest,
+  OpenAIChatMessage,
+  OpenAIContentPart,
+  OpenAIEmbeddingResponse,
+  OpenAIErrorResponse,
+  OpenAIModel,
+  OpenAIToolCall,
+  OpenAIUsage,
+} from '../types';
+import { toGeminiSchema } from './GeminiSchema';
+import config from '../config';
+
+// OpenAI 嵌入模型名称，统一映射到配置的 Gemini 嵌入模型
+const OPENAI_EMBEDDING_MODELS = new Set([
+  'text-embedding-ada-002',
+  'text-embedding-3-small',
+  'text-embedding-3-large',
+]);
+
+/**
+ * Per-stream state needed to translate Gemini chunks into OpenAI chunks
+ */
+export interface OpenAIStreamState {
+  id: string;
+  model: string;
+  created: number;
+  sentRole: boolean;                    // Whether the first chunk carried the assistant role
+  toolCallCount: number;                // Number of tool calls emitted so far
+  finishReason: string | null;
+  usage?: OpenAIUsage;
+}
+
+/**
+ * Translates between the OpenAI Chat Completions protocol and Gemini generateContent
+ */
+export class OpenAITranslator {
+
+  /**
+   * Strip the optional "models/" prefix from an OpenAI model name
+   */
+  static toGeminiModelId(model: string): string {
+    return model.startsWith('models/') ? model.substring('models/'.length) : model;
+  }
+
+  /**
+   * Convert an OpenAI chat completion request to a GoogleApiForwarder request body
+   */
+  static toGeminiRequest(request: OpenAIChatCompletionRequest): GeminiGenerateContentRequest {
+    const systemTexts: string[] = [];
+    const contents: GeminiContent[] = [];
+    // tool 消息只携带 tool_call_id，需要根据之前的 assistant 消息找回函数名
+    const toolCallNames = new Map<string, string>();
+
+    for (const message of request.messages || []) {
+      switch (message.role) {
+        case 'system':
+        case 'developer':
+          systemTexts.push(OpenAITranslator.getTextContent(message.content));
+          break;
+        case 'user':
+          OpenAITranslator.appendContent(contents, 'user', OpenAITranslator.toGeminiParts(message.content));
+          break;
+        case 'assistant': {
+          const parts = OpenAITranslator.toGeminiParts(message.content);
+          for (const toolCall of message.tool_calls || []) {
+            toolCallNames.set(toolCall.id, toolCall.function.name);
+            parts.push({
+              functionCall: {
+                name: toolCall.function.name,
+                args: OpenAITranslator.parseArguments(toolCall.function.arguments),
+              },
+            });
+          }
+          OpenAITranslator.appendContent(contents, 'model', parts);
+          break;
+        }
+        case 'tool':
+          OpenAITranslator.appendContent(contents, 'user', [OpenAITranslator.toFunctionResponsePart(message, toolCallNames)]);
+          break;
+      }
+    }
+
+    const generateConfig: Record<string, unknown> = {};
+    if (systemTexts.length > 0) {
+      generateConfig.systemInstruction = { parts: [{ text: systemTexts.join('\n\n') }] };
+    }
+    if (request.temperature !== undefined) {
+      generateConfig.temperature = request.temperature;
+    }
+    if (request.top_p !== undefined) {
+      generateConfig.topP = request.top_p;
+    }
+    if (request.n !== undefined) {
+      generateConfig.candidateCount = request.n;
+    }
+    const maxTokens = request.max_completion_tokens ?? request.max_tokens;
+    if (maxTokens !== undefined) {
+      generateConfig.maxOutputTokens = maxTokens;
+    }
+    if (request.stop !== undefined) {
+      generateConfig.stopSequences = Array.isArray(request.stop) ? request.stop : [request.stop];
+    }
+    if (request.presence_penalty !== undefined) {
+      generateConfig.presencePenalty = request.presence_penalty;
+    }
+    if (request.frequency_penalty !== undefined) {
+      generateConfig.frequencyPenalty = request.frequency_penalty;
+    }
+    if (request.seed !== undefined) {
+      generateConfig.seed = request.seed;
+    }
+    if (request.response_format?.type === 'json_object') {
+      generateConfig.responseMimeType = 'application/json';
+    } else if (request.response_format?.type === 'json_schema') {
+      generateConfig.responseMimeType = 'application/json';
+      const responseSchema = toGeminiSchema(request.response_format.json_schema?.schema);
+      if (responseSchema) {
+        generateConfig.responseSchema = responseSchema;
+      }
+    }
+
+    if (request.tools && request.tools.length > 0) {
+      generateConfig.tools = [{
+        functionDeclarations: request.tools
+          .filter(tool => tool.type === 'function')
+          .map(tool => ({
+            name: tool.function.name,
+            description: tool.function.description,
+            parameters: toGeminiSchema(tool.function.parameters),
+          })),
+      }];
+    }
+    if (request.tool_choice !== undefined) {
+      generateConfig.toolConfig = { functionCallingConfig: OpenAITranslator.toFunctionCallingConfig(request.tool_choice) };
+    }
+
+    return { contents, config: generateConfig };
+  }
+
+  /**
+   * Convert a Gemini generateContent response to an OpenAI chat completion
+   */
+  static toChatCompletion(response: GeminiGenerateContentResponse, model: string, id: string): OpenAIChatCompletion {
+    const candidates = response.candidates || [];
+    const choices = candidates.map((candidate, position) => {
+      const parts = candidate.content?.parts || [];
+      const text = OpenAITranslator.getResponseText(parts);
+      const toolCalls = parts
+        .filter(part => part.functionCall)
+        .map(part => OpenAITranslator.toToolCall(part));
+
+      return {
+        index: candidate.index ?? position,
+        message: {
+          role: 'assistant' as const,
+          content: text.length > 0 ? text : null,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        },
+        finish_reason: toolCalls.length > 0 ? 'tool_calls' : OpenAITranslator.toFinishReason(candidate.finishReason),
+      };
+    });
+
+    // 提示词被拦截时 Gemini 不返回候选结果
+    if (choices.length === 0 && response.promptFeedback?.blockReason) {
+      choices.push({
+        index: 0,
+        message: { role: 'assistant', content: null },
+        finish_reason: 'content_filter',
+      });
+    }
+
+    return {
+      id,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices,
+      usage: OpenAITranslator.toUsage(response.usageMetadata),
+    };
+  }
+
+  /**
+   * Create the state object used to translate one streaming response
+   */
+  static createStreamState(model: string, id: string): OpenAIStreamState {
+    return {
+      id,
+      model,
+      created: Math.floor(Date.now() / 1000),
+      sentRole: false,
+      toolCallCount: 0,
+      finishReason: null,
+    };
+  }
+
+  /**
+   * Convert one Gemini stream chunk into zero or more OpenAI stream chunks
+   */
+  static toChatCompletionChunks(chunk: GeminiGenerateContentResponse, state: OpenAIStreamState): OpenAIChatCompletionChunk[] {
+    const chunks: OpenAIChatCompletionChunk[] = [];
+
+    if (chunk.usageMetadata) {
+      state.usage = OpenAITranslator.toUsage(chunk.usageMetadata);
+    }
+    if (!chunk.candidates?.length && chunk.promptFeedback?.blockReason) {
+      state.finishReason = 'content_filter';
+    }
+
+    for (const candidate of chunk.candidates || []) {
+      const parts = candidate.content?.parts || [];
+      const text = OpenAITranslator.getResponseText(parts);
+      const toolCalls = parts
+        .filter(part => part.functionCall)
+        .map(part => ({ index: state.toolCallCount++, ...OpenAITranslator.toToolCall(part) }));
+
+      if (toolCalls.length > 0) {
+        state.finishReason = 'tool_calls';
+      } else if (candidate.finishReason && state.finishReason !== 'tool_calls') {
+        state.finishReason = OpenAITranslator.toFinishReason(candidate.finishReason);
+      }
+
+      if (text.length === 0 && toolCalls.length === 0 && state.sentRole) {
+        continue;
+      }
+
+      chunks.push(OpenAITranslator.createChunk(state, {
+        ...(state.sentRole ? {} : { role: 'assistant' as const }),
+        ...(text.length > 0 ? { content: text } : {}),
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      }, null));
+      state.sentRole = true;
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Build the final chunks that close an OpenAI stream
+   */
+  static toFinalChunks(state: OpenAIStreamState, includeUsage: boolean): OpenAIChatCompletionChunk[] {
+    const chunks = [OpenAITranslator.createChunk(state, {}, state.finishReason || 'stop')];
+    if (includeUsage) {
+      chunks.push({
+        id: state.id,
+        object: 'chat.completion.chunk',
+        created: state.created,
+        model: state.model,
+        choices: [],
+        usage: state.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      });
+    }
+    return chunks;
+  }
+
+  /**
+   * Resolve the Gemini embedding model for an OpenAI embeddings request
+   */
+  static toGeminiEmbeddingModelId(model: string): string {
+    return OPENAI_EMBEDDING_MODELS.has(model) ? config.OPENAI_EMBEDDING_MODEL : OpenAITranslator.toGeminiModelId(model);
+  }
+
+  /**
+   * Build a batchEmbedContents request body for a list of input texts
+   */
+  static toBatchEmbedRequest(inputs: string[], modelId: string, dimensions?: number): { requests: Record<string, unknown>[] } {
+    return {
+      requests: inputs.map(text => ({
+        model: `models/${modelId}`,
+        content: { parts: [{ text }] },
+        ...(dimensions !== undefined ? { outputDimensionality: dimensions } : {}),
+      })),
+    };
+  }
+
+  /**
+   * Convert Gemini embedding vectors to an OpenAI embeddings response
+   */
+  static toEmbeddingResponse(
+    embeddings: { values?: number[] }[],
+    model: string,
+    encodingFormat: 'float' | 'base64' = 'float'
+  ): OpenAIEmbeddingResponse {
+    return {
+      object: 'list',
+      data: embeddings.map((embedding, index) => {
+        const values = embedding.values || [];
+        return {
+          object: 'embedding' as const,
+          index,
+          // base64 格式为 little-endian float32 数组
+          embedding: encodingFormat === 'base64'
+            ? Buffer.from(new Float32Array(values).buffer).toString('base64')
+            : values,
+        };
+      }),
+      model,
+      // Gemini 嵌入接口不返回 token 用量
+      usage: { prompt_tokens: 0, total_tokens: 0 },
+    };
+  }
+
+  /**
+   * Convert a Gemini catalog entry to an OpenAI model object
+   */
+  static toOpenAIModel(model: GeminiModel): OpenAIModel {
+    return {
+      id: OpenAITranslator.toGeminiModelId(model.name),
+      object: 'model',
+      created: 0,
+      owned_by: 'google',
+    };
+  }
+
+  /**
+   * Build an OpenAI-shaped error body for the given HTTP status
+   */
+  static toErrorResponse(statusCode: number, message: string): OpenAIErrorResponse {
+    let type = 'api_error';
+    if (statusCode === 400 || statusCode === 404) {
+      type = 'invalid_request_error';
+    } else if (statusCode === 401) {
+      type = 'authentication_error';
+    } else if (statusCode === 403) {
+      type = 'permission_error';
+    } else if (statusCode === 429) {
+      type = 'rate_limit_error';
+    }
+
+    return {
+      error: {
+        message,
+        type,
+        param: null,
+        code: statusCode === 429 ? 'rate_limit_exceeded' : null,
+      },
+    };
+  }
+
+  private static createChunk(
+    state: OpenAIStreamState,
+    delta: OpenAIChatCompletionChunk['choices'][number]['delta'],
+    finishReason: string | null
+  ): OpenAIChatCompletionChunk {
+    return {
+      id: state.id,
+      object: 'chat.completion.chunk',
+      created: state.created,
+      model: state.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    };
+  }
+
+  /**
+   * Append parts to the conversation, merging consecutive turns from the same role
+   */
+  private static appendContent(contents: GeminiContent[], role: 'user' | 'model', parts: GeminiPart[]): void {
+    if (parts.length === 0) {
+      return;
+    }
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  }
+
+  private static getTextContent(content: OpenAIChatMessage['content']): string {
+    if (!content) {
+      return '';
+    }
+    if (typeof content === 'string') {
+      return content;
+    }
+    return content
+      .filter(part => part.type === 'text' && part.text)
+      .map(part => part.text)
+      .join('\n');
+  }
+
+  private static toGeminiParts(content: OpenAIChatMessage['content']): GeminiPart[] {
+    if (!content) {
+      return [];
+    }
+    if (typeof content === 'string') {
+      return content.length > 0 ? [{ text: content }] : [];
+    }
+    return content
+      .map(part => OpenAITranslator.toGeminiPart(part))
+      .filter((part): part is GeminiPart => part !== undefined);
+  }
+
+  private static toGeminiPart(part: OpenAIContentPart): GeminiPart | undefined {
+    if (part.type === 'text' && part.text) {
+      return { text: part.text };
+    }
+    if (part.type === 'image_url' && part.image_url?.url) {
+      // data URL 转为 inlineData，其余 URL 作为 fileData 引用
+      const match = /^data:([^;]+);base64,(.*)$/s.exec(part.image_url.url);
+      if (match) {
+        return { inlineData: { mimeType: match[1], data: match[2] } };
+      }
+      return { fileData: { fileUri: part.image_url.url } };
+    }
+    return undefined;
+  }
+
+  private static toFunctionResponsePart(message: OpenAIChatMessage, toolCallNames: Map<string, string>): GeminiPart {
+    const name = (message.tool_call_id && toolCallNames.get(message.tool_call_id)) || message.name || 'unknown_function';
+    const text = OpenAITranslator.getTextContent(message.content);
+    let response: Record<string, unknown>;
+    try {
+      const parsed = JSON.parse(text);
+      response = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { content: parsed };
+    } catch {
+      response = { content: text };
+    }
+    return { functionResponse: { name, response } };
+  }
+
+  private static parseArguments(args: string): Record<string, unknown> {
+    try {
+      return args ? JSON.parse(args) : {};
+    } catch {
+      console.warn('OpenAITranslator: Failed to parse tool call arguments, passing them as raw text');
+      return { arguments: args };
+    }
+  }
+
+  private static toFunctionCallingConfig(toolChoice: NonNullable<OpenAIChatCompletionRequest['tool_choice']>): Record<string, unknown> {
+    if (typeof toolChoice === 'object') {
+      return { mode: 'ANY', allowedFunctionNames: [toolChoice.function.name] };
+    }
+    switch (toolChoice) {
+      case 'none':
+        return { mode: 'NONE' };
+      case 'required':
+        return { mode: 'ANY' };
+      default:
+        return { mode: 'AUTO' };
+    }
+  }
+
+  /**
+   * Concatenate visible text parts, skipping thinking summaries
+   */
+  private static getResponseText(parts: GeminiPart[]): string {
+    return parts
+      .filter(part => typeof part.text === 'string' && !part.thought)
+      .map(part => part.text)
+      .join('');
+  }
+
+  private static toToolCall(part: GeminiPart): OpenAIToolCall {
+    const functionCall = part.functionCall!;
+    return {
+      id: functionCall.id || `call_${Math.random().toString(36).substring(2, 14)}`,
+      type: 'function',
+      function: {
+        name: functionCall.name,
+        arguments: JSON.stringify(functionCall.args || {}),
+      },
+    };
+  }
+
+  private static toFinishReason(finishReason?: string): string | null {
+    switch (finishReason) {
+      case undefined:
+        return null;
+      case 'STOP':
+        return 'stop';
+      case 'MAX_TOKENS':
+        return 'length';
+      case 'SAFETY':
+      case 'RECITATION':
+      case 'BLOCKLIST':
+      case 'PROHIBITED_CONTENT':
+      case 'SPII':
+      case 'IMAGE_SAFETY':
+        return 'content_filter';
+      default:
+        return 'stop';
+    }
+  }
+
+  private static toUsage(usage?: GeminiUsageMetadata): OpenAIUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+    const promptTokens = usage.promptTokenCount || 0;
+    // 思考 token 同样按输出计费
+    const completionTokens = (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0);
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: usage.totalTokenCount || promptTokens + completionTokens,
+    };
+  }
+}
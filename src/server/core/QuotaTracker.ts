@@ -0,0 +1,147 @@
+import { QuotaLimits, QuotaProfile, QuotaUsage } from '../types/Quota';
+import { getNextDailyQuotaReset } from './GoogleErrorDetails';
+import config from '../config';
+
+// RPM 和 TPM 的统计窗口
+const MINUTE_MS = 60 * 1000;
+
+// 内置配额档案 (Gemini API 公布的限额，可在 quotaProfiles 设置中覆盖或新增档案)
+export const BUILTIN_QUOTA_PROFILES: Record<string, QuotaProfile> = {
+  none: {},
+  free_tier: {
+    'gemini-2.5-pro': { rpm: 5, tpm: 250000, rpd: 100 },
+    'gemini-2.5-flash': { rpm: 10, tpm: 250000, rpd: 250 },
+    'gemini-2.5-flash-lite': { rpm: 15, tpm: 250000, rpd: 1000 },
+    'gemini-2.0-flash': { rpm: 15, tpm: 1000000, rpd: 200 },
+    'gemini-2.0-flash-lite': { rpm: 30, tpm: 1000000, rpd: 200 },
+    'gemini-embedding': { rpm: 100, tpm: 30000, rpd: 1000 },
+  },
+  tier_1: {
+    'gemini-2.5-pro': { rpm: 150, tpm: 2000000, rpd: 10000 },
+    'gemini-2.5-flash': { rpm: 1000, tpm: 1000000, rpd: 10000 },
+    'gemini-2.5-flash-lite': { rpm: 4000, tpm: 4000000 },
+    'gemini-2.0-flash': { rpm: 2000, tpm: 4000000 },
+    'gemini-2.0-flash-lite': { rpm: 4000, tpm: 4000000 },
+    'gemini-embedding': { rpm: 3000, tpm: 1000000 },
+  },
+};
+
+/**
+ * Strip the "models/" prefix so usage is counted per bare model ID
+ */
+export function normalizeQuotaModelId(modelId: string): string {
+  return modelId.replace(/^models\//, '');
+}
+
+/**
+ * Limits that apply to a key×model pair: the key's profile (KEY_QUOTA_PROFILES, else QUOTA_PROFILE),
+ * looked up by the longest matching model ID prefix
+ */
+export function getQuotaLimits(keyId: string, modelId: string): QuotaLimits {
+  const profileName = config.KEY_QUOTA_PROFILES[keyId] || config.QUOTA_PROFILE;
+  const profile = config.QUOTA_PROFILES[profileName] || BUILTIN_QUOTA_PROFILES[profileName];
+  if (!profile) {
+    return {};
+  }
+
+  const bareModelId = normalizeQuotaModelId(modelId);
+  const match = Object.keys(profile)
+    .filter(prefix => prefix !== '*' && bareModelId.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return profile[match ?? '*'] || {};
+}
+
+/**
+ * Create empty usage counters
+ */
+export function createQuotaUsage(now: number = Date.now()): QuotaUsage {
+  return { requests: [], tokens: [], dailyRequests: 0, dailyResetAt: getNextDailyQuotaReset(now) };
+}
+
+/**
+ * Drop entries outside the one-minute window and reset the daily counter after the daily reset
+ */
+export function pruneQuotaUsage(usage: QuotaUsage, now: number = Date.now()): void {
+  usage.requests = usage.requests.filter(time => time > now - MINUTE_MS);
+  usage.tokens = usage.tokens.filter(entry => entry.time > now - MINUTE_MS);
+  if (now >= usage.dailyResetAt) {
+    usage.dailyRequests = 0;
+    usage.dailyResetAt = getNextDailyQuotaReset(now);
+  }
+}
+
+/**
+ * Count a request sent upstream
+ */
+export function recordQuotaRequest(usage: QuotaUsage, now: number = Date.now()): void {
+  pruneQuotaUsage(usage, now);
+  usage.requests.push(now);
+  usage.dailyRequests++;
+}
+
+/**
+ * Count the tokens a request consumed (usageMetadata.totalTokenCount)
+ */
+export function recordQuotaTokens(usage: QuotaUsage, tokens: number, now: number = Date.now()): void {
+  pruneQuotaUsage(usage, now);
+  if (tokens > 0) {
+    usage.tokens.push({ time: now, count: tokens });
+  }
+}
+
+function sumTokens(usage: QuotaUsage): number {
+  return usage.tokens.reduce((sum, entry) => sum + entry.count, 0);
+}
+
+/**
+ * Whether one more request would exceed a limit (TPM counts the tokens already used this minute)
+ */
+export function wouldExceedQuota(usage: QuotaUsage, limits: QuotaLimits, now: number = Date.now()): boolean {
+  return getQuotaReleaseTime(usage, limits, now) !== undefined;
+}
+
+/**
+ * Fraction of the tightest limit still left (1 when no limit applies)
+ */
+export function getQuotaHeadroom(usage: QuotaUsage, limits: QuotaLimits, now: number = Date.now()): number {
+  pruneQuotaUsage(usage, now);
+  const ratios = [1];
+  if (limits.rpm) {
+    ratios.push(1 - usage.requests.length / limits.rpm);
+  }
+  if (limits.tpm) {
+    ratios.push(1 - sumTokens(usage) / limits.tpm);
+  }
+  if (limits.rpd) {
+    ratios.push(1 - usage.dailyRequests / limits.rpd);
+  }
+  return Math.max(0, Math.min(...ratios));
+}
+
+/**
+ * Earliest time another request fits within every limit, or undefined if it fits now
+ */
+export function getQuotaReleaseTime(usage: QuotaUsage, limits: QuotaLimits, now: number = Date.now()): number | undefined {
+  pruneQuotaUsage(usage, now);
+  const releaseTimes: number[] = [];
+
+  if (limits.rpd && usage.dailyRequests >= limits.rpd) {
+    releaseTimes.push(usage.dailyResetAt);
+  }
+  if (limits.rpm && usage.requests.length >= limits.rpm) {
+    // 需要等到足够多的请求移出一分钟窗口
+    releaseTimes.push(usage.requests[usage.requests.length - limits.rpm] + MINUTE_MS);
+  }
+  if (limits.tpm && sumTokens(usage) >= limits.tpm) {
+    let remaining = sumTokens(usage);
+    for (const entry of usage.tokens) {
+      remaining -= entry.count;
+      if (remaining < limits.tpm) {
+        releaseTimes.push(entry.time + MINUTE_MS);
+        break;
+      }
+    }
+  }
+
+  return releaseTimes.length > 0 ? Math.max(...releaseTimes) : undefined;
+}
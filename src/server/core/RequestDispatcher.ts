@@ -1,17 +1,638 @@
 import ApiKeyManager from './ApiKeyManager';
-import { ApiKey } from '../types';
+import GoogleApiForwarder, { GoogleApiError, RawForwardResponse } from './GoogleApiForwarder';
+import { EventManager, RequestAttempt, RequestStatus } from './EventManager';
+import { getNextDailyQuotaReset } from './GoogleErrorDetails';
+import { getAllowedKeyGroups } from './KeyRouting';
+import { getSessionId } from './SessionAffinity';
+import { StreamResult } from './StreamHandler';
+import { ApiKey, GeminiGenerateContentResponse, GeminiUsageMetadata, KeySelectionContext, RequestClientInfo } from '../types';
+import config from '../config';
+
+// 一次分发的结果：未选到 Key 时 apiKey 为空
+export interface DispatchResult {
+  apiKey?: ApiKey;
+  response?: unknown;
+  stream?: AsyncIterable<unknown>;
+  raw?: RawForwardResponse;             // 透传模式下的上游响应 (失败时同时设置 error)
+  error?: GoogleApiError;
+}
+
+// 分发选项：fallback 表示后面还有回退模型，此时没有可用 Key 不排队，限流错误交给调用方处理；
+// client 为发起请求的客户端信息，供 Key 路由规则匹配；signal 在客户端断开连接时中止排队和上游调用
+export interface DispatchOptions {
+  fallback?: boolean;
+  client?: RequestClientInfo;
+  signal?: AbortSignal;
+}
+
+// 单次转发的结果 (SDK 模式或透传模式)
+type ForwardResult = Omit<DispatchResult, 'apiKey'>;
+
+// 等待队列中的请求：有 Key 可用时以该 Key resolve，超时则以 null resolve
+interface QueuedRequest {
+  requestStatus: RequestStatus;
+  client?: RequestClientInfo;
+  enqueuedAt: number;
+  resolve: (apiKey: ApiKey | null) => void;
+  timer: NodeJS.Timeout;
+}
+
+// 会话亲和：会话最近一次成功使用的 Key
+interface SessionPin {
+  key: string;
+  lastUsed: number;
+}
+
+// 最多记录的会话数，超过时解除最久未使用的会话
+const MAX_PINNED_SESSIONS = 10000;
 
 class RequestDispatcher {
   private apiKeyManager: ApiKeyManager;
+  private googleApiForwarder: GoogleApiForwarder;
+  private eventManager: EventManager;
+  private waitQueue: QueuedRequest[] = [];
+  private draining: boolean = false;
+  private drainRequested: boolean = false; // 分配过程中又有 Key 恢复可用，需要再分配一轮
+  private drainTimer?: NodeJS.Timeout;
+  private inFlightKeys = new Map<string, string>(); // requestId → 正在占用并发名额的 Key
+  private sessionKeys = new Map<string, SessionPin>(); // 会话 ID → 固定使用的 Key (按最近使用排序)
 
-  constructor(apiKeyManager: ApiKeyManager) {
+  constructor(apiKeyManager: ApiKeyManager, googleApiForwarder: GoogleApiForwarder, eventManager: EventManager) {
     this.apiKeyManager = apiKeyManager;
+    this.googleApiForwarder = googleApiForwarder;
+    this.eventManager = eventManager;
+
+    // Key 恢复可用时 (冷却结束、手动恢复等) 立即尝试唤醒等待中的请求
+    this.eventManager.on('apiKeyStatusUpdate', (apiKey: ApiKey) => {
+      if (apiKey.status === 'available' && this.waitQueue.length > 0) {
+        void this.drainQueue();
+      }
+    });
+  }
+
+  /**
+   * 当前在等待队列中的请求数
+   */
+  getQueueLength(): number {
+    return this.waitQueue.length;
+  }
+
+  /**
+   * 为一次新请求创建初始的 RequestStatus
+   */
+  createRequestStatus(modelId: string, methodName: string): RequestStatus {
+    return {
+      requestId: Date.now().toString() + Math.random().toString(36).substring(2, 9), // 生成唯一請求 ID
+      keyId: 'unknown', // 初始未知，稍後更新
+      modelId: modelId,
+      methodName: methodName,
+      status: 'pending',
+      startTime: Date.now(),
+    };
+  }
+
+  /**
+   * 按 DISPATCH_STRATEGY 配置的选择策略，在 Key 路由规则允许的分组中选取可用 Key
+   */
+  async selectApiKey(excludeKeys?: Set<string>, context: KeySelectionContext = {}): Promise<ApiKey | null> {
+    return this.apiKeyManager.getAvailableKey(excludeKeys, context);
+  }
+
+  /**
+   * 选择 Key 并转发请求，同时处理冷却、认证失败等状态并发送 RequestStatus 事件。
+   * 非流式请求在此完成；流式请求需要调用方在流结束后调用 finishStream (同时释放 Key 的并发名额)。
+   */
+  async dispatch(
+    modelId: string,
+    methodName: string,
+    requestBody: unknown,
+    requestStatus: RequestStatus,
+    options: DispatchOptions = {}
+  ): Promise<DispatchResult> {
+    this.assignSession(requestStatus, modelId, requestBody, options);
+    return this.dispatchWith(requestStatus, apiKey =>
+      this.googleApiForwarder.forwardRequest(modelId, methodName, requestBody, apiKey, options.signal), options);
+  }
+
+  /**
+   * 透传模式：原样转发客户端的 REST 请求体。
+   * 上游响应需要调用方转发完毕后调用 completeRequest、failRequest 或 finishStream (流式响应，上游错误已在此处理)。
+   */
+  async dispatchRaw(
+    modelId: string,
+    methodName: string,
+    requestBody: Buffer | string,
+    queryString: string,
+    requestStatus: RequestStatus,
+    options: DispatchOptions = {}
+  ): Promise<DispatchResult> {
+    this.assignSession(requestStatus, modelId, requestBody, options);
+    return this.dispatchWith(requestStatus, apiKey =>
+      this.googleApiForwarder.forwardRawRequest(modelId, methodName, requestBody, apiKey, queryString, options.signal), options);
+  }
+
+  /**
+   * 按重试策略依次在不同的 Key 上执行转发：429、500、503、代理错误和认证失败会换用下一个可用 Key，
+   * 直到成功、达到最大尝试次数、超过截止时间或没有其他可用 Key。
+   */
+  private async dispatchWith(
+    requestStatus: RequestStatus,
+    forward: (apiKey: ApiKey) => Promise<ForwardResult>,
+    options: DispatchOptions
+  ): Promise<DispatchResult> {
+    const deadline = requestStatus.startTime + config.RETRY_DEADLINE_MS;
+    const triedKeys = new Set<string>();
+    let lastResult: DispatchResult = {};
+
+    for (let attempt = 1; attempt <= config.MAX_RETRY_ATTEMPTS; attempt++) {
+      // 1. 获取一个本次请求尚未尝试过的可用 API Key (首次尝试时没有可用 Key 则进入等待队列)
+      const apiKey = attempt === 1
+        ? await this.acquireApiKey(requestStatus, options)
+        : await this.selectApiKey(triedKeys, this.getSelectionContext(requestStatus, options.client));
+      if (!apiKey) {
+        if (attempt === 1) {
+          return {};
+        }
+        console.warn(`RequestDispatcher: 没有其他可用的 API Key 可供重试 (已尝试 ${triedKeys.size} 个)。`);
+        break;
+      }
+      triedKeys.add(apiKey.key);
+
+      requestStatus.keyId = apiKey.keyId; // 更新 keyId
+      if (attempt === 1) {
+        this.eventManager.emitRequestUpdate(requestStatus); // 發送 pending 狀態
+      }
+      console.info(`RequestDispatcher: 使用 Key ${apiKey.keyId} 处理请求 (第 ${attempt} 次尝试)。`);
+      // selectApiKey 已为该 Key 占用一个并发名额，记录下来以便请求结束时释放
+      this.inFlightKeys.set(requestStatus.requestId, apiKey.key);
+
+      // 2. 启用请求匀速时等待该 Key 的令牌，等待时间与上游耗时分开记录
+      const pacingDelay = this.apiKeyManager.reservePacingToken(apiKey.key, requestStatus.modelId);
+      if (pacingDelay > 0) {
+        console.info(`RequestDispatcher: Key ${apiKey.keyId} 按 RPM 匀速发送，请求等待 ${pacingDelay}ms。`);
+        const waited = await this.waitForPacing(pacingDelay, options.signal);
+        requestStatus.pacingDelay = (requestStatus.pacingDelay ?? 0) + pacingDelay;
+        if (!waited) {
+          // 客户端在匀速等待期间断开：释放名额，不发往上游
+          console.warn(`RequestDispatcher: 客户端在匀速等待期间断开连接 (${apiKey.keyId})。`);
+          this.releaseKey(requestStatus);
+          this.apiKeyManager.endCircuitTrial(apiKey.key);
+          this.cancelRequest(requestStatus);
+          const cancelledError = new GoogleApiError('Request cancelled: client disconnected.', undefined, apiKey.key);
+          cancelledError.isCancelled = true;
+          return { apiKey, error: cancelledError };
+        }
+      }
+      // 每次发往上游的尝试都计入该 Key 在此模型上的 RPM/RPD
+      this.apiKeyManager.recordQuotaRequest(apiKey.key, requestStatus.modelId);
+
+      // 3. 转发请求到 Google API
+      const attemptStartTime = Date.now();
+      const forwardResult = await forward(apiKey);
+
+      if (!forwardResult.error) {
+        this.recordAttempt(requestStatus, attempt, apiKey, attemptStartTime, pacingDelay);
+        this.apiKeyManager.recordKeyOutcome(apiKey.key, true, Date.now() - attemptStartTime);
+        this.pinSession(requestStatus, apiKey);
+        if (forwardResult.response) {
+          await this.completeRequest(requestStatus, apiKey, (forwardResult.response as GeminiGenerateContentResponse).usageMetadata);
+        }
+        return { apiKey, response: forwardResult.response, stream: forwardResult.stream, raw: forwardResult.raw };
+      }
+
+      // 失败的尝试立即释放并发名额；流式和透传响应的名额在 completeRequest 或 failRequest 时释放
+      this.releaseKey(requestStatus);
+      const err = forwardResult.error;
+      if (err.isCancelled) {
+        // 客户端已断开：不计入 Key 健康评分，不冷却也不重试
+        this.apiKeyManager.endCircuitTrial(apiKey.key);
+        this.cancelRequest(requestStatus);
+        return { apiKey, error: err };
+      }
+      console.error(`RequestDispatcher: 转发请求时发生错误 (${apiKey.keyId}):`, err.message);
+      this.recordAttempt(requestStatus, attempt, apiKey, attemptStartTime, pacingDelay, err);
+      // 只有服务端错误、超时和代理错误计入 Key 的健康评分；其他错误由冷却或禁用处理
+      if (this.isHealthError(err)) {
+        this.apiKeyManager.recordKeyOutcome(apiKey.key, false, Date.now() - attemptStartTime);
+      } else {
+        this.apiKeyManager.endCircuitTrial(apiKey.key);
+      }
+      this.updateKeyStatus(err, apiKey);
+      lastResult = { apiKey, error: err, raw: forwardResult.raw };
+
+      if (!this.isRetryableError(err) || attempt >= config.MAX_RETRY_ATTEMPTS) {
+        break;
+      }
+      if (Date.now() >= deadline) {
+        console.warn(`RequestDispatcher: 已超过重试截止时间 (${config.RETRY_DEADLINE_MS}ms)，停止重试。`);
+        break;
+      }
+
+      requestStatus.status = 'retrying';
+      requestStatus.errorMessage = err.message;
+      this.eventManager.emitRequestUpdate(requestStatus); // 發送重試狀態
+      console.warn(`RequestDispatcher: Key ${apiKey.keyId} 请求失败 (${err.statusCode ?? 'no status'})，换用其他 Key 重试。`);
+    }
+
+    if (!lastResult.error) {
+      // 仅在 MAX_RETRY_ATTEMPTS 小于 1 时出现 (配置已保证至少尝试一次)
+      const error = new GoogleApiError('No upstream attempt was made (MAX_RETRY_ATTEMPTS must be at least 1).', 500);
+      this.failRequest(requestStatus, error.message);
+      return { error };
+    }
+    if (options.fallback && lastResult.error.isRateLimitError) {
+      // 该模型的 Key 均被限流，由调用方回退到下一个模型
+      return lastResult;
+    }
+    this.handleForwardError(lastResult.error, requestStatus);
+    return lastResult;
+  }
+
+  /**
+   * 等待匀速发送的令牌；客户端断开连接时提前结束并返回 false
+   */
+  private waitForPacing(delayMs: number, signal?: AbortSignal): Promise<boolean> {
+    if (signal?.aborted) {
+      return Promise.resolve(false);
+    }
+    return new Promise(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve(false);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(true);
+      }, delayMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * 启用会话亲和时记录请求所属的会话 (模型回退时按新模型重新计算)
+   */
+  private assignSession(requestStatus: RequestStatus, modelId: string, requestBody: unknown, options: DispatchOptions): void {
+    requestStatus.sessionId = config.SESSION_AFFINITY ? getSessionId(modelId, requestBody, options.client) : undefined;
+  }
+
+  /**
+   * 选择 Key 时的请求信息：模型、客户端，以及会话在有效期内固定的 Key
+   */
+  private getSelectionContext(requestStatus: RequestStatus, client?: RequestClientInfo): KeySelectionContext {
+    const context: KeySelectionContext = { ...client, modelId: requestStatus.modelId };
+    const pin = requestStatus.sessionId ? this.sessionKeys.get(requestStatus.sessionId) : undefined;
+    if (pin && Date.now() - pin.lastUsed < config.SESSION_AFFINITY_TTL_MS) {
+      context.preferredKey = pin.key;
+    }
+    return context;
+  }
+
+  /**
+   * 将会话固定到成功处理请求的 Key。固定的 Key 冷却或不可用时会话改用其他 Key，之后固定到新的 Key
+   */
+  private pinSession(requestStatus: RequestStatus, apiKey: ApiKey): void {
+    const sessionId = requestStatus.sessionId;
+    if (!sessionId) {
+      return;
+    }
+    const previous = this.sessionKeys.get(sessionId);
+    if (previous && previous.key !== apiKey.key && Date.now() - previous.lastUsed < config.SESSION_AFFINITY_TTL_MS) {
+      console.info(`RequestDispatcher: 会话 ${sessionId} 固定的 Key 不可用，改为固定到 ${apiKey.keyId}。`);
+    }
+    // 重新插入以保持 Map 按最近使用排序
+    this.sessionKeys.delete(sessionId);
+    this.sessionKeys.set(sessionId, { key: apiKey.key, lastUsed: Date.now() });
+    if (this.sessionKeys.size > MAX_PINNED_SESSIONS) {
+      this.sessionKeys.delete(this.sessionKeys.keys().next().value!);
+    }
+  }
+
+  /**
+   * 为新请求获取 Key。已有竞争同一批 Key 的请求在排队时直接排到队尾 (FIFO)，
+   * 否则没有可用 Key 时进入等待队列，直到有 Key 结束冷却或超过最长等待时间。
+   * 还有回退模型时不排队，直接返回 null。
+   */
+  private async acquireApiKey(requestStatus: RequestStatus, options: DispatchOptions): Promise<ApiKey | null> {
+    if (options.fallback || !this.hasCompetingQueuedRequest(requestStatus.modelId, options.client)) {
+      const apiKey = await this.selectApiKey(undefined, this.getSelectionContext(requestStatus, options.client));
+      if (apiKey || options.fallback) {
+        return apiKey;
+      }
+    }
+
+    if (config.QUEUE_MAX_WAIT_MS <= 0) {
+      console.warn('RequestDispatcher: 没有可用的 API Key。');
+      this.failRequest(requestStatus, 'No available API keys.');
+      return null;
+    }
+    if (this.waitQueue.length >= config.QUEUE_MAX_DEPTH) {
+      console.warn(`RequestDispatcher: 等待队列已满 (${config.QUEUE_MAX_DEPTH})，拒绝请求。`);
+      this.failRequest(requestStatus, 'No available API keys and the wait queue is full.');
+      return null;
+    }
+
+    const apiKey = await new Promise<ApiKey | null>(resolve => {
+      const entry: QueuedRequest = {
+        requestStatus,
+        client: options.client,
+        enqueuedAt: Date.now(),
+        resolve,
+        timer: setTimeout(() => {
+          this.waitQueue = this.waitQueue.filter(queued => queued !== entry);
+          resolve(null);
+        }, config.QUEUE_MAX_WAIT_MS),
+      };
+      this.waitQueue.push(entry);
+      // 客户端断开连接时离开等待队列
+      options.signal?.addEventListener('abort', () => {
+        if (this.waitQueue.includes(entry)) {
+          clearTimeout(entry.timer);
+          this.waitQueue = this.waitQueue.filter(queued => queued !== entry);
+          resolve(null);
+        }
+      }, { once: true });
+
+      requestStatus.status = 'queued';
+      requestStatus.queuePosition = this.waitQueue.length;
+      this.eventManager.emitRequestUpdate(requestStatus); // 發送排隊狀態
+      console.info(`RequestDispatcher: 没有可用的 API Key，请求进入等待队列 (位置 ${requestStatus.queuePosition})。`);
+
+      this.scheduleQueueDrain();
+    });
+
+    requestStatus.status = 'pending';
+    requestStatus.queueDuration = Date.now() - requestStatus.startTime;
+    if (!apiKey && options.signal?.aborted) {
+      console.warn('RequestDispatcher: 客户端在等待队列中断开连接。');
+      this.cancelRequest(requestStatus);
+    } else if (!apiKey) {
+      console.warn(`RequestDispatcher: 请求在等待队列中超时 (${config.QUEUE_MAX_WAIT_MS}ms)。`);
+      this.failRequest(requestStatus, 'No available API keys (timed out in the wait queue).');
+    }
+    return apiKey;
+  }
+
+  /**
+   * 等待队列中是否有与该请求竞争同一批 Key 的请求 (同一模型且路由到相同的 Key 分组)
+   */
+  private hasCompetingQueuedRequest(modelId: string, client?: RequestClientInfo): boolean {
+    if (this.waitQueue.length === 0) {
+      return false;
+    }
+    const groups = this.getKeyGroupsKey(modelId, client);
+    return this.waitQueue.some(entry =>
+      entry.requestStatus.modelId === modelId && this.getKeyGroupsKey(modelId, entry.client) === groups);
+  }
+
+  private getKeyGroupsKey(modelId: string, client?: RequestClientInfo): string {
+    return JSON.stringify(getAllowedKeyGroups({ ...client, modelId }) ?? null);
+  }
+
+  /**
+   * 按先进先出的顺序把可用 Key 分配给等待中的请求。
+   * 暂时分配不到 Key 的请求 (如其他模型或 Key 分组) 不阻塞排在后面的请求
+   */
+  private async drainQueue(): Promise<void> {
+    if (this.draining) {
+      this.drainRequested = true;
+      return;
+    }
+    this.draining = true;
+    try {
+      do {
+        this.drainRequested = false;
+        for (const entry of [...this.waitQueue]) {
+          if (!this.waitQueue.includes(entry)) {
+            continue; // 已超时或客户端已断开
+          }
+          const apiKey = await this.selectApiKey(undefined, this.getSelectionContext(entry.requestStatus, entry.client));
+          if (!apiKey) {
+            continue;
+          }
+          // 等待 selectApiKey 期间请求可能已超时移除，此时归还刚占用的并发名额 (Key 是按该请求的模型和路由规则选的)
+          if (!this.waitQueue.includes(entry)) {
+            this.apiKeyManager.endCircuitTrial(apiKey.key);
+            this.apiKeyManager.decrementRequestCount(apiKey.key);
+            continue;
+          }
+          this.waitQueue = this.waitQueue.filter(queued => queued !== entry);
+          clearTimeout(entry.timer);
+          entry.resolve(apiKey);
+        }
+      } while (this.drainRequested && this.waitQueue.length > 0);
+    } finally {
+      this.draining = false;
+      this.drainRequested = false;
+    }
+    this.scheduleQueueDrain();
+  }
+
+  /**
+   * 在最早结束冷却、恢复配额余量、补充令牌或熔断器放行试探请求的 Key 可用时再次尝试分配
+   */
+  private scheduleQueueDrain(): void {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = undefined;
+    }
+    if (this.waitQueue.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const wakeUpTimes = this.apiKeyManager.getAllKeys()
+      .filter(key => key.status === 'cooling_down' && key.coolingDownUntil !== undefined)
+      .map(key => key.coolingDownUntil!);
+    // 因配额已满而被跳过的 Key 在统计窗口滑过后也会恢复 (按队列中每个模型分别计算)
+    for (const modelId of new Set(this.waitQueue.map(entry => entry.requestStatus.modelId))) {
+      const quotaReleaseTime = this.apiKeyManager.getNextQuotaReleaseTime(modelId);
+      if (quotaReleaseTime !== undefined) {
+        wakeUpTimes.push(quotaReleaseTime);
+      }
+      const pacingTime = this.apiKeyManager.getNextPacingTime(modelId);
+      if (pacingTime !== undefined) {
+        wakeUpTimes.push(pacingTime);
+      }
+    }
+    const circuitRetryTime = this.apiKeyManager.getNextCircuitRetryTime();
+    if (circuitRetryTime !== undefined) {
+      wakeUpTimes.push(circuitRetryTime);
+    }
+    // 只等待将来的时间点：已过去的时间点 (如冷却已结束但尚未被 checkCoolingDownKeys 恢复) 会立即唤醒却仍分配不到 Key，
+    // 反复以 0 延迟重试会占满事件循环。这些 Key 恢复时会发出 apiKeyStatusUpdate 事件
+    const futureWakeUpTimes = wakeUpTimes.filter(time => time > now);
+    if (futureWakeUpTimes.length === 0) {
+      // 没有即将结束冷却的 Key，只能等待 apiKeyStatusUpdate 事件或超时
+      return;
+    }
+    const delay = Math.min(...futureWakeUpTimes) - now;
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = undefined;
+      void this.drainQueue();
+    }, delay);
+  }
+
+  /**
+   * 标记请求成功并记录 Key 使用历史
+   * @param usageMetadata 响应的 usageMetadata：totalTokenCount 计入该 Key 的 TPM，cachedContentTokenCount 反映隐式缓存的命中情况
+   */
+  async completeRequest(requestStatus: RequestStatus, apiKey: ApiKey, usageMetadata?: GeminiUsageMetadata): Promise<void> {
+    this.releaseKey(requestStatus);
+    requestStatus.status = 'success';
+    requestStatus.endTime = Date.now();
+    requestStatus.promptTokens = usageMetadata?.promptTokenCount;
+    requestStatus.cachedTokens = usageMetadata?.cachedContentTokenCount;
+    if (requestStatus.cachedTokens) {
+      console.info(`RequestDispatcher: 请求 ${requestStatus.requestId} 命中隐式缓存 (${requestStatus.cachedTokens}/${requestStatus.promptTokens ?? '?'} 个提示 Token，${apiKey.keyId})。`);
+    }
+    this.eventManager.emitRequestUpdate(requestStatus); // 發送成功狀態
+    if (usageMetadata?.totalTokenCount) {
+      this.apiKeyManager.recordQuotaTokens(apiKey.key, requestStatus.modelId, usageMetadata.totalTokenCount);
+    }
+    await this.apiKeyManager.recordSuccess(apiKey.key);
+  }
+
+  /**
+   * 流式响应结束后记录流指标 (首个数据块耗时、数据块数、持续时间和最终用量)，再按结果完成、失败或取消请求
+   */
+  async finishStream(requestStatus: RequestStatus, apiKey: ApiKey, result: StreamResult): Promise<void> {
+    const { metrics } = result;
+    requestStatus.timeToFirstToken = metrics.firstChunkAt !== undefined ? metrics.firstChunkAt - requestStatus.startTime : undefined;
+    requestStatus.chunkCount = metrics.chunkCount;
+    requestStatus.streamDuration = metrics.duration;
+    requestStatus.usageMetadata = result.usageMetadata;
+
+    if (result.cancelled) {
+      console.warn(`RequestDispatcher: 客户端已断开，停止转发流式响应 (${apiKey.keyId})`);
+      this.cancelRequest(requestStatus);
+    } else if (result.error) {
+      this.failRequest(requestStatus, result.error.message);
+    } else {
+      console.info(`RequestDispatcher: 流式响应完成 (${apiKey.keyId}，首个数据块 ${requestStatus.timeToFirstToken ?? '-'}ms，${metrics.chunkCount ?? '-'} 个数据块，${metrics.duration}ms)`);
+      await this.completeRequest(requestStatus, apiKey, result.usageMetadata);
+    }
+  }
+
+  /**
+   * 标记请求失败
+   */
+  failRequest(requestStatus: RequestStatus, errorMessage: string): void {
+    this.releaseKey(requestStatus);
+    requestStatus.status = 'failed';
+    requestStatus.endTime = Date.now();
+    requestStatus.errorMessage = errorMessage;
+    this.eventManager.emitRequestUpdate(requestStatus); // 發送失敗狀態
+  }
+
+  /**
+   * 标记请求已取消 (客户端断开连接，上游调用已中止)
+   */
+  cancelRequest(requestStatus: RequestStatus): void {
+    this.releaseKey(requestStatus);
+    requestStatus.status = 'cancelled';
+    requestStatus.endTime = Date.now();
+    requestStatus.errorMessage = 'Client disconnected.';
+    this.eventManager.emitRequestUpdate(requestStatus); // 發送取消狀態
+  }
+
+  /**
+   * 释放请求占用的 Key 并发名额 (可重复调用，只释放一次)
+   */
+  private releaseKey(requestStatus: RequestStatus): void {
+    const key = this.inFlightKeys.get(requestStatus.requestId);
+    if (key !== undefined) {
+      this.inFlightKeys.delete(requestStatus.requestId);
+      this.apiKeyManager.decrementRequestCount(key);
+    }
+  }
+
+  /**
+   * 429、500、503 和代理错误可以换用其他 Key 重试
+   */
+  private isRetryableError(err: GoogleApiError): boolean {
+    return err.isRateLimitError || err.isProxyError || err.statusCode === 500 || err.statusCode === 503;
+  }
+
+  /**
+   * Key 本身的认证失败：401、Gemini 对无效 Key 返回的 400 API_KEY_INVALID，或 ErrorInfo 原因为 API Key 问题的 400/403。
+   * 其他 403 (如无权访问调优模型或其他项目的文件) 只与本次请求有关，不禁用 Key
+   */
+  private isAuthError(err: GoogleApiError): boolean {
+    if (err.statusCode === 401) {
+      return true;
+    }
+    if (err.statusCode !== 400 && err.statusCode !== 403) {
+      return false;
+    }
+    return /^API_KEY_/.test(err.errorReason || '') ||
+      (err.statusCode === 400 && /API key not valid|API_KEY_INVALID/i.test(err.message));
+  }
+
+  /**
+   * 5xx、没有状态码的网络错误 (如超时) 以及代理错误说明 Key 当前不健康
+   */
+  private isHealthError(err: GoogleApiError): boolean {
+    return err.isProxyError || err.statusCode === undefined || err.statusCode >= 500;
+  }
+
+  /**
+   * 记录一次已结束的转发尝试
+   */
+  private recordAttempt(requestStatus: RequestStatus, attempt: number, apiKey: ApiKey, startTime: number, pacingDelay: number, err?: GoogleApiError): void {
+    const record: RequestAttempt = {
+      attempt,
+      keyId: apiKey.keyId,
+      modelId: requestStatus.modelId,
+      pacingDelay: pacingDelay > 0 ? pacingDelay : undefined,
+      startTime,
+      endTime: Date.now(),
+      statusCode: err?.statusCode,
+      errorMessage: err?.message,
+    };
+    requestStatus.attempts = [...(requestStatus.attempts || []), record];
+  }
+
+  /**
+   * 根据转发错误类型更新 Key 状态
+   */
+  private updateKeyStatus(err: GoogleApiError, apiKey: ApiKey): void {
+    if (err.isRateLimitError) {
+      // 如果是速率限制错误，按上游建议的时长标记 Key 冷却
+      const coolDown = this.getCoolDown(err);
+      this.apiKeyManager.markAsCoolingDown(apiKey.key, coolDown.durationMs, coolDown.reason);
+    } else if (this.isAuthError(err)) {
+      // 认证错误，禁用 Key 并记录原因，由 KeyRevalidator 在后台重新验证
+      console.error(`RequestDispatcher: Key ${apiKey.keyId} 认证失败。`);
+      this.apiKeyManager.markAsDisabled(apiKey.key, `${err.statusCode}: ${err.message}`);
+    }
+  }
+
+  /**
+   * 速率限制错误的冷却时长：每日配额耗尽时冷却到配额重置，
+   * 否则使用 RetryInfo / Retry-After 给出的延迟，都没有时使用默认冷却时间
+   */
+  private getCoolDown(err: GoogleApiError): { durationMs: number; reason: 'rate_limit' | 'daily_quota' } {
+    if (err.isDailyQuotaExceeded) {
+      const now = Date.now();
+      return { durationMs: getNextDailyQuotaReset(now) - now, reason: 'daily_quota' };
+    }
+    return { durationMs: err.retryDelayMs ?? config.KEY_COOL_DOWN_DURATION_MS, reason: 'rate_limit' };
   }
 
-  async selectApiKey(): Promise<ApiKey | null> {
-    // 目前只实现简单轮询策略，后续可扩展
-    return this.apiKeyManager.getAvailableKey();
+  /**
+   * 所有尝试结束后，根据最后一次错误发送对应的 RequestStatus
+   */
+  private handleForwardError(err: GoogleApiError, requestStatus: RequestStatus): void {
+    if (err.isRateLimitError) {
+      requestStatus.status = 'cooling_down';
+      requestStatus.endTime = Date.now();
+      requestStatus.errorMessage = err.message;
+      requestStatus.coolDownDuration = this.getCoolDown(err).durationMs;
+      this.eventManager.emitRequestUpdate(requestStatus); // 發送冷卻狀態
+    } else {
+      this.failRequest(requestStatus, err.message);
+    }
   }
 }
 
-export default RequestDispatcher;
\ No newline at end of file
+export default RequestDispatcher;
@@ -0,0 +1,42 @@
+import { PacingBucket } from '../types/Quota';
+import config from '../config';
+
+// 令牌按 RPM 在一分钟内匀速补充
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Create a full bucket (PACING_BURST_SIZE requests may start at once)
+ */
+export function createPacingBucket(now: number = Date.now()): PacingBucket {
+  return { tokens: getBurstSize(), updatedAt: now };
+}
+
+function getBurstSize(): number {
+  return Math.max(1, config.PACING_BURST_SIZE);
+}
+
+/**
+ * Add the tokens earned since the last refill at rpm / 60s, up to the burst size
+ */
+function refillBucket(bucket: PacingBucket, rpm: number, now: number): void {
+  bucket.tokens = Math.min(getBurstSize(), bucket.tokens + Math.max(0, now - bucket.updatedAt) * rpm / MINUTE_MS);
+  bucket.updatedAt = now;
+}
+
+/**
+ * Time until the bucket holds a whole token again (0 when a request may start now)
+ */
+export function getPacingDelay(bucket: PacingBucket, rpm: number, now: number = Date.now()): number {
+  refillBucket(bucket, rpm, now);
+  return bucket.tokens >= 1 ? 0 : Math.ceil((1 - bucket.tokens) * MINUTE_MS / rpm);
+}
+
+/**
+ * Take a token for a request and return how long it has to wait for it.
+ * The bucket may go negative, so concurrent requests are spaced one interval apart
+ */
+export function reservePacingToken(bucket: PacingBucket, rpm: number, now: number = Date.now()): number {
+  const delay = getPacingDelay(bucket, rpm, now);
+  bucket.tokens -= 1;
+  return delay;
+}
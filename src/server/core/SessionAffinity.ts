@@ -0,0 +1,54 @@
+import { createHash } from 'crypto';
+import { RequestClientInfo } from '../types/KeyRouting';
+
+// 客户端指定会话 ID 的请求头
+export const SESSION_ID_HEADER = 'x-session-id';
+
+// 请求体中决定隐式缓存前缀的部分 (SDK 模式放在 config 中，REST 请求体放在顶层)
+interface PrefixFields {
+  contents?: unknown;
+  systemInstruction?: unknown;
+  system_instruction?: unknown;
+  tools?: unknown;
+  config?: { systemInstruction?: unknown; tools?: unknown };
+}
+
+/**
+ * Session a request belongs to: the client-supplied X-Session-Id header, otherwise a hash of the
+ * conversation prefix (model, system instruction, tools and first turn) that every later turn repeats.
+ * Returns undefined for requests without conversation contents (e.g. embeddings)
+ */
+export function getSessionId(modelId: string, requestBody: unknown, client?: RequestClientInfo): string | undefined {
+  const header = client?.headers?.[SESSION_ID_HEADER];
+  const sessionHeader = Array.isArray(header) ? header[0] : header;
+  if (sessionHeader) {
+    return `header:${sessionHeader}`;
+  }
+
+  const body = parseRequestBody(requestBody);
+  if (!body || !Array.isArray(body.contents) || body.contents.length === 0) {
+    return undefined;
+  }
+
+  const prefix = JSON.stringify([
+    modelId,
+    body.config?.systemInstruction ?? body.systemInstruction ?? body.system_instruction ?? null,
+    body.config?.tools ?? body.tools ?? null,
+    body.contents[0],
+  ]);
+  return `prefix:${createHash('sha256').update(prefix).digest('hex').substring(0, 16)}`;
+}
+
+/**
+ * 透传模式的请求体是原始 JSON，无法解析时不做会话亲和
+ */
+function parseRequestBody(requestBody: unknown): PrefixFields | undefined {
+  if (Buffer.isBuffer(requestBody) || typeof requestBody === 'string') {
+    try {
+      return JSON.parse(requestBody.toString()) as PrefixFields;
+    } catch {
+      return undefined;
+    }
+  }
+  return requestBody && typeof requestBody === 'object' ? requestBody as PrefixFields : undefined;
+}
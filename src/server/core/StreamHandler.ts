@@ -1,4 +1,108 @@
+import { once } from 'events';
+import { StringDecoder } from 'string_decoder';
 import { Response } from 'express';
+import { GeminiGenerateContentResponse, GeminiUsageMetadata } from '../types';
+import config from '../config';
+
+// streamGenerateContent 的响应格式：?alt=sse 为 SSE，否则为分块传输的 JSON 数组
+export type StreamFormat = 'sse' | 'json';
+
+// 单个流式响应的指标，用于比较各 Key 和代理的流式延迟
+export interface StreamMetrics {
+  chunkCount?: number; // 转发的数据块数 (透传 JSON 数组格式不统计)
+  firstChunkAt?: number; // 第一个数据块转发给客户端的时间戳
+  duration: number; // 从开始转发到流结束的时间 (毫秒)
+}
+
+// 流式响应的处理结果
+export interface StreamResult {
+  error?: Error; // 流处理过程中发生的错误 (已通知客户端)
+  cancelled?: boolean; // 客户端已断开
+  usageMetadata?: GeminiUsageMetadata; // 最后一个数据块中的 token 用量
+  metrics: StreamMetrics;
+}
+
+/**
+ * 兼容接口 (OpenAI、Anthropic) 把 Gemini 数据块翻译为各自格式的 SSE 事件 (已编码为完整的事件文本)
+ */
+export interface StreamTranslator {
+  toEvents(chunk: GeminiGenerateContentResponse): string[];
+  toFinalEvents(): string[];
+  toErrorEvent(statusCode: number, message: string): string;
+}
+
+// 流式响应写给客户端的内容：响应头、每个数据块、结尾和错误
+interface StreamFrames {
+  heartbeat: boolean; // 开始转发后是否在数据块之间发送 SSE 心跳
+  start(): void;
+  chunk(chunk: GeminiGenerateContentResponse, index: number): string;
+  end(): string;
+  fail(error: Error, chunkCount: number): void;
+}
+
+// HTTP 状态码对应的 Google API 错误状态
+const ERROR_STATUS_BY_CODE: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  401: 'UNAUTHENTICATED',
+  403: 'PERMISSION_DENIED',
+  404: 'NOT_FOUND',
+  429: 'RESOURCE_EXHAUSTED',
+  503: 'UNAVAILABLE',
+  504: 'DEADLINE_EXCEEDED',
+};
+
+/**
+ * 等待上游流的第一个数据块，返回从该数据块开始的同一个流。
+ * 首个数据块之前的错误 (如限流、代理错误) 会在这里抛出，此时还没有向客户端写入任何内容，调用方可以换用其他 Key 或代理重试。
+ */
+export async function awaitFirstChunk<T>(stream: AsyncIterable<T>): Promise<AsyncIterable<T>> {
+  const iterator = stream[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  return (async function* () {
+    try {
+      if (!first.done) {
+        yield first.value;
+        yield* { [Symbol.asyncIterator]: () => iterator };
+      }
+    } finally {
+      // 消费方提前结束时关闭上游迭代器 (对已结束的迭代器没有影响)
+      await iterator.return?.();
+    }
+  })();
+}
+
+/**
+ * 上游流超过 timeoutMs 没有产生数据块时停止等待：调用 onStall (由调用方中止上游调用) 并抛出它返回的错误。
+ * 只统计等待上游的时间，timeoutMs 为 0 时不限制。
+ */
+export function withIdleTimeout<T>(stream: AsyncIterable<T>, timeoutMs: number, onStall: () => Error): AsyncIterable<T> {
+  if (timeoutMs <= 0) {
+    return stream;
+  }
+  return (async function* () {
+    const iterator = stream[Symbol.asyncIterator]();
+    let finished = false;
+    try {
+      while (true) {
+        let timer: NodeJS.Timeout | undefined;
+        const stalled = new Promise<never>((_resolve, reject) => {
+          timer = setTimeout(() => reject(onStall()), timeoutMs);
+        });
+        const next = await Promise.race([iterator.next(), stalled]).finally(() => clearTimeout(timer));
+        if (next.done) {
+          finished = true;
+          return;
+        }
+        yield next.value;
+      }
+    } finally {
+      if (!finished) {
+        // 消费方提前结束或上游停滞时关闭上游迭代器；停滞的上游已被中止，不等待它结束
+        iterator.return?.()?.catch(() => undefined);
+      }
+    }
+  })();
+}
 
 /**
  * 处理 Google API 的流式响应，并实时转发给客户端。
@@ -6,52 +110,321 @@ import { Response } from 'express';
 export class StreamHandler {
 
   /**
-   * 处理 Google API 的响应流 (AsyncIterable)。
+   * 根据请求的 alt 查询参数确定流式响应格式
+   */
+  public static getStreamFormat(alt: unknown): StreamFormat {
+    return alt === 'sse' ? 'sse' : 'json';
+  }
+
+  /**
+   * 创建在客户端断开连接 (响应未完成即关闭) 时中止的 AbortSignal，用于取消排队和上游调用
+   */
+  public static createClientAbortSignal(clientResponse: Response): AbortSignal {
+    const controller = new AbortController();
+    clientResponse.on('close', () => {
+      if (!clientResponse.writableFinished) {
+        console.warn('StreamHandler: Client disconnected, aborting upstream request.');
+        controller.abort();
+      }
+    });
+    return controller.signal;
+  }
+
+  /**
+   * 按 STREAM_HEARTBEAT_INTERVAL_MS 发送 SSE 注释心跳 (客户端会忽略)，避免上游长时间没有输出 (如 Gemini 的思考阶段) 时
+   * 客户端或中间代理因连接空闲而断开。响应头尚未发送时先发送 SSE 响应头；响应关闭时自动停止。
+   * @param canWrite 当前能否插入心跳 (透传模式只能在完整的事件之间插入)
+   * @returns 停止心跳的函数
+   */
+  public static startHeartbeat(clientResponse: Response, canWrite: () => boolean = () => true): () => void {
+    const intervalMs = config.STREAM_HEARTBEAT_INTERVAL_MS;
+    if (intervalMs <= 0) {
+      return () => undefined;
+    }
+    const timer = setInterval(() => {
+      if (clientResponse.writableEnded || !canWrite()) {
+        return;
+      }
+      if (!clientResponse.headersSent) {
+        StreamHandler.setStreamHeaders(clientResponse, 'sse');
+      }
+      clientResponse.write(': keepalive\n\n');
+    }, intervalMs);
+    timer.unref();
+    const stop = () => clearInterval(timer);
+    clientResponse.once('close', stop);
+    return stop;
+  }
+
+  /**
+   * 处理 Google API 的响应流 (AsyncIterable)，按 Gemini 原生格式转发给客户端。
+   * 响应头在收到第一个数据块时才发送，因此首个数据块之前的错误仍能以普通 JSON 错误响应返回。
    * @param googleStream 从 Google API 收到的响应流 (AsyncIterable)。
    * @param clientResponse 发送给客户端的 Express 响应对象。
+   * @param format 客户端请求的流格式。
+   * @param signal 客户端断开连接时中止的信号，中止后停止读取上游流。
+   * @returns 流处理过程中发生的错误 (如果有)、客户端是否已断开、最后一个数据块中的 token 用量以及流指标。
    */
-  public async handleStream(googleStream: AsyncIterable<unknown>, clientResponse: Response): Promise<void> {
-    // 设置响应头，表明是流式响应 (Server-Sent Events)
-    clientResponse.setHeader('Content-Type', 'text/event-stream');
-    clientResponse.setHeader('Cache-Control', 'no-cache');
-    clientResponse.setHeader('Connection', 'keep-alive');
-    clientResponse.setHeader('X-Accel-Buffering', 'no'); // Nginx 等代理可能需要此头来禁用缓冲
+  public async handleStream(
+    googleStream: AsyncIterable<unknown>,
+    clientResponse: Response,
+    format: StreamFormat = 'sse',
+    signal?: AbortSignal
+  ): Promise<StreamResult> {
+    return this.relayStream(googleStream, clientResponse, signal, {
+      heartbeat: format === 'sse',
+      start: () => this.startStream(clientResponse, format),
+      // Google SDK 的 generateContentStream 返回的是 GenerateContentResponse 对象，转换为 JSON 后作为 SSE 事件或数组元素发送
+      // JSON 数组格式：元素之间以 ",\r\n" 分隔，与 Google REST API 一致
+      chunk: (chunk, index) => format === 'sse' ? `data: ${JSON.stringify(chunk)}\n\n` : `${index > 0 ? ',\r\n' : ''}${JSON.stringify(chunk)}`,
+      end: () => format === 'json' ? ']' : '',
+      fail: (error, chunkCount) => this.sendError(clientResponse, error, format, chunkCount > 0),
+    });
+  }
+
+  /**
+   * 处理 Google API 的响应流，由兼容接口 (OpenAI、Anthropic) 的翻译器转换为对应格式的 SSE 事件后转发给客户端
+   */
+  public async handleTranslatedStream(
+    googleStream: AsyncIterable<unknown>,
+    clientResponse: Response,
+    translator: StreamTranslator,
+    signal?: AbortSignal
+  ): Promise<StreamResult> {
+    const start = () => {
+      if (!clientResponse.headersSent) {
+        StreamHandler.setStreamHeaders(clientResponse, 'sse');
+      }
+    };
+    return this.relayStream(googleStream, clientResponse, signal, {
+      heartbeat: true,
+      start,
+      chunk: chunk => translator.toEvents(chunk).join(''),
+      end: () => translator.toFinalEvents().join(''),
+      fail: error => {
+        // 只能以 SSE 事件的形式通知客户端
+        start();
+        clientResponse.write(translator.toErrorEvent(this.toErrorBody(error).error.code, error.message || 'Stream processing error.'));
+        clientResponse.end();
+      },
+    });
+  }
+
+  /**
+   * 逐个转发数据块并统计流指标：第一个数据块的时间、数据块数和流的持续时间。
+   * 心跳在发送第一个数据块 (同时发送响应头) 之后才开始，首个数据块之前的错误仍能以普通错误响应返回
+   */
+  private async relayStream(
+    googleStream: AsyncIterable<unknown>,
+    clientResponse: Response,
+    signal: AbortSignal | undefined,
+    frames: StreamFrames
+  ): Promise<StreamResult> {
+    const startedAt = Date.now();
+    let chunkCount = 0;
+    let firstChunkAt: number | undefined;
+    let usageMetadata: GeminiUsageMetadata | undefined;
+    let stopHeartbeat: (() => void) | undefined;
+    const toResult = (result: { error?: Error, cancelled?: boolean }): StreamResult =>
+      ({ ...result, usageMetadata, metrics: { chunkCount, firstChunkAt, duration: Date.now() - startedAt } });
 
     try {
       for await (const chunk of googleStream) {
-        // 将每个数据块转换为适合 SSE 的格式并写入客户端响应流
-        // Google SDK 的 generateContentStream 返回的是 GenerateContentResponse 对象
-        // 这里将其转换为 JSON 字符串，客户端需要解析
-        clientResponse.write(`data: ${JSON.stringify(chunk)}\n\n`);
+        if (signal?.aborted) {
+          // 客户端已断开，break 会关闭上游流
+          break;
+        }
+        if (chunkCount === 0) {
+          frames.start();
+          firstChunkAt = Date.now();
+          if (frames.heartbeat) {
+            stopHeartbeat = StreamHandler.startHeartbeat(clientResponse);
+          }
+        }
+        // 用量随数据块累计，最后一个数据块中的值即为整个请求的用量
+        usageMetadata = (chunk as GeminiGenerateContentResponse).usageMetadata ?? usageMetadata;
+        const data = frames.chunk(chunk as GeminiGenerateContentResponse, chunkCount);
+        if (data) {
+          clientResponse.write(data);
+        }
+        chunkCount++;
+      }
+
+      if (signal?.aborted) {
+        return toResult({ cancelled: true });
       }
+
       // 流结束
+      if (chunkCount === 0) {
+        frames.start();
+      }
+      const tail = frames.end();
+      if (tail) {
+        clientResponse.write(tail);
+      }
       clientResponse.end();
+      return toResult({});
     } catch (error: unknown) {
-      console.error('Error processing Google API stream:', error);
-      // 处理流处理过程中的错误
-      if (!clientResponse.headersSent) {
-        // 如果头部未发送，发送 500 错误响应
-        clientResponse.status(500).json({
-          error: {
-            code: 500,
-            message: 'Stream processing error.',
-            status: 'INTERNAL',
-            details: error instanceof Error ? error.message : 'Unknown error',
-          },
-        });
-      } else {
-        // 如果头部已发送，尝试结束响应流
-        clientResponse.end();
+      if (signal?.aborted) {
+        // 上游流因客户端断开而中止，无需通知已断开的客户端
+        return toResult({ cancelled: true });
       }
+      console.error('Error processing Google API stream:', error);
+      const streamError = error instanceof Error ? error : new Error(String(error));
+      frames.fail(streamError, chunkCount);
+      return toResult({ error: streamError });
+    } finally {
+      stopHeartbeat?.();
     }
+  }
 
-    // 可选：监听客户端断开连接事件，以便及时清理 Google API 流
-    // AsyncIterable 通常没有 destroy 方法，这里可能需要根据实际情况处理
-    // 例如，如果底层是可销毁的 ReadableStream，可以尝试销毁
-    clientResponse.on('close', () => {
-        console.log('Client disconnected.');
-        // 在 AsyncIterable 的情况下，没有直接的 destroy 方法
-        // 如果需要取消底层操作，可能需要在 GoogleApiForwarder 中实现取消逻辑并传递给这里
+  /**
+   * 以 Google API 格式返回错误：头部未发送时返回普通的 JSON 错误响应，
+   * 已发送 (已转发数据块或心跳) 时按流格式通知客户端并结束响应
+   */
+  public sendError(clientResponse: Response, error: Error, format: StreamFormat = 'sse', hasChunks: boolean = false): void {
+    const errorBody = this.toErrorBody(error);
+    if (!clientResponse.headersSent) {
+      clientResponse.status(errorBody.error.code).json(errorBody);
+    } else {
+      this.endStreamWithError(clientResponse, errorBody, format, hasChunks);
+    }
+  }
+
+  /**
+   * 透传模式：把上游原始的流式响应体转发给客户端 (状态码和响应头已由调用方转发)。
+   * 转发到一半时上游中断，按流格式补发错误，避免响应被静默截断。
+   * SSE 格式会在转发的同时解析事件，统计数据块数并读取用量；JSON 数组格式只统计时间。
+   */
+  public async relayRawStream(
+    body: NodeJS.ReadableStream,
+    clientResponse: Response,
+    format: StreamFormat = 'sse',
+    signal?: AbortSignal
+  ): Promise<StreamResult> {
+    const startedAt = Date.now();
+    let firstChunkAt: number | undefined;
+    let eventCount = 0;
+    let usageMetadata: GeminiUsageMetadata | undefined;
+    // 上游的数据块不一定按事件切分，pending 为尚不完整的事件，只在完整的事件之后插入心跳
+    const decoder = new StringDecoder('utf8');
+    let pending = '';
+    const stopHeartbeat = format === 'sse' ? StreamHandler.startHeartbeat(clientResponse, () => pending === '') : undefined;
+    const toResult = (result: { error?: Error, cancelled?: boolean }): StreamResult => ({
+      ...result,
+      usageMetadata,
+      metrics: { chunkCount: format === 'sse' ? eventCount : undefined, firstChunkAt, duration: Date.now() - startedAt },
     });
+
+    try {
+      for await (const chunk of body as AsyncIterable<Buffer>) {
+        if (signal?.aborted) {
+          break;
+        }
+        firstChunkAt = firstChunkAt ?? Date.now();
+        if (format === 'sse') {
+          const events = (pending + decoder.write(chunk)).split(/\r?\n\r?\n/);
+          pending = events.pop() ?? '';
+          for (const event of events.filter(event => event.trim() !== '')) {
+            eventCount++;
+            usageMetadata = readSseUsageMetadata(event) ?? usageMetadata;
+          }
+        }
+        if (!clientResponse.write(chunk)) {
+          await once(clientResponse, 'drain', { signal });
+        }
+      }
+      if (signal?.aborted) {
+        return toResult({ cancelled: true });
+      }
+      clientResponse.end();
+      return toResult({});
+    } catch (error: unknown) {
+      if (signal?.aborted) {
+        return toResult({ cancelled: true });
+      }
+      console.error('Error relaying Google API stream:', error);
+      const streamError = error instanceof Error ? error : new Error(String(error));
+      if (format === 'sse' && pending !== '') {
+        // 上游在事件中间中断，先结束这个不完整的事件
+        clientResponse.write('\n\n');
+      }
+      this.endStreamWithError(clientResponse, this.toErrorBody(streamError), format, firstChunkAt !== undefined);
+      return toResult({ error: streamError });
+    } finally {
+      stopHeartbeat?.();
+    }
+  }
+
+  /**
+   * 头部已发送时以流格式通知客户端错误并结束响应
+   */
+  private endStreamWithError(
+    clientResponse: Response,
+    errorBody: { error: { code: number; message: string; status: string } },
+    format: StreamFormat,
+    hasChunks: boolean
+  ): void {
+    if (format === 'sse') {
+      // 以 SSE 事件的形式通知客户端
+      clientResponse.write(`data: ${JSON.stringify(errorBody)}\n\n`);
+    } else {
+      // 将错误对象作为数组的最后一个元素并闭合数组
+      clientResponse.write(`${hasChunks ? ',\r\n' : '['}${JSON.stringify(errorBody)}]`);
+    }
+    clientResponse.end();
+  }
+
+  /**
+   * 发送与流格式对应的响应头 (心跳可能已经发送了 SSE 响应头)，JSON 数组格式还需写出起始的 "["
+   */
+  private startStream(clientResponse: Response, format: StreamFormat): void {
+    if (!clientResponse.headersSent) {
+      StreamHandler.setStreamHeaders(clientResponse, format);
+    }
+    if (format === 'json') {
+      clientResponse.write('[');
+    }
+  }
+
+  private static setStreamHeaders(clientResponse: Response, format: StreamFormat): void {
+    if (format === 'sse') {
+      clientResponse.setHeader('Content-Type', 'text/event-stream');
+      clientResponse.setHeader('Cache-Control', 'no-cache');
+      clientResponse.setHeader('Connection', 'keep-alive');
+    } else {
+      clientResponse.setHeader('Content-Type', 'application/json; charset=UTF-8');
+    }
+    clientResponse.setHeader('X-Accel-Buffering', 'no'); // Nginx 等代理可能需要此头来禁用缓冲
+  }
+
+  /**
+   * 构建 Google API 格式的错误对象
+   */
+  private toErrorBody(error: Error): { error: { code: number; message: string; status: string } } {
+    const statusCode = (error as any).statusCode || (error as any).status;
+    const code = typeof statusCode === 'number' && statusCode >= 400 ? statusCode : 500;
+    return {
+      error: {
+        code,
+        message: error.message || 'Stream processing error.',
+        status: ERROR_STATUS_BY_CODE[code] || 'INTERNAL',
+      },
+    };
+  }
+}
+
+/**
+ * 读取一个 SSE 事件中 GenerateContentResponse 的 usageMetadata (无法解析时返回 undefined)
+ */
+function readSseUsageMetadata(event: string): GeminiUsageMetadata | undefined {
+  const data = event.split(/\r?\n/)
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.substring(5).trim())
+    .join('\n');
+  try {
+    return (JSON.parse(data) as GeminiGenerateContentResponse).usageMetadata;
+  } catch {
+    return undefined;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express';
+import { ClientTokenManager } from '../core/ClientTokenManager';
+import config from '../config';
+
+/**
+ * Access token sent by the client: x-goog-api-key (Gemini SDKs), x-api-key (Anthropic SDKs),
+ * Authorization: Bearer (OpenAI SDKs) or the key query parameter
+ */
+export function getClientToken(req: Request): string | undefined {
+  const headerToken = req.headers['x-goog-api-key'] ?? req.headers['x-api-key'];
+  if (typeof headerToken === 'string' && headerToken) {
+    return headerToken;
+  }
+  const bearer = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (bearer) {
+    return bearer[1].trim();
+  }
+  return typeof req.query.key === 'string' && req.query.key ? req.query.key : undefined;
+}
+
+/**
+ * Whether the endpoint currently accepts requests without a token: no token issued yet and REQUIRE_CLIENT_TOKEN off
+ */
+export function isEndpointUnauthenticated(clientTokenManager: ClientTokenManager): boolean {
+  return !config.REQUIRE_CLIENT_TOKEN && !clientTokenManager.hasTokens();
+}
+
+/**
+ * 创建客户端认证中间件：签发过访问令牌或启用 REQUIRE_CLIENT_TOKEN 后，拒绝没有携带有效令牌的请求 (返回 Gemini 格式的 401 错误)
+ */
+const createClientAuthMiddleware = (clientTokenManager: ClientTokenManager) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (isEndpointUnauthenticated(clientTokenManager)) {
+      next();
+      return;
+    }
+    const token = getClientToken(req);
+    if (token && clientTokenManager.verifyToken(token)) {
+      next();
+      return;
+    }
+
+    console.warn(`ClientAuth: 拒绝${token ? '携带未知令牌' : '未携带令牌'}的请求 ${req.method} ${req.path}`);
+    res.status(401).json({
+      error: {
+        code: 401,
+        message: token
+          ? 'Unauthorized: unknown access token for the API Key Aggregator.'
+          : 'Unauthorized: an access token for the API Key Aggregator is required (x-goog-api-key header, key query parameter or Authorization: Bearer).',
+        status: 'UNAUTHENTICATED',
+      },
+    });
+  };
+
+export default createClientAuthMiddleware;
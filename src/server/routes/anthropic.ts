@@ -0,0 +1,104 @@
+import { Router, Request, Response } from 'express';
+import RequestDispatcher from '../core/RequestDispatcher';
+import { AnthropicTranslator } from '../core/AnthropicTranslator';
+import { StreamHandler, StreamTranslator } from '../core/StreamHandler';
+import { ModelRouter, MODEL_USED_HEADER } from '../core/ModelRouter';
+import { getRequestClientInfo } from '../core/KeyRouting';
+import { AnthropicMessagesRequest, AnthropicStreamEvent, GeminiGenerateContentResponse } from '../types';
+
+/**
+ * 以 Anthropic SSE 格式编码一个事件（event 行 + data 行）
+ */
+function toSseEvent(event: AnthropicStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * 发送 Anthropic 格式的错误响应 (心跳已发送 SSE 响应头时以 error 事件发送)
+ */
+function sendAnthropicError(res: Response, statusCode: number, message: string): void {
+  if (res.headersSent) {
+    res.write(toSseEvent({ ...AnthropicTranslator.toErrorResponse(statusCode, message) }));
+    res.end();
+    return;
+  }
+  res.status(statusCode).json(AnthropicTranslator.toErrorResponse(statusCode, message));
+}
+
+/**
+ * 将 Gemini 数据块翻译为 Messages API 的流式事件，流结束时发送收尾事件
+ */
+function createEventTranslator(body: AnthropicMessagesRequest, messageId: string): StreamTranslator {
+  const streamState = AnthropicTranslator.createStreamState(body.model, messageId);
+  return {
+    toEvents: chunk => AnthropicTranslator.toStreamEvents(chunk, streamState).map(toSseEvent),
+    toFinalEvents: () => AnthropicTranslator.toFinalEvents(streamState).map(toSseEvent),
+    toErrorEvent: (statusCode, message) => toSseEvent({ ...AnthropicTranslator.toErrorResponse(statusCode, message) }),
+  };
+}
+
+// 导出一个函数，接受依赖作为参数
+export default function createAnthropicRouter(requestDispatcher: RequestDispatcher, streamHandler: StreamHandler, modelRouter: ModelRouter): Router {
+  const router = Router();
+
+  // Anthropic Messages 兼容接口，翻译为 Gemini generateContent 调用
+  router.post('/v1/messages', async (req: Request, res: Response): Promise<void> => {
+    const body = req.body as AnthropicMessagesRequest;
+    if (!body || typeof body.model !== 'string' || !Array.isArray(body.messages)) {
+      sendAnthropicError(res, 400, 'Invalid request: "model" and "messages" are required.');
+      return;
+    }
+
+    const modelId = AnthropicTranslator.toGeminiModelId(body.model);
+    const methodName = body.stream ? 'streamGenerateContent' : 'generateContent';
+    const requestStatus = requestDispatcher.createRequestStatus(modelId, methodName);
+    // 客户端断开连接时中止排队和上游调用
+    const signal = StreamHandler.createClientAbortSignal(res);
+    const messageId = `msg_${requestStatus.requestId}`;
+
+    try {
+      const geminiRequest = AnthropicTranslator.toGeminiRequest(body);
+      // 按模型路由解析别名并在 Key 耗尽时回退 (与原生 Gemini 接口一致)
+      const dispatchResult = await modelRouter.dispatch(modelId, methodName, geminiRequest, requestStatus, { client: getRequestClientInfo(req), signal });
+      const apiKey = dispatchResult.apiKey;
+      if (dispatchResult.error?.isCancelled || (!apiKey && signal.aborted)) {
+        // 客户端已断开，请求已由 RequestDispatcher 记录为 cancelled
+        return;
+      }
+      res.setHeader(MODEL_USED_HEADER, dispatchResult.modelId);
+
+      if (!apiKey) {
+        console.warn('AnthropicRoute: 没有可用的 API Key，返回 503。');
+        sendAnthropicError(res, 503, 'Service Unavailable: No available API keys.');
+        return;
+      }
+
+      if (dispatchResult.error) {
+        sendAnthropicError(res, dispatchResult.error.statusCode || 500, dispatchResult.error.message);
+        return;
+      }
+
+      if (dispatchResult.stream) {
+        console.info(`AnthropicRoute: 处理流式响应 (${apiKey.keyId})`);
+        const streamResult = await streamHandler.handleTranslatedStream(dispatchResult.stream, res, createEventTranslator(body, messageId), signal);
+        await requestDispatcher.finishStream(requestStatus, apiKey, streamResult);
+        return;
+      }
+
+      console.info(`AnthropicRoute: 处理非流式响应 (${apiKey.keyId})`);
+      res.json(AnthropicTranslator.toMessagesResponse(dispatchResult.response as GeminiGenerateContentResponse, body.model, messageId));
+
+    } catch (error: unknown) {
+      const message = (error as any).message || 'Unknown error';
+      requestDispatcher.failRequest(requestStatus, message);
+      console.error('AnthropicRoute: 处理请求时发生未捕获的错误:', error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        sendAnthropicError(res, 500, message);
+      }
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,42 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ModelCatalog } from '../core/ModelCatalog';
+
+// 导出一个函数，接受模型目录作为依赖
+export default function createModelsRouter(modelCatalog: ModelCatalog): Router {
+  const router = Router();
+
+  // 列出 Key 池可以访问的所有模型 (所有可用 Key 的模型并集)
+  router.get('/v1beta/models', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const models = await modelCatalog.getModels();
+      res.json({ models });
+    } catch (error: unknown) {
+      console.error('ModelsRoute: 获取模型列表时发生错误:', error);
+      next(error);
+    }
+  });
+
+  // 获取单个模型的元数据，匹配 /v1beta/models/{model} (不含 :method 后缀)
+  router.get(/^\/v1beta\/models\/([^:\/]+)$/, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const modelId = req.params[0];
+    try {
+      const model = await modelCatalog.getModel(modelId);
+      if (!model) {
+        res.status(404).json({
+          error: {
+            code: 404,
+            message: `models/${modelId} is not found or is not available to any configured API key.`,
+            status: 'NOT_FOUND',
+          },
+        });
+        return;
+      }
+      res.json(model);
+    } catch (error: unknown) {
+      console.error(`ModelsRoute: 获取模型 ${modelId} 时发生错误:`, error);
+      next(error);
+    }
+  });
+
+  return router;
+}
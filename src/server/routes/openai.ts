@@ -0,0 +1,194 @@
+import { Router, Request, Response } from 'express';
+import RequestDispatcher, { DispatchResult } from '../core/RequestDispatcher';
+import { OpenAITranslator } from '../core/OpenAITranslator';
+import { ModelCatalog } from '../core/ModelCatalog';
+import { StreamHandler, StreamTranslator } from '../core/StreamHandler';
+import { ModelRouter, MODEL_USED_HEADER } from '../core/ModelRouter';
+import { getRequestClientInfo } from '../core/KeyRouting';
+import { GeminiGenerateContentResponse, OpenAIChatCompletionRequest, OpenAIEmbeddingRequest } from '../types';
+
+// Gemini batchEmbedContents 单次最多接受的请求数
+const MAX_EMBEDDING_BATCH_SIZE = 100;
+
+/**
+ * 编码一个 OpenAI 格式的 SSE 事件
+ */
+function toSseEvent(data: unknown): string {
+  return `data: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * 发送 OpenAI 格式的错误响应 (心跳已发送 SSE 响应头时以 SSE 事件发送)
+ */
+function sendOpenAIError(res: Response, statusCode: number, message: string): void {
+  if (res.headersSent) {
+    res.write(toSseEvent(OpenAITranslator.toErrorResponse(statusCode, message)));
+    res.end();
+    return;
+  }
+  res.status(statusCode).json(OpenAITranslator.toErrorResponse(statusCode, message));
+}
+
+/**
+ * 将 Gemini 数据块翻译为 chat.completion.chunk 事件，流结束时发送收尾数据块和 [DONE]
+ */
+function createChunkTranslator(body: OpenAIChatCompletionRequest, completionId: string): StreamTranslator {
+  const streamState = OpenAITranslator.createStreamState(body.model, completionId);
+  return {
+    toEvents: chunk => OpenAITranslator.toChatCompletionChunks(chunk, streamState).map(toSseEvent),
+    toFinalEvents: () => [
+      ...OpenAITranslator.toFinalChunks(streamState, body.stream_options?.include_usage === true).map(toSseEvent),
+      'data: [DONE]\n\n',
+    ],
+    toErrorEvent: (statusCode, message) => toSseEvent(OpenAITranslator.toErrorResponse(statusCode, message)),
+  };
+}
+
+// 导出一个函数，接受依赖作为参数
+export default function createOpenAIRouter(requestDispatcher: RequestDispatcher, modelCatalog: ModelCatalog, streamHandler: StreamHandler, modelRouter: ModelRouter): Router {
+  const router = Router();
+
+  // OpenAI Chat Completions 兼容接口，翻译为 Gemini generateContent 调用
+  router.post('/v1/chat/completions', async (req: Request, res: Response): Promise<void> => {
+    const body = req.body as OpenAIChatCompletionRequest;
+    if (!body || typeof body.model !== 'string' || !Array.isArray(body.messages)) {
+      sendOpenAIError(res, 400, 'Invalid request: "model" and "messages" are required.');
+      return;
+    }
+
+    const modelId = OpenAITranslator.toGeminiModelId(body.model);
+    const methodName = body.stream ? 'streamGenerateContent' : 'generateContent';
+    const requestStatus = requestDispatcher.createRequestStatus(modelId, methodName);
+    // 客户端断开连接时中止排队和上游调用
+    const signal = StreamHandler.createClientAbortSignal(res);
+    const completionId = `chatcmpl-${requestStatus.requestId}`;
+
+    try {
+      const geminiRequest = OpenAITranslator.toGeminiRequest(body);
+      // 按模型路由解析别名并在 Key 耗尽时回退 (与原生 Gemini 接口一致)
+      const dispatchResult = await modelRouter.dispatch(modelId, methodName, geminiRequest, requestStatus, { client: getRequestClientInfo(req), signal });
+      const apiKey = dispatchResult.apiKey;
+      if (dispatchResult.error?.isCancelled || (!apiKey && signal.aborted)) {
+        // 客户端已断开，请求已由 RequestDispatcher 记录为 cancelled
+        return;
+      }
+      res.setHeader(MODEL_USED_HEADER, dispatchResult.modelId);
+
+      if (!apiKey) {
+        console.warn('OpenAIRoute: 没有可用的 API Key，返回 503。');
+        sendOpenAIError(res, 503, 'Service Unavailable: No available API keys.');
+        return;
+      }
+
+      if (dispatchResult.error) {
+        sendOpenAIError(res, dispatchResult.error.statusCode || 500, dispatchResult.error.message);
+        return;
+      }
+
+      if (dispatchResult.stream) {
+        console.info(`OpenAIRoute: 处理流式响应 (${apiKey.keyId})`);
+        const streamResult = await streamHandler.handleTranslatedStream(dispatchResult.stream, res, createChunkTranslator(body, completionId), signal);
+        await requestDispatcher.finishStream(requestStatus, apiKey, streamResult);
+        return;
+      }
+
+      console.info(`OpenAIRoute: 处理非流式响应 (${apiKey.keyId})`);
+      res.json(OpenAITranslator.toChatCompletion(dispatchResult.response as GeminiGenerateContentResponse, body.model, completionId));
+
+    } catch (error: unknown) {
+      const message = (error as any).message || 'Unknown error';
+      requestDispatcher.failRequest(requestStatus, message);
+      console.error('OpenAIRoute: 处理请求时发生未捕获的错误:', error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        sendOpenAIError(res, 500, message);
+      }
+    }
+  });
+
+  // OpenAI Embeddings 兼容接口，按批拆分后各自分发，使流量分散到多个 Key
+  router.post('/v1/embeddings', async (req: Request, res: Response): Promise<void> => {
+    const body = req.body as OpenAIEmbeddingRequest;
+    const inputs = typeof body?.input === 'string' ? [body.input] : body?.input;
+    if (!body || typeof body.model !== 'string' || !Array.isArray(inputs) || inputs.length === 0 || inputs.some(input => typeof input !== 'string')) {
+      sendOpenAIError(res, 400, 'Invalid request: "model" and a string or non-empty string array "input" are required.');
+      return;
+    }
+
+    const modelId = OpenAITranslator.toGeminiEmbeddingModelId(body.model);
+    const batches: string[][] = [];
+    for (let i = 0; i < inputs.length; i += MAX_EMBEDDING_BATCH_SIZE) {
+      batches.push(inputs.slice(i, i + MAX_EMBEDDING_BATCH_SIZE));
+    }
+
+    // 客户端断开连接时中止所有批次的排队和上游调用
+    const signal = StreamHandler.createClientAbortSignal(res);
+
+    try {
+      // 第一批按模型路由解析别名并回退；其余批次使用同一模型，避免一次请求的向量来自不同模型
+      const options = { client: getRequestClientInfo(req), signal };
+      const firstResult = await modelRouter.dispatch(modelId, 'batchEmbedContents',
+        (model: string) => OpenAITranslator.toBatchEmbedRequest(batches[0], model, body.dimensions),
+        requestDispatcher.createRequestStatus(modelId, 'batchEmbedContents'), options);
+      const routedModelId = firstResult.modelId;
+      const results: DispatchResult[] = [firstResult];
+      if (firstResult.apiKey && !firstResult.error) {
+        results.push(...await Promise.all(batches.slice(1).map(batch => {
+          const requestStatus = requestDispatcher.createRequestStatus(routedModelId, 'batchEmbedContents');
+          const batchRequest = OpenAITranslator.toBatchEmbedRequest(batch, routedModelId, body.dimensions);
+          return requestDispatcher.dispatch(routedModelId, 'batchEmbedContents', batchRequest, requestStatus, options);
+        })));
+      }
+      if (signal.aborted) {
+        return;
+      }
+      res.setHeader(MODEL_USED_HEADER, routedModelId);
+
+      if (results.some(result => !result.apiKey)) {
+        console.warn('OpenAIRoute: 没有可用的 API Key，返回 503。');
+        sendOpenAIError(res, 503, 'Service Unavailable: No available API keys.');
+        return;
+      }
+      const failed = results.find(result => result.error);
+      if (failed?.error) {
+        sendOpenAIError(res, failed.error.statusCode || 500, failed.error.message);
+        return;
+      }
+
+      const embeddings = results.flatMap(result => (result.response as { embeddings?: { values?: number[] }[] }).embeddings || []);
+      res.json(OpenAITranslator.toEmbeddingResponse(embeddings, body.model, body.encoding_format));
+    } catch (error: unknown) {
+      console.error('OpenAIRoute: 处理嵌入请求时发生未捕获的错误:', error);
+      sendOpenAIError(res, 500, (error as any).message || 'Unknown error');
+    }
+  });
+
+  // OpenAI Models 兼容接口，数据来自聚合的模型目录
+  router.get('/v1/models', async (req: Request, res: Response): Promise<void> => {
+    try {
+      const models = await modelCatalog.getModels();
+      res.json({ object: 'list', data: models.map(model => OpenAITranslator.toOpenAIModel(model)) });
+    } catch (error: unknown) {
+      console.error('OpenAIRoute: 获取模型列表时发生错误:', error);
+      sendOpenAIError(res, 503, (error as any).message || 'Unknown error');
+    }
+  });
+
+  router.get(/^\/v1\/models\/(.+)$/, async (req: Request, res: Response): Promise<void> => {
+    const modelId = req.params[0];
+    try {
+      const model = await modelCatalog.getModel(modelId);
+      if (!model) {
+        sendOpenAIError(res, 404, `The model '${modelId}' does not exist or is not available to any configured API key.`);
+        return;
+      }
+      res.json(OpenAITranslator.toOpenAIModel(model));
+    } catch (error: unknown) {
+      console.error(`OpenAIRoute: 获取模型 ${modelId} 时发生错误:`, error);
+      sendOpenAIError(res, 503, (error as any).message || 'Unknown error');
+    }
+  });
+
+  return router;
+}
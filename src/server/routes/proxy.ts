@@ -1,11 +1,53 @@
 import { Router, Request, Response, NextFunction } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import ApiKeyManager from '../core/ApiKeyManager';
 import RequestDispatcher from '../core/RequestDispatcher';
-import GoogleApiForwarder, { GoogleApiError } from '../core/GoogleApiForwarder';
+import GoogleApiForwarder, { GoogleApiError, RawForwardResponse } from '../core/GoogleApiForwarder';
 import { StreamHandler } from '../core/StreamHandler';
-import config from '../config';
+import ModelRouter, { MODEL_USED_HEADER } from '../core/ModelRouter';
+import { getRequestClientInfo } from '../core/KeyRouting';
 // Removed import of GenerateContentResponse as we're now using @google/genai
 import { eventManager, RequestStatus, EventManager } from "../core/EventManager"; // 引入 eventManager, RequestStatus 和 EventManager
+import config from '../config';
+
+// 代理路由支持转发的 Gemini API 方法
+const SUPPORTED_METHODS = [
+  'generateContent',
+  'streamGenerateContent',
+  'countTokens',
+  'embedContent',
+  'batchEmbedContents',
+];
+
+// 透传时不能转发的逐跳 (hop-by-hop) 响应头
+const HOP_BY_HOP_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+]);
+
+// express.json 的 verify 回调会把原始请求体保存在 rawBody 上
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * 将上游响应的状态码和响应头原样转发给客户端
+ */
+function relayRawHeaders(raw: RawForwardResponse, res: Response): void {
+  res.status(raw.status);
+  for (const [name, values] of Object.entries(raw.headers)) {
+    if (!HOP_BY_HOP_HEADERS.has(name.toLowerCase())) {
+      res.setHeader(name, values);
+    }
+  }
+}
 
 // 修改为导出一个函数，接受依赖作为参数
 export default function createProxyRouter(
@@ -13,7 +55,8 @@ export default function createProxyRouter(
   requestDispatcher: RequestDispatcher,
   googleApiForwarder: GoogleApiForwarder,
   streamHandler: StreamHandler,
-  eventManager: EventManager // 新增参数
+  eventManager: EventManager, // 新增参数
+  modelRouter: ModelRouter // 解析模型别名并处理模型回退
 ): Router {
   const router = Router();
 
@@ -21,166 +64,127 @@ export default function createProxyRouter(
   // 定义代理路由，匹配 Gemini API 的 models/{model}:{method} 路径
   // 使用正则表达式捕获 model 和 method
   router.post(/^\/v1beta\/models\/([^:]+):([^:]+)$/, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    const requestId = Date.now().toString() + Math.random().toString(36).substring(2, 9); // 生成唯一請求 ID
-    let apiKey = null;
-    let requestStatus: RequestStatus = {
-        requestId: requestId,
-        keyId: 'unknown', // 初始未知，稍後更新
-        modelId: req.params[0],
-        methodName: req.params[1],
-        status: 'pending',
-        startTime: Date.now(),
-    };
+    // 从正则表达式捕获组中提取 modelId 和 methodName
+    const modelId = req.params[0]; // 第一个捕获组是 modelId
+    const methodName = req.params[1]; // 第二个捕获组是 methodName
+    const requestStatus: RequestStatus = requestDispatcher.createRequestStatus(modelId, methodName);
+    // 客户端断开连接时中止排队和上游调用
+    const signal = StreamHandler.createClientAbortSignal(res);
 
     try {
-      // 从正则表达式捕获组中提取 modelId 和 methodName
-      const modelId = req.params[0]; // 第一个捕获组是 modelId
-      const methodName = req.params[1]; // 第二个捕获组是 methodName
       const requestBody = req.body; // 获取请求体
 
-      // 验证方法名是否是 generateContent 或 streamGenerateContent
-      if (methodName !== 'generateContent' && methodName !== 'streamGenerateContent') {
+      // 验证方法名是否在支持的方法列表中
+      if (!SUPPORTED_METHODS.includes(methodName)) {
          console.warn(`ProxyRoute: 不支持的 API 方法: ${methodName}`);
          res.status(400).json({
             error: {
                code: 400,
-               message: `Bad Request: Unsupported API method "${methodName}". Only "generateContent" and "streamGenerateContent" are supported.`,
+               message: `Bad Request: Unsupported API method "${methodName}". Supported methods: ${SUPPORTED_METHODS.map(m => `"${m}"`).join(', ')}.`,
                status: 'INVALID_ARGUMENT',
             },
          });
-         requestStatus.status = "failed";
-         requestStatus.endTime = Date.now();
-         requestStatus.errorMessage = `Unsupported API method "${methodName}"`;
-         eventManager.emitRequestUpdate(requestStatus); // 發送失敗狀態
+         requestDispatcher.failRequest(requestStatus, `Unsupported API method "${methodName}"`);
          return; // 结束请求处理
       }
 
+      if (config.FORWARDING_MODE === 'raw') {
+        // 透传模式：原样转发请求体和查询参数 (如 alt=sse)，并原样返回上游响应
+        const rawBody = (req as RawBodyRequest).rawBody ?? JSON.stringify(requestBody ?? {});
+        const queryIndex = req.originalUrl.indexOf('?');
+        const queryString = queryIndex >= 0 ? req.originalUrl.substring(queryIndex) : '';
+        const streamFormat = StreamHandler.getStreamFormat(req.query.alt);
+        // 等待 Key 和上游响应期间不发送心跳，上游的状态码和响应头才能原样转发；SSE 心跳由 relayRawStream 在转发开始后发送
+        const dispatchResult = await modelRouter.dispatchRaw(modelId, methodName, rawBody, queryString, requestStatus, { client: getRequestClientInfo(req), signal });
+        const apiKey = dispatchResult.apiKey;
+        if (dispatchResult.error?.isCancelled || (!apiKey && signal.aborted)) {
+          // 客户端已断开，请求已由 RequestDispatcher 记录为 cancelled
+          return;
+        }
+        if (signal.aborted) {
+          // 上游已响应但客户端随即断开：丢弃上游响应，成功的请求仍占用 Key 的并发名额，需要在此取消
+          if (dispatchResult.raw && !Buffer.isBuffer(dispatchResult.raw.body)) {
+            (dispatchResult.raw.body as Readable).destroy();
+          }
+          if (apiKey && !dispatchResult.error) {
+            requestDispatcher.cancelRequest(requestStatus);
+          }
+          return;
+        }
+
+        res.setHeader(MODEL_USED_HEADER, dispatchResult.modelId);
+
+        if (!apiKey) {
+          console.warn('ProxyRoute: 没有可用的 API Key，返回 503。');
+          res.status(503).json({
+            error: {
+              code: 503,
+              message: 'Service Unavailable: No available API keys.',
+              status: 'UNAVAILABLE',
+            },
+          });
+        } else if (dispatchResult.raw) {
+          // 上游错误已由 RequestDispatcher 记录，这里仅原样转发响应
+          const raw = dispatchResult.raw;
+          console.info(`ProxyRoute: 透传上游响应 ${raw.status} (${apiKey.keyId})`);
+          relayRawHeaders(raw, res);
+          if (Buffer.isBuffer(raw.body)) {
+            res.end(raw.body);
+          } else if (methodName === 'streamGenerateContent') {
+            // 流式响应在收到首个数据块后才会到达这里，之后的上游中断以错误事件结束响应
+            const streamResult = await streamHandler.relayRawStream(raw.body, res, streamFormat, signal);
+            await requestDispatcher.finishStream(requestStatus, apiKey, streamResult);
+            return;
+          } else {
+            await pipeline(raw.body, res);
+          }
+          if (!dispatchResult.error) {
+            await requestDispatcher.completeRequest(requestStatus, apiKey);
+          }
+        } else {
+          // 未拿到上游响应 (如网络或代理错误)
+          next(dispatchResult.error);
+        }
+        return;
+      }
+
+      // 响应头等到首个数据块才发送，在此之前换 Key 重试或回退模型对客户端不可见；心跳在转发开始后才发送
+      const streamFormat = StreamHandler.getStreamFormat(req.query.alt);
 
-      // 1. 获取可用 API Key
-      console.log('ProxyRoute: Calling requestDispatcher.selectApiKey()...');
-      apiKey = await requestDispatcher.selectApiKey();
-      if (apiKey) {
-        requestStatus.keyId = apiKey.keyId; // 更新 keyId
-        eventManager.emitRequestUpdate(requestStatus); // 發送 pending 狀態
-        // 不需要再次發送 requestUpdate，因為 pending 狀態已經發送，後續會直接更新為 success/failed/cooling_down
+      // 按模型路由选择模型和 Key 并转发请求到 Google API (冷却、认证失败等状态由 RequestDispatcher 处理)
+      const dispatchResult = await modelRouter.dispatch(modelId, methodName, requestBody, requestStatus, { client: getRequestClientInfo(req), signal });
+      const apiKey = dispatchResult.apiKey;
+      if (dispatchResult.error?.isCancelled || (!apiKey && signal.aborted)) {
+        // 客户端已断开，请求已由 RequestDispatcher 记录为 cancelled
+        return;
       }
-      console.log('ProxyRoute: requestDispatcher.selectApiKey() returned:', apiKey ? 'a key' : 'no key');
+      res.setHeader(MODEL_USED_HEADER, dispatchResult.modelId);
 
       if (!apiKey) {
         // 没有可用 Key
         console.warn('ProxyRoute: 没有可用的 API Key，返回 503。');
-        res.status(503).json({
-          error: {
-            code: 503,
-            message: 'Service Unavailable: No available API keys.',
-            status: 'UNAVAILABLE',
-          },
-        });
-        requestStatus.status = "failed";
-        requestStatus.endTime = Date.now();
-        requestStatus.errorMessage = 'No available API keys.';
-        eventManager.emitRequestUpdate(requestStatus); // 發送失敗狀態
+        streamHandler.sendError(res, new GoogleApiError('Service Unavailable: No available API keys.', 503), streamFormat);
         return; // 结束请求处理
       }
 
-      console.info(`ProxyRoute: 使用 Key ${apiKey.key} 处理请求。`);
-      // 可选：增加 Key 的当前请求计数
-      // apiKeyManager.incrementRequestCount(apiKey.key);
+      if (dispatchResult.error) {
+        // 将错误传递给错误处理中间件
+        next(dispatchResult.error);
 
-      // 2. 转发请求到 Google API
-      // 调用 forwardRequest 时传递 modelId, methodName 和 requestBody
-      const forwardResult = await googleApiForwarder.forwardRequest(modelId, methodName, requestBody, apiKey);
+      } else if (dispatchResult.stream) {
+        // 处理流式响应，按客户端请求的格式 (?alt=sse 或 JSON 数组) 输出
+        console.info(`ProxyRoute: 处理流式响应 (${apiKey.keyId}, 格式: ${streamFormat})`);
+        const streamResult = await streamHandler.handleStream(dispatchResult.stream, res, streamFormat, signal);
+        await requestDispatcher.finishStream(requestStatus, apiKey, streamResult);
 
-      // 可选：减少 Key 的当前请求计数 (无论成功或失败，请求结束时都应减少)
-      if (apiKey) {
-        apiKeyManager.decrementRequestCount(apiKey.key);
-      }
-
-
-      if (forwardResult.error) {
-        // 处理转发过程中发生的错误
-        const err = forwardResult.error;
-        console.error(`ProxyRoute: 转发请求时发生错误 (${apiKey.key}):`, err.message);
-        requestStatus.endTime = Date.now();
-        requestStatus.errorMessage = err.message;
-
-        if (err.isRateLimitError) {
-          // 如果是速率限制错误，标记 Key 冷却
-          apiKeyManager.markAsCoolingDown(apiKey!.key, config.KEY_COOL_DOWN_DURATION_MS);
-          // TODO: 实现可选的重试逻辑
-          requestStatus.status = "cooling_down";
-          requestStatus.coolDownDuration = config.KEY_COOL_DOWN_DURATION_MS;
-          eventManager.emitRequestUpdate(requestStatus); // 發送冷卻狀態
-          // 目前将错误传递给错误处理中间件
-          next(err);
-        } else if (err.statusCode === 401 || err.statusCode === 403) {
-           // 认证错误，标记 Key 为 disabled (如果需要持久化状态，这里需要更多逻辑)
-           // apiKeyManager.markAsDisabled(apiKey.key); // 假设有一个 markAsDisabled 方法
-           console.error(`ProxyRoute: Key ${apiKey.key} 认证失败。`);
-           requestStatus.status = "failed";
-           eventManager.emitRequestUpdate(requestStatus); // 發送失敗狀態
-           next(err); // 将错误传递给错误处理中间件
-        }
-        else {
-          // 其他 Google API 错误，将错误传递给错误处理中间件
-          requestStatus.status = "failed";
-          eventManager.emitRequestUpdate(requestStatus); // 發送失敗狀態
-          next(err);
-        }
-
-      } else if (forwardResult.stream) {
-        // 处理流式响应
-        console.info(`ProxyRoute: 处理流式响应 (${apiKey.key})`);
-        // 调用 StreamHandler 处理流
-        // 处理 AsyncIterable 并将其内容发送到响应
-        // 设置响应头为 Server-Sent Events
-        res.setHeader('Content-Type', 'text/event-stream');
-        res.setHeader('Cache-Control', 'no-cache');
-        res.setHeader('Connection', 'keep-alive');
-
-        // 处理 AsyncIterable 并将其内容格式化为 SSE 发送
-        console.info(`ProxyRoute: 开始处理流式数据 (${apiKey.key})`);
-        for await (const chunk of forwardResult.stream) {
-          // 将 chunk 转换为 JSON 字符串
-          const data = JSON.stringify(chunk);
-          // 格式化为 SSE 事件
-          res.write(`data: ${data}\n\n`);
-        }
-        console.info(`ProxyRoute: 流式数据处理完毕 (${apiKey.key})`);
-        // 流处理完毕，发送一个结束事件 (可选，取决于客户端如何处理)
-        // res.write('event: end\ndata: {}\n\n');
-        requestStatus.status = "success";
-        requestStatus.endTime = Date.now();
-        eventManager.emitRequestUpdate(requestStatus); // 發送成功狀態
-        // 新增：更新金鑰使用歷史
-        if (apiKey) {
-          await apiKeyManager.addKeyHistoryEntry(apiKey.key, {
-            date: Date.now(),
-            rate: 15,
-            serverCurrentTime: Date.now(), // 新增：記錄伺服器當前時間
-          }); // 暫定 rate 為 1
-        }
-        res.end(); // 结束响应
-
-      } else if (forwardResult.response) {
+      } else if (dispatchResult.response) {
         // 处理非流式响应
-        console.info(`ProxyRoute: 处理非流式响应 (${apiKey.key})`);
+        console.info(`ProxyRoute: 处理非流式响应 (${apiKey.keyId})`);
         // 直接将 Google API 返回的响应体发送给客户端
-        requestStatus.status = "success";
-        requestStatus.endTime = Date.now();
-        eventManager.emitRequestUpdate(requestStatus); // 發送成功狀態
-        // 新增：更新金鑰使用歷史
-        if (apiKey) {
-          await apiKeyManager.addKeyHistoryEntry(apiKey.key, {
-            date: Date.now(),
-            rate: 15,
-            serverCurrentTime: Date.now(), // 新增：記錄伺服器當前時間
-          }); // 暫定 rate 為 15
-        }
-        res.json(forwardResult.response);
+        res.json(dispatchResult.response);
       } else {
          // 未知情况
-         console.error(`ProxyRoute: 未知转发结果 (${apiKey.key})`);
+         console.error(`ProxyRoute: 未知转发结果 (${apiKey.keyId})`);
          res.status(500).json({
             error: {
               code: 500,
@@ -188,22 +192,26 @@ export default function createProxyRouter(
               status: 'INTERNAL',
             },
          });
-         requestStatus.status = "failed";
-         requestStatus.endTime = Date.now();
-         requestStatus.errorMessage = 'Unknown forwarding result.';
-         eventManager.emitRequestUpdate(requestStatus); // 發送失敗狀態
+         requestDispatcher.failRequest(requestStatus, 'Unknown forwarding result.');
       }
 
     } catch (error: unknown) {
+      if (signal.aborted) {
+        // 透传响应转发到一半时客户端断开
+        requestDispatcher.cancelRequest(requestStatus);
+        return;
+      }
       // 捕获其他潜在错误 (如 KeyManager 或 Dispatcher 错误)
-      requestStatus.status = 'failed';
-      requestStatus.endTime = Date.now();
-      requestStatus.errorMessage = (error as any).message || 'Unknown error';
-      eventManager.emitRequestUpdate(requestStatus); // 發送失敗狀態
+      requestDispatcher.failRequest(requestStatus, (error as any).message || 'Unknown error');
       console.error('ProxyRoute: 处理请求时发生未捕获的错误:', error);
-      next(error); // 传递给错误处理中间件
+      if (res.headersSent) {
+        // 响应已开始 (流式或透传中断)，只能结束响应
+        res.end();
+      } else {
+        next(error); // 传递给错误处理中间件
+      }
     }
   });
 
   return router; // 返回配置好的 router
-}
\ No newline at end of file
+}
@@ -0,0 +1,96 @@
+/**
+ * Content block of an Anthropic message
+ */
+export interface AnthropicContentBlock {
+  type: 'text' | 'image' | 'document' | 'tool_use' | 'tool_result' | 'thinking' | string;
+  text?: string;                        // "text" blocks
+  source?: {                            // "image" and "document" blocks
+    type: 'base64' | 'url' | string;
+    media_type?: string;
+    data?: string;
+    url?: string;
+  };
+  id?: string;                          // "tool_use" blocks
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;                 // "tool_result" blocks
+  content?: string | AnthropicContentBlock[];
+  is_error?: boolean;
+}
+
+/**
+ * Message in an Anthropic Messages request
+ */
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+/**
+ * Tool definition in an Anthropic Messages request
+ */
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema?: Record<string, unknown>; // JSON Schema
+}
+
+/**
+ * Anthropic Messages request body
+ */
+export interface AnthropicMessagesRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  max_tokens?: number;
+  system?: string | AnthropicContentBlock[];
+  stop_sequences?: string[];
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  tools?: AnthropicTool[];
+  tool_choice?: { type: 'auto' | 'any' | 'tool' | 'none'; name?: string };
+  thinking?: { type: 'enabled' | 'disabled'; budget_tokens?: number };
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Token usage reported in Anthropic responses
+ */
+export interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+/**
+ * Anthropic Messages response body
+ */
+export interface AnthropicMessagesResponse {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  stop_sequence: string | null;
+  usage: AnthropicUsage;
+}
+
+/**
+ * Server-sent event emitted by a streaming Messages response
+ */
+export interface AnthropicStreamEvent {
+  type: 'message_start' | 'content_block_start' | 'content_block_delta' | 'content_block_stop' | 'message_delta' | 'message_stop' | 'error';
+  [key: string]: unknown;
+}
+
+/**
+ * Anthropic error response body
+ */
+export interface AnthropicErrorResponse {
+  type: 'error';
+  error: {
+    type: string;
+    message: string;
+  };
+}
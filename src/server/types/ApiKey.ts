@@ -1,11 +1,26 @@
+import { PacingBucket, QuotaUsage } from './Quota';
+import { RequestClientInfo } from './KeyRouting';
+
 export interface ApiKey {
   key: string; // API Key 值
   keyId: string; // 新增 keyId 屬性，用於識別，例如 "key1", "key2"
+  group?: string; // Key 所属的分组 (如 free、billed)，来自 keyGroups 设置，路由规则按分组限制可用的 Key
   status: 'available' | 'cooling_down' | 'disabled'; // 当前状态 (需要持久化)
   coolingDownUntil?: number; // 冷却结束时间戳 (ms) (需要持久化)
+  coolDownReason?: 'rate_limit' | 'daily_quota'; // 冷却原因：短时限流或每日配额耗尽 (需要持久化)
+  coolDownLevel?: number; // 连续限流的退避等级，冷却时长按 COOL_DOWN_BACKOFF_MULTIPLIER 的该次方放大 (需要持久化)
+  lastCoolDownUntil?: number; // 上一次限流冷却的结束时间戳 (ms)，用于判断是否连续限流 (需要持久化)
+  successesSinceBackoff?: number; // 上次退避等级变化以来成功的请求数
+  disabledReason?: string; // 被禁用的原因，例如认证失败的错误信息 (需要持久化)
+  disabledAt?: number; // 被禁用的时间戳 (ms) (需要持久化)
+  revalidationAttempts?: number; // 禁用后已重新验证失败的次数 (需要持久化)
+  nextRevalidationAt?: number; // 下次自动重新验证的时间戳 (ms) (需要持久化)
   currentRequests: number; // 当前使用此 Key 处理的并发请求数 (可选，用于更复杂的策略)
   lastUsed?: number; // 新增：上次使用時間戳 (ms)，表示該金鑰上次被選中使用的時間
   usedHistory?: { date: number; rate: number }[]; // 新增：金鑰使用歷史 (需要持久化，date 為時間戳)
+  quotaUsage?: Record<string, QuotaUsage>; // 按模型统计的 RPM/TPM/RPD 用量 (需要持久化)
+  pacing?: Record<string, PacingBucket>; // 按模型的令牌桶，按 RPM 匀速发送请求 (不持久化)
+  health?: KeyHealth; // 滚动窗口内的健康评分和熔断器状态 (不持久化，重启后重新统计)
   
   // Proxy-related fields
   proxy?: string; // Legacy field: direct proxy URL (for backward compatibility)
@@ -14,4 +29,52 @@ export interface ApiKey {
   useRotatingProxy?: boolean; // Flag to indicate if this key should use rotating proxy
   
   // 可以添加其他统计信息，如总请求数、失败次数等
-}
\ No newline at end of file
+}
+
+/**
+ * Circuit breaker states: closed (normal), open (key skipped), half_open (one trial request allowed)
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Outcome of one upstream attempt, kept in the rolling health window
+ */
+export interface KeyHealthSample {
+  time: number;
+  success: boolean;
+  latencyMs: number;
+}
+
+/**
+ * Rolling health of a key and its circuit breaker
+ */
+export interface KeyHealth {
+  score: number;                       // 0–1, derived from error rate, latency and recent failures
+  errorRate: number;                   // Failed share of the samples in the window
+  avgLatencyMs?: number;               // Average latency of successful attempts in the window
+  consecutiveFailures: number;
+  samples: KeyHealthSample[];
+  circuitState: CircuitState;
+  circuitOpenUntil?: number;           // When an open circuit lets a trial request through
+  trialInFlight?: boolean;             // A half-open trial request is running
+}
+
+/**
+ * Key selection strategies configurable via DISPATCH_STRATEGY
+ */
+export type KeySelectionStrategyType = 'round_robin' | 'least_recently_used' | 'least_in_flight' | 'weighted' | 'quota_aware';
+
+/**
+ * Context of the request a key is being selected for
+ */
+export interface KeySelectionContext extends RequestClientInfo {
+  modelId?: string;
+  preferredKey?: string; // Key the request's session is pinned to, used instead of the strategy while it is available
+}
+
+/**
+ * Interface for key selection strategies
+ */
+export interface KeySelectionStrategy {
+  selectKey(availableKeys: ApiKey[], context: KeySelectionContext): ApiKey | null;
+}
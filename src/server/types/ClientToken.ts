@@ -0,0 +1,20 @@
+/**
+ * Local access token a client uses to call the aggregator endpoint.
+ * Only a hash is stored; the token itself is shown once when it is created.
+ */
+export interface ClientToken {
+  id: string;                           // Stable identifier used to revoke the token
+  label: string;                        // Name given when the token was issued (e.g. "cline")
+  tokenHash: string;                    // SHA-256 hash of the token
+  createdAt: number;                    // Creation timestamp
+}
+
+/**
+ * Client tokens as persisted in SecretStorage
+ */
+export interface StoredClientTokens {
+  tokens: ClientToken[];
+  lastUpdated: number;
+}
+
+export const CLIENT_TOKEN_STORAGE_KEY = 'geminiClientTokens';
@@ -0,0 +1,62 @@
+/**
+ * Part of a Gemini content message
+ */
+export interface GeminiPart {
+  text?: string;
+  thought?: boolean;                    // Set on thinking summary parts
+  inlineData?: { mimeType: string; data: string };
+  fileData?: { mimeType?: string; fileUri: string };
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+  functionResponse?: { id?: string; name: string; response: Record<string, unknown> };
+}
+
+/**
+ * Gemini content message
+ */
+export interface GeminiContent {
+  role?: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+/**
+ * Token usage reported by Gemini
+ */
+export interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  cachedContentTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+/**
+ * Gemini generateContent response (also the shape of each stream chunk)
+ */
+export interface GeminiGenerateContentResponse {
+  candidates?: {
+    index?: number;
+    content?: GeminiContent;
+    finishReason?: string;
+  }[];
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: GeminiUsageMetadata;
+  modelVersion?: string;
+}
+
+/**
+ * Request body accepted by GoogleApiForwarder for generateContent calls
+ */
+export interface GeminiGenerateContentRequest {
+  contents: GeminiContent[];
+  config: Record<string, unknown>;      // @google/genai GenerateContentConfig
+}
+
+/**
+ * Quota violation reported in a google.rpc.QuotaFailure error detail
+ */
+export interface GoogleQuotaViolation {
+  quotaMetric?: string;
+  quotaId?: string;                     // e.g. "GenerateRequestsPerDayPerProjectPerModel-FreeTier"
+  quotaDimensions?: Record<string, string>;
+  quotaValue?: string;
+}
@@ -0,0 +1,19 @@
+/**
+ * Identity and headers of the client that sent a request, matched by key routing rules
+ */
+export interface RequestClientInfo {
+  clientId?: string;                    // Client identity (X-Client-Id header)
+  headers?: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Rule restricting which key groups may serve matching requests.
+ * Every condition that is set must match; a rule without conditions matches every request.
+ */
+export interface KeyRoutingRule {
+  model?: string;                       // Model ID prefix, e.g. "gemini-2.5-pro"
+  client?: string;                      // Client identity
+  header?: string;                      // Name of a request header that must be present
+  headerValue?: string;                 // Required value of that header (any value when omitted)
+  groups: string[];                     // Key groups allowed to serve the request
+}
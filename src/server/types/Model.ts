@@ -0,0 +1,26 @@
+/**
+ * Gemini model metadata as returned by the REST models endpoint
+ */
+export interface GeminiModel {
+  name: string;                         // Resource name, e.g. "models/gemini-2.5-flash"
+  baseModelId?: string;                 // Base model ID
+  version?: string;                     // Model version
+  displayName?: string;                 // Human readable name
+  description?: string;                 // Short description
+  inputTokenLimit?: number;             // Maximum input tokens
+  outputTokenLimit?: number;            // Maximum output tokens
+  supportedGenerationMethods?: string[]; // Supported methods, e.g. "generateContent"
+  temperature?: number;                 // Default temperature
+  maxTemperature?: number;              // Maximum allowed temperature
+  topP?: number;                        // Default topP
+  topK?: number;                        // Default topK
+  thinking?: boolean;                   // Whether the model supports thinking
+}
+
+/**
+ * Response body of the REST models.list endpoint
+ */
+export interface ListModelsResponse {
+  models?: GeminiModel[];
+  nextPageToken?: string;
+}
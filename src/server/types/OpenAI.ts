@@ -0,0 +1,166 @@
+/**
+ * Content part of an OpenAI chat message
+ */
+export interface OpenAIContentPart {
+  type: 'text' | 'image_url' | string;
+  text?: string;
+  image_url?: { url: string; detail?: string };
+}
+
+/**
+ * Tool call emitted by the assistant
+ */
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;                  // JSON encoded arguments
+  };
+}
+
+/**
+ * Message in an OpenAI chat completion request
+ */
+export interface OpenAIChatMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+  content?: string | OpenAIContentPart[] | null;
+  name?: string;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;                // Set on role "tool" messages
+}
+
+/**
+ * Function tool definition
+ */
+export interface OpenAITool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>; // JSON Schema
+  };
+}
+
+/**
+ * OpenAI chat completion request body
+ */
+export interface OpenAIChatCompletionRequest {
+  model: string;
+  messages: OpenAIChatMessage[];
+  temperature?: number;
+  top_p?: number;
+  n?: number;
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  stop?: string | string[];
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  seed?: number;
+  tools?: OpenAITool[];
+  tool_choice?: 'none' | 'auto' | 'required' | { type: 'function'; function: { name: string } };
+  response_format?: {
+    type: 'text' | 'json_object' | 'json_schema';
+    json_schema?: { name?: string; schema?: Record<string, unknown> };
+  };
+}
+
+/**
+ * Token usage reported in OpenAI responses
+ */
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * OpenAI chat completion response body
+ */
+export interface OpenAIChatCompletion {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    message: {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+    finish_reason: string | null;
+  }[];
+  usage?: OpenAIUsage;
+}
+
+/**
+ * OpenAI chat completion stream chunk
+ */
+export interface OpenAIChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    delta: {
+      role?: 'assistant';
+      content?: string;
+      tool_calls?: (OpenAIToolCall & { index: number })[];
+    };
+    finish_reason: string | null;
+  }[];
+  usage?: OpenAIUsage | null;
+}
+
+/**
+ * OpenAI error response body
+ */
+export interface OpenAIErrorResponse {
+  error: {
+    message: string;
+    type: string;
+    param: string | null;
+    code: string | null;
+  };
+}
+
+/**
+ * OpenAI embeddings request body
+ */
+export interface OpenAIEmbeddingRequest {
+  model: string;
+  input: string | string[];
+  encoding_format?: 'float' | 'base64';
+  dimensions?: number;
+}
+
+/**
+ * OpenAI embeddings response body
+ */
+export interface OpenAIEmbeddingResponse {
+  object: 'list';
+  data: {
+    object: 'embedding';
+    index: number;
+    embedding: number[] | string;       // base64 string when encoding_format is "base64"
+  }[];
+  model: string;
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * Model entry returned by the OpenAI models endpoints
+ */
+export interface OpenAIModel {
+  id: string;
+  object: 'model';
+  created: number;
+  owned_by: string;
+}
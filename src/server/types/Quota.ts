@@ -0,0 +1,31 @@
+/**
+ * Rate limits of one model in a quota profile (omitted limits are not enforced)
+ */
+export interface QuotaLimits {
+  rpm?: number;                         // Requests per minute
+  tpm?: number;                         // Tokens per minute
+  rpd?: number;                         // Requests per day
+}
+
+/**
+ * Quota profile: limits per model, matched by the longest model ID prefix ("*" matches every model)
+ */
+export type QuotaProfile = Record<string, QuotaLimits>;
+
+/**
+ * Usage counters of one key×model pair (persisted with the key status)
+ */
+export interface QuotaUsage {
+  requests: number[];                   // Timestamps of requests sent in the last minute
+  tokens: { time: number; count: number }[]; // Tokens consumed in the last minute
+  dailyRequests: number;                // Requests sent since the last daily reset
+  dailyResetAt: number;                 // Timestamp of the next daily quota reset
+}
+
+/**
+ * Token bucket pacing the requests of one key×model pair (kept in memory)
+ */
+export interface PacingBucket {
+  tokens: number;                       // Requests that may start now; negative while requests are reserved ahead
+  updatedAt: number;                    // Timestamp of the last refill
+}
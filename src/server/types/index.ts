@@ -1,2 +1,9 @@
 export * from './ApiKey';
-export * from './Proxy';
\ No newline at end of file
+export * from './Proxy';
+export * from './Model';
+export * from './Gemini';
+export * from './OpenAI';
+export * from './Anthropic';
+export * from './Quota';
+export * from './KeyRouting';
+export * from './ClientToken';
@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+import { AnthropicTranslator } from '../server/core/AnthropicTranslator';
+import { AnthropicMessagesRequest } from '../server/types';
+
+describe('AnthropicTranslator', () => {
+  describe('toGeminiRequest', () => {
+    it('should map the system prompt and sampling parameters', () => {
+      const request: AnthropicMessagesRequest = {
+        model: 'gemini-2.5-flash',
+        system: [{ type: 'text', text: 'You are helpful.' }],
+        messages: [{ role: 'user', content: 'Hello' }],
+        max_tokens: 256,
+        top_k: 40,
+        stop_sequences: ['END']
+      };
+
+      const result = AnthropicTranslator.toGeminiRequest(request);
+
+      assert.deepStrictEqual(result.contents, [{ role: 'user', parts: [{ text: 'Hello' }] }]);
+      assert.deepStrictEqual(result.config.systemInstruction, { parts: [{ text: 'You are helpful.' }] });
+      assert.strictEqual(result.config.maxOutputTokens, 256);
+      assert.strictEqual(result.config.topK, 40);
+      assert.deepStrictEqual(result.config.stopSequences, ['END']);
+    });
+
+    it('should map tool_use and tool_result blocks to function parts', () => {
+      const request: AnthropicMessagesRequest = {
+        model: 'gemini-2.5-flash',
+        messages: [
+          { role: 'user', content: 'Weather in Paris?' },
+          { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } }] },
+          { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'timeout' }], is_error: true }] }
+        ],
+        tools: [{ name: 'get_weather', input_schema: { type: 'object', properties: { city: { type: 'string' } } } }],
+        tool_choice: { type: 'tool', name: 'get_weather' }
+      };
+
+      const result = AnthropicTranslator.toGeminiRequest(request);
+
+      assert.deepStrictEqual(result.contents[1], {
+        role: 'model',
+        parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }]
+      });
+      assert.deepStrictEqual(result.contents[2], {
+        role: 'user',
+        parts: [{ functionResponse: { name: 'get_weather', response: { error: 'timeout' } } }]
+      });
+      assert.deepStrictEqual(result.config.toolConfig, { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['get_weather'] } });
+    });
+
+    it('should convert base64 images to inline data', () => {
+      const result = AnthropicTranslator.toGeminiRequest({
+        model: 'gemini-2.5-flash',
+        messages: [{ role: 'user', content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } }] }]
+      });
+
+      assert.deepStrictEqual(result.contents[0].parts[0], { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } });
+    });
+  });
+
+  describe('toMessagesResponse', () => {
+    it('should map text, tool use and usage', () => {
+      const response = AnthropicTranslator.toMessagesResponse({
+        candidates: [{
+          content: { role: 'model', parts: [{ text: 'Checking.' }, { functionCall: { id: 'fc_1', name: 'get_weather', args: { city: 'Paris' } } }] },
+          finishReason: 'STOP'
+        }],
+        usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 2, thoughtsTokenCount: 3 }
+      }, 'gemini-2.5-flash', 'msg_1');
+
+      assert.deepStrictEqual(response.content, [
+        { type: 'text', text: 'Checking.' },
+        { type: 'tool_use', id: 'fc_1', name: 'get_weather', input: { city: 'Paris' } }
+      ]);
+      assert.strictEqual(response.stop_reason, 'tool_use');
+      assert.deepStrictEqual(response.usage, { input_tokens: 5, output_tokens: 5 });
+    });
+  });
+
+  describe('streaming', () => {
+    it('should emit the Messages event sequence', () => {
+      const state = AnthropicTranslator.createStreamState('gemini-2.5-flash', 'msg_2');
+
+      const events = [
+        ...AnthropicTranslator.toStreamEvents({ candidates: [{ content: { parts: [{ text: 'Hel' }] } }] }, state),
+        ...AnthropicTranslator.toStreamEvents({
+          candidates: [{ content: { parts: [{ text: 'lo' }] }, finishReason: 'MAX_TOKENS' }],
+          usageMetadata: { promptTokenCount: 1, candidatesTokenCount: 2 }
+        }, state),
+        ...AnthropicTranslator.toFinalEvents(state)
+      ];
+
+      assert.deepStrictEqual(events.map(event => event.type), [
+        'message_start',
+        'content_block_start',
+        'content_block_delta',
+        'content_block_delta',
+        'content_block_stop',
+        'message_delta',
+        'message_stop'
+      ]);
+      assert.deepStrictEqual(events[5], {
+        type: 'message_delta',
+        delta: { stop_reason: 'max_tokens', stop_sequence: null },
+        usage: { output_tokens: 2 }
+      });
+    });
+
+    it('should close the text block before a tool_use block', () => {
+      const state = AnthropicTranslator.createStreamState('gemini-2.5-flash', 'msg_3');
+
+      const events = AnthropicTranslator.toStreamEvents({
+        candidates: [{ content: { parts: [{ text: 'Let me check.' }, { functionCall: { name: 'get_weather', args: { city: 'Paris' } } }] } }]
+      }, state);
+
+      assert.deepStrictEqual(events.slice(3).map(event => [event.type, event.index]), [
+        ['content_block_stop', 0],
+        ['content_block_start', 1],
+        ['content_block_delta', 1],
+        ['content_block_stop', 1]
+      ]);
+      assert.deepStrictEqual(events[5].delta, { type: 'input_json_delta', partial_json: '{"city":"Paris"}' });
+      assert.deepStrictEqual(AnthropicTranslator.toFinalEvents(state)[0].delta, { stop_reason: 'tool_use', stop_sequence: null });
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import ApiKeyManager from '../server/core/ApiKeyManager';
+import { EventManager } from '../server/core/EventManager';
+import config from '../server/config';
+
+// Mock VS Code extension context that keeps stored key status in memory
+function createMockContext(store: Map<string, string>): vscode.ExtensionContext {
+  return {
+    secrets: {
+      store: async (key: string, value: string) => { store.set(key, value); },
+      get: async (key: string) => store.get(key),
+      delete: async (key: string) => { store.delete(key); }
+    },
+    subscriptions: []
+  } as unknown as vscode.ExtensionContext;
+}
+
+describe('ApiKeyManager cooldown backoff', () => {
+  const originalConfig = { ...config };
+  let store: Map<string, string>;
+  let apiKeyManager: ApiKeyManager;
+
+  beforeEach(async () => {
+    config.COOL_DOWN_BACKOFF_MULTIPLIER = 2;
+    config.COOL_DOWN_MAX_DURATION_MS = 8000;
+    config.COOL_DOWN_ESCALATION_WINDOW_MS = 60000;
+    config.COOL_DOWN_DECAY_SUCCESSES = 2;
+    store = new Map();
+    apiKeyManager = new ApiKeyManager([], new EventManager(), createMockContext(store));
+    await apiKeyManager.loadKeys([{ key: 'api_key_1', keyId: 'key1', status: 'available', currentRequests: 0 }]);
+  });
+
+  afterEach(() => {
+    Object.assign(config, originalConfig);
+  });
+
+  function getKey() {
+    return apiKeyManager.getAllKeys()[0];
+  }
+
+  function getCoolDownMs(): number {
+    return getKey().coolingDownUntil! - Date.now();
+  }
+
+  // Let the current cooldown run out
+  function endCoolDown(): void {
+    getKey().coolingDownUntil = getKey().lastCoolDownUntil = Date.now();
+  }
+
+  it('should multiply the cooldown for successive rate limits up to the cap', async () => {
+    const durations: number[] = [];
+    for (let i = 0; i < 5; i++) {
+      await apiKeyManager.markAsCoolingDown('api_key_1', 1000);
+      durations.push(getCoolDownMs());
+      endCoolDown();
+    }
+
+    assert.deepStrictEqual(durations.map(ms => Math.round(ms / 1000)), [1, 2, 4, 8, 8]);
+    assert.strictEqual(getKey().coolDownLevel, 4);
+  });
+
+  it('should count concurrent rate limits from one burst once', async () => {
+    await Promise.all([1, 2, 3, 4].map(() => apiKeyManager.markAsCoolingDown('api_key_1', 1000)));
+
+    assert.strictEqual(getKey().coolDownLevel, 0);
+    assert.strictEqual(Math.round(getCoolDownMs() / 1000), 1);
+
+    endCoolDown();
+    await apiKeyManager.markAsCoolingDown('api_key_1', 1000);
+    assert.strictEqual(getKey().coolDownLevel, 1);
+  });
+
+  it('should start over when the previous cooldown ended outside the escalation window', async () => {
+    await apiKeyManager.markAsCoolingDown('api_key_1', 1000);
+    endCoolDown();
+    await apiKeyManager.markAsCoolingDown('api_key_1', 1000);
+    endCoolDown();
+    getKey().lastCoolDownUntil = Date.now() - config.COOL_DOWN_ESCALATION_WINDOW_MS - 1;
+
+    await apiKeyManager.markAsCoolingDown('api_key_1', 1000);
+
+    assert.strictEqual(getKey().coolDownLevel, 0);
+    assert.strictEqual(Math.round(getCoolDownMs() / 1000), 1);
+  });
+
+  it('should lower the backoff level after sustained success', async () => {
+    await apiKeyManager.markAsCoolingDown('api_key_1', 1000);
+    endCoolDown();
+    await apiKeyManager.markAsCoolingDown('api_key_1', 1000);
+    await apiKeyManager.markAsAvailable('api_key_1');
+
+    await apiKeyManager.recordSuccess('api_key_1');
+    assert.strictEqual(getKey().coolDownLevel, 1);
+    await apiKeyManager.recordSuccess('api_key_1');
+    assert.strictEqual(getKey().coolDownLevel, 0);
+  });
+
+  it('should persist the backoff level with the key status', async () => {
+    await apiKeyManager.markAsCoolingDown('api_key_1', 1000);
+    endCoolDown();
+    await apiKeyManager.markAsCoolingDown('api_key_1', 1000);
+
+    const stored = JSON.parse(store.get('apiKeyStatus_key1')!);
+    assert.strictEqual(stored.coolDownLevel, 1);
+    assert.strictEqual(stored.lastCoolDownUntil, getKey().coolingDownUntil);
+
+    await apiKeyManager.loadKeys([{ key: 'api_key_1', keyId: 'key1', status: 'available', currentRequests: 0 }]);
+    assert.strictEqual(getKey().coolDownLevel, 1);
+  });
+});
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import ApiKeyManager from '../server/core/ApiKeyManager';
+import { EventManager } from '../server/core/EventManager';
+import config from '../server/config';
+
+// Mock VS Code extension context counting status writes, optionally failing them
+function createMockContext(store: Map<string, string>, writes: string[], failWrites: () => boolean): vscode.ExtensionContext {
+  return {
+    secrets: {
+      store: async (key: string, value: string) => {
+        writes.push(key);
+        if (failWrites()) {
+          throw new Error('SecretStorage unavailable');
+        }
+        store.set(key, value);
+      },
+      get: async (key: string) => store.get(key),
+      delete: async (key: string) => { store.delete(key); }
+    },
+    subscriptions: []
+  } as unknown as vscode.ExtensionContext;
+}
+
+describe('ApiKeyManager quota persistence', () => {
+  const originalDelay = config.QUOTA_SAVE_DELAY_MS;
+  const originalProfile = config.QUOTA_PROFILE;
+  let store: Map<string, string>;
+  let writes: string[];
+  let failWrites: boolean;
+  let apiKeyManager: ApiKeyManager;
+
+  beforeEach(async () => {
+    config.QUOTA_SAVE_DELAY_MS = 20;
+    store = new Map();
+    writes = [];
+    failWrites = false;
+    apiKeyManager = new ApiKeyManager([], new EventManager(), createMockContext(store, writes, () => failWrites));
+    await apiKeyManager.loadKeys([{ key: 'api_key_1', keyId: 'key1', status: 'available', currentRequests: 0 }]);
+    writes.length = 0;
+  });
+
+  afterEach(() => {
+    config.QUOTA_SAVE_DELAY_MS = originalDelay;
+    config.QUOTA_PROFILE = originalProfile;
+  });
+
+  function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  it('should save several quota updates in one write', async () => {
+    apiKeyManager.recordQuotaRequest('api_key_1', 'gemini-2.5-flash');
+    apiKeyManager.recordQuotaRequest('api_key_1', 'gemini-2.5-flash');
+    apiKeyManager.recordQuotaTokens('api_key_1', 'gemini-2.5-flash', 500);
+    assert.deepStrictEqual(writes, []);
+
+    await wait(50);
+
+    assert.deepStrictEqual(writes, ['apiKeyStatus_key1']);
+    const usage = JSON.parse(store.get('apiKeyStatus_key1')!).quotaUsage['gemini-2.5-flash'];
+    assert.strictEqual(usage.requests.length, 2);
+  });
+
+  it('should derive the usage history from the quota counters', async () => {
+    config.QUOTA_PROFILE = 'free_tier';
+    apiKeyManager.recordQuotaRequest('api_key_1', 'gemini-2.5-flash');
+    apiKeyManager.recordQuotaRequest('api_key_1', 'gemini-2.5-pro');
+
+    assert.deepStrictEqual(apiKeyManager.getAllKeys()[0].usedHistory?.map(entry => entry.rate), [10, 5]);
+    assert.deepStrictEqual(writes, []);
+  });
+
+  it('should not write again when another status change already saved the usage', async () => {
+    apiKeyManager.recordQuotaRequest('api_key_1', 'gemini-2.5-flash');
+    await apiKeyManager.markAsCoolingDown('api_key_1', 1000);
+
+    await wait(50);
+
+    assert.deepStrictEqual(writes, ['apiKeyStatus_key1']);
+  });
+
+  it('should log failed writes instead of rejecting', async () => {
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on('unhandledRejection', onUnhandled);
+    failWrites = true;
+    try {
+      apiKeyManager.recordQuotaRequest('api_key_1', 'gemini-2.5-flash');
+      await wait(50);
+    } finally {
+      process.off('unhandledRejection', onUnhandled);
+    }
+
+    assert.deepStrictEqual(writes, ['apiKeyStatus_key1']);
+    assert.deepStrictEqual(unhandled, []);
+  });
+});
@@ -0,0 +1,140 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { Request, Response } from 'express';
+import ClientTokenManager from '../server/core/ClientTokenManager';
+import createClientAuthMiddleware, { getClientToken, isEndpointUnauthenticated } from '../server/middlewares/clientAuth';
+import config from '../server/config';
+import { CLIENT_TOKEN_STORAGE_KEY } from '../server/types/ClientToken';
+
+// Mock VS Code extension context that keeps stored tokens in memory
+function createMockContext(store: Map<string, string>): vscode.ExtensionContext {
+  return {
+    secrets: {
+      store: async (key: string, value: string) => { store.set(key, value); },
+      get: async (key: string) => store.get(key),
+      delete: async (key: string) => { store.delete(key); },
+      onDidChange: () => ({ dispose() {} })
+    },
+    subscriptions: []
+  } as unknown as vscode.ExtensionContext;
+}
+
+function createRequest(headers: Record<string, string> = {}, query: Record<string, string> = {}): Request {
+  return { method: 'POST', path: '/v1beta/models/gemini-2.5-flash:generateContent', headers, query } as unknown as Request;
+}
+
+// Mock response recording the status and JSON body
+function createResponse() {
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) { res.statusCode = code; return res; },
+    json(body: unknown) { res.body = body; return res; }
+  };
+  return res;
+}
+
+function runMiddleware(manager: ClientTokenManager, req: Request) {
+  const res = createResponse();
+  let nextCalled = false;
+  createClientAuthMiddleware(manager)(req, res as unknown as Response, () => { nextCalled = true; });
+  return { res, nextCalled };
+}
+
+describe('ClientAuth', () => {
+  const originalRequireClientToken = config.REQUIRE_CLIENT_TOKEN;
+  let store: Map<string, string>;
+  let manager: ClientTokenManager;
+
+  beforeEach(async () => {
+    store = new Map();
+    manager = new ClientTokenManager(createMockContext(store));
+    await manager.initialize();
+  });
+
+  afterEach(() => {
+    config.REQUIRE_CLIENT_TOKEN = originalRequireClientToken;
+  });
+
+  it('should create, verify and revoke tokens', async () => {
+    const { token, clientToken } = await manager.createToken('cline');
+
+    assert.ok(token.startsWith('gka-'));
+    assert.strictEqual(manager.verifyToken(token)?.id, clientToken.id);
+    assert.strictEqual(manager.verifyToken('gka-unknown'), undefined);
+    assert.ok(!store.get(CLIENT_TOKEN_STORAGE_KEY)!.includes(token), 'only the hash should be stored');
+
+    assert.ok(await manager.revokeToken(clientToken.id));
+    assert.strictEqual(manager.verifyToken(token), undefined);
+    assert.ok(!manager.hasTokens());
+    assert.ok(!(await manager.revokeToken(clientToken.id)));
+  });
+
+  it('should load stored tokens', async () => {
+    const { token } = await manager.createToken('ci-bot');
+
+    const reloaded = new ClientTokenManager(createMockContext(store));
+    await reloaded.initialize();
+
+    assert.strictEqual(reloaded.verifyToken(token)?.label, 'ci-bot');
+  });
+
+  it('should leave the endpoint open until a token is issued', () => {
+    const { res, nextCalled } = runMiddleware(manager, createRequest());
+
+    assert.ok(nextCalled);
+    assert.strictEqual(res.statusCode, 200);
+  });
+
+  it('should reject every request while requireClientToken is on and no token is issued', async () => {
+    config.REQUIRE_CLIENT_TOKEN = true;
+
+    const { res, nextCalled } = runMiddleware(manager, createRequest({ 'x-goog-api-key': 'gka-unknown' }));
+
+    assert.ok(!nextCalled);
+    assert.strictEqual(res.statusCode, 401);
+    assert.ok(!isEndpointUnauthenticated(manager));
+  });
+
+  it('should notify listeners when tokens change', async () => {
+    const states: boolean[] = [];
+    const subscription = manager.onDidChangeTokens(() => states.push(isEndpointUnauthenticated(manager)));
+
+    const { clientToken } = await manager.createToken('cline');
+    await manager.revokeToken(clientToken.id);
+    subscription.dispose();
+    await manager.createToken('ci-bot');
+
+    assert.deepStrictEqual(states, [false, true]);
+  });
+
+  it('should reject missing and unknown tokens with a Gemini-style 401', async () => {
+    await manager.createToken('cline');
+
+    const missing = runMiddleware(manager, createRequest());
+    const unknown = runMiddleware(manager, createRequest({ 'x-goog-api-key': 'gka-unknown' }));
+
+    for (const { res, nextCalled } of [missing, unknown]) {
+      assert.ok(!nextCalled);
+      assert.strictEqual(res.statusCode, 401);
+      assert.strictEqual(res.body.error.code, 401);
+      assert.strictEqual(res.body.error.status, 'UNAUTHENTICATED');
+    }
+  });
+
+  it('should accept tokens from headers, Bearer and the key query parameter', async () => {
+    const { token } = await manager.createToken('cline');
+
+    const requests = [
+      createRequest({ 'x-goog-api-key': token }),
+      createRequest({ 'x-api-key': token }),
+      createRequest({ authorization: `Bearer ${token}` }),
+      createRequest({}, { key: token })
+    ];
+
+    for (const req of requests) {
+      assert.strictEqual(getClientToken(req), token);
+      assert.ok(runMiddleware(manager, req).nextCalled);
+    }
+  });
+});
@@ -0,0 +1,212 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import GoogleApiForwarder, { RawForwardResponse } from '../server/core/GoogleApiForwarder';
+import { ApiKey } from '../server/types/ApiKey';
+
+const apiKey: ApiKey = { key: 'api_key_1', keyId: 'key1', status: 'available', currentRequests: 0 };
+
+interface UpstreamRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+type UpstreamHandler = (request: UpstreamRequest, res: http.ServerResponse) => void;
+
+// Local stand-in for the Gemini REST API recording every request it receives
+class FakeGeminiServer {
+  public requests: UpstreamRequest[] = [];
+  private server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      const request = { url: req.url || '', headers: req.headers, body: text ? JSON.parse(text) : undefined };
+      this.requests.push(request);
+      this.handler(request, res);
+    });
+  });
+
+  constructor(public handler: UpstreamHandler) {}
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+}
+
+async function readBody(raw: RawForwardResponse): Promise<string> {
+  if (Buffer.isBuffer(raw.body)) {
+    return raw.body.toString('utf8');
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of raw.body as AsyncIterable<Buffer>) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+describe('GoogleApiForwarder', () => {
+  let upstream: FakeGeminiServer;
+  let forwarder: GoogleApiForwarder;
+
+  beforeEach(async () => {
+    upstream = new FakeGeminiServer((_request, res) => sendJson(res, 200, {}));
+    forwarder = new GoogleApiForwarder();
+    forwarder.setApiBaseUrl(await upstream.start());
+  });
+
+  afterEach(async () => {
+    await upstream.stop();
+  });
+
+  describe('countTokens', () => {
+    it('should forward the full generateContentRequest', async () => {
+      upstream.handler = (_request, res) => sendJson(res, 200, { totalTokens: 42 });
+      const generateContentRequest = {
+        contents: [{ role: 'user', parts: [{ text: 'hello' }] }],
+        systemInstruction: { parts: [{ text: 'be brief' }] },
+        tools: [{ functionDeclarations: [{ name: 'lookup' }] }]
+      };
+
+      const result = await forwarder.forwardRequest('gemini-2.5-flash', 'countTokens', { generateContentRequest }, apiKey);
+
+      assert.deepStrictEqual(result.response, { totalTokens: 42 });
+      assert.strictEqual(upstream.requests[0].url, '/v1beta/models/gemini-2.5-flash:countTokens');
+      assert.strictEqual(upstream.requests[0].headers['x-goog-api-key'], 'api_key_1');
+      assert.deepStrictEqual(upstream.requests[0].body, { generateContentRequest: { ...generateContentRequest, model: 'models/gemini-2.5-flash' } });
+    });
+
+    it('should wrap a system instruction sent next to contents and pass plain contents through', async () => {
+      const contents = [{ role: 'user', parts: [{ text: 'hello' }] }];
+      const systemInstruction = { parts: [{ text: 'be brief' }] };
+
+      await forwarder.forwardRequest('gemini-2.5-flash', 'countTokens', { contents, config: { systemInstruction } }, apiKey);
+      await forwarder.forwardRequest('gemini-2.5-flash', 'countTokens', { contents }, apiKey);
+
+      assert.deepStrictEqual(upstream.requests[0].body, {
+        generateContentRequest: { model: 'models/gemini-2.5-flash', contents, systemInstruction }
+      });
+      assert.deepStrictEqual(upstream.requests[1].body, { contents });
+    });
+
+    it('should return upstream errors', async () => {
+      upstream.handler = (_request, res) => sendJson(res, 400, { error: { code: 400, message: 'bad contents', status: 'INVALID_ARGUMENT' } });
+
+      const result = await forwarder.forwardRequest('gemini-2.5-flash', 'countTokens', { contents: [] }, apiKey);
+
+      assert.strictEqual(result.error?.statusCode, 400);
+      assert.match(result.error?.message || '', /bad contents/);
+    });
+  });
+
+  describe('embeddings', () => {
+    // Each embedding carries the text it was computed from, so the order can be checked
+    beforeEach(() => {
+      upstream.handler = (request, res) => sendJson(res, 200, {
+        embeddings: request.body.requests.map((item: any) => ({ values: [item.content.parts[0].text.charCodeAt(0)] }))
+      });
+    });
+
+    function embedRequest(text: string, fields: Record<string, unknown> = {}) {
+      return { model: 'models/gemini-embedding-001', content: { parts: [{ text }] }, ...fields };
+    }
+
+    it('should forward embedContent with its task type', async () => {
+      const result = await forwarder.forwardRequest('gemini-embedding-001', 'embedContent', embedRequest('a', { taskType: 'RETRIEVAL_QUERY' }), apiKey);
+
+      assert.deepStrictEqual(result.response, { embedding: { values: [97] } });
+      assert.strictEqual(upstream.requests[0].body.requests[0].taskType, 'RETRIEVAL_QUERY');
+    });
+
+    it('should group batch items by their config and keep the original order', async () => {
+      const requests = [
+        embedRequest('a', { taskType: 'RETRIEVAL_DOCUMENT', title: 'first' }),
+        embedRequest('b', { taskType: 'RETRIEVAL_QUERY' }),
+        embedRequest('c', { taskType: 'RETRIEVAL_DOCUMENT', title: 'first' })
+      ];
+
+      const result = await forwarder.forwardRequest('gemini-embedding-001', 'batchEmbedContents', { requests }, apiKey);
+
+      assert.deepStrictEqual(result.response, { embeddings: [{ values: [97] }, { values: [98] }, { values: [99] }] });
+      assert.deepStrictEqual(upstream.requests.map(request => request.body.requests.map((item: any) => [item.taskType, item.title])), [
+        [['RETRIEVAL_DOCUMENT', 'first'], ['RETRIEVAL_DOCUMENT', 'first']],
+        [['RETRIEVAL_QUERY', undefined]]
+      ]);
+    });
+
+    it('should reject batch items for another model', async () => {
+      const requests = [embedRequest('a'), { ...embedRequest('b'), model: 'models/text-embedding-004' }];
+
+      const result = await forwarder.forwardRequest('gemini-embedding-001', 'batchEmbedContents', { requests }, apiKey);
+
+      assert.strictEqual(result.error?.statusCode, 400);
+      assert.match(result.error?.message || '', /text-embedding-004/);
+      assert.strictEqual(upstream.requests.length, 0);
+    });
+  });
+
+  describe('forwardRawRequest', () => {
+    it('should relay the status, headers and body of the upstream response', async () => {
+      upstream.handler = (_request, res) => {
+        res.writeHead(200, { 'content-type': 'application/json; charset=UTF-8', 'x-goog-upstream': 'yes' });
+        res.end('{"candidates":[]}');
+      };
+
+      const result = await forwarder.forwardRawRequest('gemini-2.5-flash', 'generateContent', '{"contents":[]}', apiKey, '?alt=json');
+
+      assert.strictEqual(result.error, undefined);
+      assert.strictEqual(result.raw?.status, 200);
+      assert.deepStrictEqual(result.raw?.headers['x-goog-upstream'], ['yes']);
+      assert.strictEqual(await readBody(result.raw!), '{"candidates":[]}');
+      assert.deepStrictEqual(upstream.requests[0].body, { contents: [] });
+    });
+
+    it('should drop the client key query parameter and authenticate with the selected key', async () => {
+      await forwarder.forwardRawRequest('gemini-2.5-flash', 'generateContent', '{}', apiKey, '?alt=json&key=client-token');
+
+      assert.strictEqual(upstream.requests[0].url, '/v1beta/models/gemini-2.5-flash:generateContent?alt=json');
+      assert.strictEqual(upstream.requests[0].headers['x-goog-api-key'], 'api_key_1');
+    });
+
+    it('should return the upstream error body together with the error', async () => {
+      const errorBody = '{"error":{"code":429,"message":"quota exceeded","status":"RESOURCE_EXHAUSTED"}}';
+      upstream.handler = (_request, res) => {
+        res.writeHead(429, { 'content-type': 'application/json', 'retry-after': '7' });
+        res.end(errorBody);
+      };
+
+      const result = await forwarder.forwardRawRequest('gemini-2.5-flash', 'generateContent', '{}', apiKey);
+
+      assert.strictEqual(result.raw?.status, 429);
+      assert.strictEqual(await readBody(result.raw!), errorBody);
+      assert.strictEqual(result.error?.statusCode, 429);
+      assert.ok(result.error?.isRateLimitError);
+      assert.strictEqual(result.error?.retryDelayMs, 7000);
+    });
+
+    it('should relay a streaming response once the first chunk arrives', async () => {
+      upstream.handler = (_request, res) => {
+        res.writeHead(200, { 'content-type': 'text/event-stream' });
+        res.write('data: {"candidates":[]}\r\n\r\n');
+        setTimeout(() => res.end('data: {"usageMetadata":{"totalTokenCount":3}}\r\n\r\n'), 10);
+      };
+
+      const result = await forwarder.forwardRawRequest('gemini-2.5-flash', 'streamGenerateContent', '{}', apiKey, '?alt=sse');
+
+      assert.strictEqual(result.raw?.status, 200);
+      assert.strictEqual(await readBody(result.raw!), 'data: {"candidates":[]}\r\n\r\ndata: {"usageMetadata":{"totalTokenCount":3}}\r\n\r\n');
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { getNextDailyQuotaReset, parseGoogleErrorBody, parseRetryAfter } from '../server/core/GoogleErrorDetails';
+
+function quotaError(quotaId: string, retryDelay?: string): object {
+  const details: object[] = [{
+    '@type': 'type.googleapis.com/google.rpc.QuotaFailure',
+    violations: [{ quotaMetric: 'generativelanguage.googleapis.com/generate_content_free_tier_requests', quotaId, quotaValue: '10' }]
+  }];
+  if (retryDelay) {
+    details.push({ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay });
+  }
+  return { error: { code: 429, message: 'You exceeded your current quota.', status: 'RESOURCE_EXHAUSTED', details } };
+}
+
+describe('GoogleErrorDetails', () => {
+  it('should read the RetryInfo delay and per-minute quota violations', () => {
+    const details = parseGoogleErrorBody(quotaError('GenerateRequestsPerMinutePerProjectPerModel-FreeTier', '37s'));
+
+    assert.strictEqual(details.message, 'You exceeded your current quota.');
+    assert.strictEqual(details.retryDelayMs, 37000);
+    assert.strictEqual(details.quotaViolations.length, 1);
+    assert.strictEqual(details.isDailyQuotaExceeded, false);
+  });
+
+  it('should detect an exhausted daily quota', () => {
+    const details = parseGoogleErrorBody(quotaError('GenerateRequestsPerDayPerProjectPerModel-FreeTier'));
+
+    assert.strictEqual(details.isDailyQuotaExceeded, true);
+    assert.strictEqual(details.retryDelayMs, undefined);
+  });
+
+  it('should parse the JSON body embedded in an SDK error message', () => {
+    const message = `got status: 429 Too Many Requests. ${JSON.stringify(quotaError('PerMinute', '1.5s'))}`;
+
+    assert.strictEqual(parseGoogleErrorBody(message).retryDelayMs, 1500);
+    assert.deepStrictEqual(parseGoogleErrorBody('socket hang up'), { quotaViolations: [], isDailyQuotaExceeded: false });
+  });
+
+  it('should read the ErrorInfo reason', () => {
+    const details = parseGoogleErrorBody({
+      error: {
+        code: 400,
+        message: 'API key not valid. Please pass a valid API key.',
+        status: 'INVALID_ARGUMENT',
+        details: [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'API_KEY_INVALID', domain: 'googleapis.com' }]
+      }
+    });
+
+    assert.strictEqual(details.errorReason, 'API_KEY_INVALID');
+  });
+
+  it('should parse Retry-After as seconds or an HTTP date', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+
+    assert.strictEqual(parseRetryAfter('30', now), 30000);
+    assert.strictEqual(parseRetryAfter('Wed, 01 Jan 2025 00:01:00 GMT', now), 60000);
+    assert.strictEqual(parseRetryAfter(null, now), undefined);
+  });
+
+  it('should compute the next midnight Pacific time', () => {
+    // 2025-01-15 10:30 PST = 18:30 UTC
+    const now = Date.parse('2025-01-15T18:30:00Z');
+
+    assert.strictEqual(new Date(getNextDailyQuotaReset(now)).toISOString(), '2025-01-16T08:00:00.000Z');
+  });
+});
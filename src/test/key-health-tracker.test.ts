@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import config from '../server/config';
+import {
+  beginCircuitAttempt,
+  createKeyHealth,
+  isCircuitAllowing,
+  recordKeyOutcome
+} from '../server/core/KeyHealthTracker';
+
+describe('KeyHealthTracker', () => {
+  const originalConfig = { ...config };
+
+  beforeEach(() => {
+    config.CIRCUIT_BREAKER_FAILURE_THRESHOLD = 3;
+    config.CIRCUIT_BREAKER_ERROR_RATE = 0.5;
+    config.CIRCUIT_BREAKER_MIN_REQUESTS = 10;
+    config.CIRCUIT_BREAKER_OPEN_DURATION_MS = 30000;
+    config.KEY_HEALTH_WINDOW_MS = 300000;
+  });
+
+  afterEach(() => {
+    Object.assign(config, originalConfig);
+  });
+
+  it('should open the circuit after consecutive failures', () => {
+    const health = createKeyHealth();
+    const now = 1000000;
+
+    assert.strictEqual(recordKeyOutcome(health, false, 100, now), 'closed');
+    assert.strictEqual(recordKeyOutcome(health, false, 100, now), 'closed');
+    assert.strictEqual(recordKeyOutcome(health, false, 100, now), 'open');
+    assert.strictEqual(isCircuitAllowing(health, now + 1000), false);
+    assert.ok(health.score < 0.5);
+  });
+
+  it('should open the circuit when the error rate crosses the threshold', () => {
+    const health = createKeyHealth();
+    const now = 1000000;
+
+    for (let i = 0; i < 5; i++) {
+      recordKeyOutcome(health, true, 100, now);
+      recordKeyOutcome(health, false, 100, now);
+    }
+
+    assert.strictEqual(health.errorRate, 0.5);
+    assert.strictEqual(health.circuitState, 'open');
+  });
+
+  it('should admit a single trial request once the open duration has passed', () => {
+    const health = createKeyHealth();
+    const now = 1000000;
+    for (let i = 0; i < 3; i++) {
+      recordKeyOutcome(health, false, 100, now);
+    }
+
+    const later = now + config.CIRCUIT_BREAKER_OPEN_DURATION_MS;
+    assert.strictEqual(isCircuitAllowing(health, later), true);
+    assert.strictEqual(beginCircuitAttempt(health, later), 'half_open');
+    assert.strictEqual(isCircuitAllowing(health, later), false);
+
+    assert.strictEqual(recordKeyOutcome(health, true, 100, later), 'closed');
+    assert.strictEqual(isCircuitAllowing(health, later), true);
+    assert.strictEqual(health.errorRate, 0);
+  });
+
+  it('should reopen the circuit when the trial request fails', () => {
+    const health = createKeyHealth();
+    const now = 1000000;
+    for (let i = 0; i < 3; i++) {
+      recordKeyOutcome(health, false, 100, now);
+    }
+
+    const later = now + config.CIRCUIT_BREAKER_OPEN_DURATION_MS;
+    beginCircuitAttempt(health, later);
+
+    assert.strictEqual(recordKeyOutcome(health, false, 100, later), 'open');
+    assert.strictEqual(health.circuitOpenUntil, later + config.CIRCUIT_BREAKER_OPEN_DURATION_MS);
+  });
+
+  it('should lower the score for slow responses', () => {
+    const fast = createKeyHealth();
+    const slow = createKeyHealth();
+
+    recordKeyOutcome(fast, true, 1000);
+    recordKeyOutcome(slow, true, 20000);
+
+    assert.strictEqual(fast.score, 1);
+    assert.strictEqual(slow.score, 0.5);
+  });
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { KeyRevalidator } from '../server/core/KeyRevalidator';
+import { ApiKey } from '../server/types/ApiKey';
+import { GoogleApiError } from '../server/core/GoogleApiForwarder';
+
+function createDisabledKey(keyId: string, key: string): ApiKey {
+  return {
+    key,
+    keyId,
+    status: 'disabled',
+    currentRequests: 0,
+    disabledReason: '403: Permission denied',
+    revalidationAttempts: 0,
+    nextRevalidationAt: 0
+  };
+}
+
+class MockApiKeyManager {
+  public restored: string[] = [];
+  public rescheduled: string[] = [];
+
+  constructor(private keys: ApiKey[]) {}
+
+  getKeysDueForRevalidation(now: number): ApiKey[] {
+    return this.keys.filter(key => key.status === 'disabled' && (key.nextRevalidationAt ?? Infinity) <= now);
+  }
+
+  async markAsAvailable(key: string): Promise<void> {
+    this.restored.push(key);
+  }
+
+  async scheduleRevalidation(key: string): Promise<void> {
+    this.rescheduled.push(key);
+  }
+}
+
+class MockForwarder {
+  public probed: string[] = [];
+
+  constructor(private failingKeys: Set<string>) {}
+
+  async listModels(apiKey: ApiKey): Promise<{ response?: any; error?: GoogleApiError }> {
+    this.probed.push(apiKey.key);
+    if (this.failingKeys.has(apiKey.key)) {
+      return { error: new GoogleApiError('Google API Error: API key not valid.', 400, apiKey.key) };
+    }
+    return { response: { models: [] } };
+  }
+}
+
+describe('KeyRevalidator', () => {
+  it('should restore keys that authenticate again and reschedule the rest', async () => {
+    const keyManager = new MockApiKeyManager([
+      createDisabledKey('key1', 'api_key_1'),
+      createDisabledKey('key2', 'api_key_2')
+    ]);
+    const forwarder = new MockForwarder(new Set(['api_key_2']));
+    const revalidator = new KeyRevalidator(keyManager as any, forwarder as any);
+
+    await revalidator.revalidateDueKeys(Date.now());
+
+    assert.deepStrictEqual(forwarder.probed, ['api_key_1', 'api_key_2']);
+    assert.deepStrictEqual(keyManager.restored, ['api_key_1']);
+    assert.deepStrictEqual(keyManager.rescheduled, ['api_key_2']);
+  });
+
+  it('should not probe keys whose revalidation time has not come', async () => {
+    const key = createDisabledKey('key1', 'api_key_1');
+    key.nextRevalidationAt = Date.now() + 60000;
+    const keyManager = new MockApiKeyManager([key]);
+    const forwarder = new MockForwarder(new Set());
+    const revalidator = new KeyRevalidator(keyManager as any, forwarder as any);
+
+    await revalidator.revalidateDueKeys(Date.now());
+
+    assert.deepStrictEqual(forwarder.probed, []);
+    assert.deepStrictEqual(keyManager.restored, []);
+  });
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import config from '../server/config';
+import ApiKeyManager from '../server/core/ApiKeyManager';
+import { EventManager } from '../server/core/EventManager';
+import { getAllowedKeyGroups, getRequestClientInfo, matchesRoutingRule } from '../server/core/KeyRouting';
+
+// Mock VS Code extension context without persisted key status
+const mockContext = {
+  secrets: {
+    store: async () => undefined,
+    get: async () => undefined,
+    delete: async () => undefined
+  },
+  subscriptions: []
+} as unknown as vscode.ExtensionContext;
+
+describe('KeyRouting', () => {
+  const originalGroups = config.KEY_GROUPS;
+  const originalRules = config.KEY_ROUTING_RULES;
+
+  beforeEach(() => {
+    config.KEY_GROUPS = { key2: 'billed' };
+    config.KEY_ROUTING_RULES = [
+      { model: 'gemini-2.5-pro', groups: ['billed', 'default'] },
+      { client: 'ci-bot', groups: ['billed'] },
+      { header: 'X-Priority', headerValue: 'high', groups: ['billed'] },
+      { groups: ['default'] }
+    ];
+  });
+
+  afterEach(() => {
+    config.KEY_GROUPS = originalGroups;
+    config.KEY_ROUTING_RULES = originalRules;
+  });
+
+  it('should match rules by model prefix, client and header', () => {
+    assert.ok(matchesRoutingRule({ model: 'gemini-2.5-pro', groups: [] }, { modelId: 'models/gemini-2.5-pro-preview' }));
+    assert.ok(!matchesRoutingRule({ model: 'gemini-2.5-pro', groups: [] }, { modelId: 'gemini-2.5-flash' }));
+    assert.ok(matchesRoutingRule({ client: 'ci-bot', groups: [] }, { clientId: 'ci-bot' }));
+    assert.ok(!matchesRoutingRule({ client: 'ci-bot', groups: [] }, {}));
+    assert.ok(matchesRoutingRule({ header: 'X-Priority', groups: [] }, { headers: { 'x-priority': 'low' } }));
+    assert.ok(!matchesRoutingRule({ header: 'X-Priority', headerValue: 'high', groups: [] }, { headers: { 'x-priority': 'low' } }));
+  });
+
+  it('should use the groups of the first matching rule', () => {
+    assert.deepStrictEqual(getAllowedKeyGroups({ modelId: 'gemini-2.5-pro' }), ['billed', 'default']);
+    assert.deepStrictEqual(getAllowedKeyGroups({ modelId: 'gemini-2.5-flash', clientId: 'ci-bot' }), ['billed']);
+    assert.deepStrictEqual(getAllowedKeyGroups({ modelId: 'gemini-2.5-flash', headers: { 'x-priority': 'high' } }), ['billed']);
+    assert.deepStrictEqual(getAllowedKeyGroups({ modelId: 'gemini-2.5-flash' }), ['default']);
+
+    config.KEY_ROUTING_RULES = [];
+    assert.strictEqual(getAllowedKeyGroups({ modelId: 'gemini-2.5-flash' }), undefined);
+  });
+
+  it('should read the client identity from the X-Client-Id header', () => {
+    const info = getRequestClientInfo({ headers: { 'x-client-id': 'ci-bot' } });
+    assert.strictEqual(info.clientId, 'ci-bot');
+  });
+
+  it('should only select keys from the allowed groups', async () => {
+    const apiKeyManager = new ApiKeyManager([], new EventManager(), mockContext);
+    await apiKeyManager.loadKeys([
+      { key: 'api_key_1', keyId: 'key1', status: 'available', currentRequests: 0 },
+      { key: 'api_key_2', keyId: 'key2', status: 'available', currentRequests: 0 }
+    ]);
+
+    const flashKey = await apiKeyManager.getAvailableKey(undefined, { modelId: 'gemini-2.5-flash' });
+    const botKey = await apiKeyManager.getAvailableKey(undefined, { modelId: 'gemini-2.5-flash', clientId: 'ci-bot' });
+    const blocked = await apiKeyManager.getAvailableKey(new Set(['api_key_2']), { modelId: 'gemini-2.5-flash', clientId: 'ci-bot' });
+
+    assert.strictEqual(flashKey?.keyId, 'key1');
+    assert.strictEqual(botKey?.keyId, 'key2');
+    assert.strictEqual(blocked, null);
+  });
+});
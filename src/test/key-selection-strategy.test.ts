@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import {
+  createKeySelectionStrategy,
+  LeastInFlightKeyStrategy,
+  LeastRecentlyUsedKeyStrategy,
+  QuotaAwareKeyStrategy,
+  RoundRobinKeyStrategy,
+  WeightedKeyStrategy
+} from '../server/core/KeySelectionStrategy';
+import { createQuotaUsage, recordQuotaRequest } from '../server/core/QuotaTracker';
+import { ApiKey } from '../server/types';
+import config from '../server/config';
+
+function key(keyId: string, fields: Partial<ApiKey> = {}): ApiKey {
+  return { key: `api_${keyId}`, keyId, status: 'available', currentRequests: 0, ...fields };
+}
+
+function pick(strategy: { selectKey(keys: ApiKey[], context: object): ApiKey | null }, keys: ApiKey[], times: number): string[] {
+  return Array.from({ length: times }, () => strategy.selectKey(keys, {})!.keyId);
+}
+
+describe('KeySelectionStrategy', () => {
+  const originalWeights = config.KEY_WEIGHTS;
+  const originalProfile = config.QUOTA_PROFILE;
+
+  afterEach(() => {
+    config.KEY_WEIGHTS = originalWeights;
+    config.QUOTA_PROFILE = originalProfile;
+  });
+
+  it('should cycle through keys with round-robin', () => {
+    assert.deepStrictEqual(pick(new RoundRobinKeyStrategy(), [key('key1'), key('key2')], 3), ['key1', 'key2', 'key1']);
+  });
+
+  it('should prefer the least recently used key', () => {
+    const keys = [key('key1', { lastUsed: 300 }), key('key2', { lastUsed: 100 }), key('key3', { lastUsed: 200 })];
+
+    assert.strictEqual(new LeastRecentlyUsedKeyStrategy().selectKey(keys)?.keyId, 'key2');
+    assert.strictEqual(new LeastRecentlyUsedKeyStrategy().selectKey([...keys, key('key4')])?.keyId, 'key4');
+  });
+
+  it('should prefer the key with the fewest requests in flight', () => {
+    const keys = [key('key1', { currentRequests: 2 }), key('key2', { currentRequests: 1, lastUsed: 200 }), key('key3', { currentRequests: 1, lastUsed: 100 })];
+
+    assert.strictEqual(new LeastInFlightKeyStrategy().selectKey(keys)?.keyId, 'key3');
+  });
+
+  it('should distribute selections by weight', () => {
+    config.KEY_WEIGHTS = { key1: 3 };
+
+    assert.deepStrictEqual(pick(new WeightedKeyStrategy(), [key('key1'), key('key2')], 4).sort(), ['key1', 'key1', 'key1', 'key2']);
+  });
+
+  it('should prefer the key with the most remaining quota', () => {
+    config.QUOTA_PROFILE = 'free_tier';
+    const usage = (requests: number) => {
+      const quotaUsage = createQuotaUsage();
+      for (let i = 0; i < requests; i++) {
+        recordQuotaRequest(quotaUsage);
+      }
+      return { 'gemini-2.5-flash': quotaUsage };
+    };
+    const keys = [key('key1', { quotaUsage: usage(5) }), key('key2', { quotaUsage: usage(1) })];
+
+    assert.strictEqual(new QuotaAwareKeyStrategy().selectKey(keys, { modelId: 'gemini-2.5-flash' })?.keyId, 'key2');
+  });
+
+  it('should fall back to round-robin for unknown strategy names', () => {
+    assert.ok(createKeySelectionStrategy('fastest') instanceof RoundRobinKeyStrategy);
+    assert.ok(createKeySelectionStrategy('weighted') instanceof WeightedKeyStrategy);
+    assert.strictEqual(createKeySelectionStrategy('least_in_flight').selectKey([], {}), null);
+  });
+});
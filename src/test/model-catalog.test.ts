@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import { ModelCatalog } from '../server/core/ModelCatalog';
+import { GoogleApiError } from '../server/core/GoogleApiForwarder';
+import { ApiKey, ListModelsResponse } from '../server/types';
+
+// Mock ApiKeyManager exposing only what the catalog uses
+class MockApiKeyManager {
+  constructor(private keys: ApiKey[]) {}
+
+  getAvailableKeys(): ApiKey[] {
+    return this.keys;
+  }
+
+  async resolveKeyProxy(apiKey: ApiKey): Promise<ApiKey> {
+    return { ...apiKey };
+  }
+}
+
+// Mock forwarder returning canned model lists per key
+class MockForwarder {
+  public calls = 0;
+
+  constructor(private responses: Record<string, ListModelsResponse | GoogleApiError>) {}
+
+  async listModels(apiKey: ApiKey): Promise<{ response?: ListModelsResponse, error?: GoogleApiError }> {
+    this.calls++;
+    const result = this.responses[apiKey.keyId];
+    return result instanceof GoogleApiError ? { error: result } : { response: result };
+  }
+}
+
+describe('ModelCatalog', () => {
+  const testKeys: ApiKey[] = [
+    { key: 'api_key_1', keyId: 'key1', status: 'available', currentRequests: 0 },
+    { key: 'api_key_2', keyId: 'key2', status: 'available', currentRequests: 0 }
+  ];
+
+  it('should list models with a single key', async () => {
+    const forwarder = new MockForwarder({
+      key1: { models: [{ name: 'models/gemini-2.5-flash', inputTokenLimit: 1048576 }, { name: 'models/gemini-2.5-pro' }] },
+      key2: { models: [{ name: 'models/gemini-2.5-flash' }] }
+    });
+    const catalog = new ModelCatalog(new MockApiKeyManager(testKeys) as any, forwarder as any);
+
+    const models = await catalog.getModels();
+
+    assert.deepStrictEqual(models.map(m => m.name).sort(), ['models/gemini-2.5-flash', 'models/gemini-2.5-pro']);
+    assert.strictEqual(forwarder.calls, 1);
+  });
+
+  it('should look up a model with or without the models/ prefix', async () => {
+    const forwarder = new MockForwarder({
+      key1: { models: [{ name: 'models/gemini-2.5-pro', outputTokenLimit: 65536 }] },
+      key2: { models: [] }
+    });
+    const catalog = new ModelCatalog(new MockApiKeyManager(testKeys) as any, forwarder as any);
+
+    assert.strictEqual((await catalog.getModel('gemini-2.5-pro'))?.outputTokenLimit, 65536);
+    assert.strictEqual((await catalog.getModel('models/gemini-2.5-pro'))?.outputTokenLimit, 65536);
+    assert.strictEqual(await catalog.getModel('unknown-model'), undefined);
+  });
+
+  it('should serve cached results until invalidated', async () => {
+    const forwarder = new MockForwarder({
+      key1: { models: [{ name: 'models/gemini-2.5-flash' }] },
+      key2: { models: [] }
+    });
+    const catalog = new ModelCatalog(new MockApiKeyManager(testKeys) as any, forwarder as any);
+
+    await catalog.getModels();
+    await catalog.getModels();
+    assert.strictEqual(forwarder.calls, 1, 'Should query one key once');
+
+    catalog.invalidate();
+    await catalog.getModels();
+    assert.strictEqual(forwarder.calls, 2, 'Should query upstream again after invalidation');
+  });
+
+  it('should start the next refresh with the next key', async () => {
+    const forwarder = new MockForwarder({
+      key1: { models: [{ name: 'models/gemini-2.5-flash' }] },
+      key2: { models: [{ name: 'models/gemini-2.5-pro' }] }
+    });
+    const catalog = new ModelCatalog(new MockApiKeyManager(testKeys) as any, forwarder as any);
+
+    const first = await catalog.getModels();
+    catalog.invalidate();
+    const second = await catalog.getModels();
+
+    assert.deepStrictEqual([first[0].name, second[0].name], ['models/gemini-2.5-flash', 'models/gemini-2.5-pro']);
+  });
+
+  it('should fall back to the next key when one fails', async () => {
+    const forwarder = new MockForwarder({
+      key1: new GoogleApiError('Forbidden', 403, 'api_key_1'),
+      key2: { models: [{ name: 'models/gemini-2.5-flash' }] }
+    });
+    const catalog = new ModelCatalog(new MockApiKeyManager(testKeys) as any, forwarder as any);
+
+    const models = await catalog.getModels();
+
+    assert.strictEqual(models.length, 1);
+  });
+
+  it('should reject when every key fails', async () => {
+    const forwarder = new MockForwarder({
+      key1: new GoogleApiError('Forbidden', 403, 'api_key_1'),
+      key2: new GoogleApiError('Forbidden', 403, 'api_key_2')
+    });
+    const catalog = new ModelCatalog(new MockApiKeyManager(testKeys) as any, forwarder as any);
+
+    await assert.rejects(() => catalog.getModels(), GoogleApiError);
+  });
+});
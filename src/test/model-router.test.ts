@@ -0,0 +1,206 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import config from '../server/config';
+import { ModelRouter, resolveModelChain } from '../server/core/ModelRouter';
+import { DispatchOptions, DispatchResult } from '../server/core/RequestDispatcher';
+import { EventManager, RequestStatus } from '../server/core/EventManager';
+import { GoogleApiError } from '../server/core/GoogleApiForwarder';
+import { StreamHandler } from '../server/core/StreamHandler';
+import { ModelCatalog } from '../server/core/ModelCatalog';
+import createOpenAIRouter from '../server/routes/openai';
+import createAnthropicRouter from '../server/routes/anthropic';
+import { ApiKey } from '../server/types/ApiKey';
+
+const apiKey: ApiKey = { key: 'api_key_1', keyId: 'key1', status: 'available', currentRequests: 0 };
+
+// Mock dispatcher returning a scripted result per model
+class MockDispatcher {
+  public calls: { modelId: string; fallback?: boolean }[] = [];
+  public bodies: unknown[] = [];
+  public delayMs = 0;
+
+  constructor(public results: Record<string, DispatchResult>) {}
+
+  async dispatch(modelId: string, _methodName: string, body: unknown, _status: RequestStatus, options: DispatchOptions = {}): Promise<DispatchResult> {
+    this.calls.push({ modelId, fallback: options.fallback });
+    this.bodies.push(body);
+    await new Promise(resolve => setTimeout(resolve, this.delayMs));
+    return this.results[modelId] ?? { apiKey, response: { candidates: [] } };
+  }
+
+  createRequestStatus(modelId: string, methodName: string): RequestStatus {
+    return { ...createRequestStatus(modelId), methodName };
+  }
+
+  failRequest(): void {}
+}
+
+function createRequestStatus(modelId: string): RequestStatus {
+  return { requestId: 'request1', keyId: 'unknown', modelId, methodName: 'generateContent', status: 'pending', startTime: Date.now() };
+}
+
+describe('ModelRouter', () => {
+  const originalRoutes = config.MODEL_ROUTES;
+
+  beforeEach(() => {
+    config.MODEL_ROUTES = {
+      'team-smart': ['gemini-2.5-pro', 'gemini-2.5-flash'],
+      'team-fast': ['gemini-2.5-flash-lite']
+    };
+  });
+
+  afterEach(() => {
+    config.MODEL_ROUTES = originalRoutes;
+  });
+
+  it('should resolve aliases and pass unknown models through', () => {
+    assert.deepStrictEqual(resolveModelChain('team-smart'), ['gemini-2.5-pro', 'gemini-2.5-flash']);
+    assert.deepStrictEqual(resolveModelChain('gemini-2.0-flash'), ['gemini-2.0-flash']);
+  });
+
+  it('should dispatch an alias to its first model', async () => {
+    const dispatcher = new MockDispatcher({});
+    const router = new ModelRouter(dispatcher as any, new EventManager());
+    const requestStatus = createRequestStatus('team-fast');
+
+    const result = await router.dispatch('team-fast', 'generateContent', {}, requestStatus);
+
+    assert.strictEqual(result.modelId, 'gemini-2.5-flash-lite');
+    assert.deepStrictEqual(dispatcher.calls, [{ modelId: 'gemini-2.5-flash-lite', fallback: false }]);
+    assert.strictEqual(requestStatus.modelId, 'gemini-2.5-flash-lite');
+    assert.strictEqual(requestStatus.requestedModelId, 'team-fast');
+  });
+
+  it('should fall back to the next model when no key is available', async () => {
+    const dispatcher = new MockDispatcher({ 'gemini-2.5-pro': {} });
+    const router = new ModelRouter(dispatcher as any, new EventManager());
+    const requestStatus = createRequestStatus('team-smart');
+
+    const result = await router.dispatch('team-smart', 'generateContent', {}, requestStatus);
+
+    assert.strictEqual(result.modelId, 'gemini-2.5-flash');
+    assert.deepStrictEqual(dispatcher.calls, [
+      { modelId: 'gemini-2.5-pro', fallback: true },
+      { modelId: 'gemini-2.5-flash', fallback: false }
+    ]);
+    assert.strictEqual(requestStatus.modelId, 'gemini-2.5-flash');
+  });
+
+  it('should fall back when every key is rate-limited but not on other errors', async () => {
+    const rateLimited = new MockDispatcher({
+      'gemini-2.5-pro': { apiKey, error: new GoogleApiError('quota', 429, 'api_key_1', true) }
+    });
+    const rateLimitedResult = await new ModelRouter(rateLimited as any, new EventManager())
+      .dispatch('team-smart', 'generateContent', {}, createRequestStatus('team-smart'));
+    assert.strictEqual(rateLimitedResult.modelId, 'gemini-2.5-flash');
+
+    const badRequest = new MockDispatcher({
+      'gemini-2.5-pro': { apiKey, error: new GoogleApiError('bad request', 400, 'api_key_1') }
+    });
+    const badRequestResult = await new ModelRouter(badRequest as any, new EventManager())
+      .dispatch('team-smart', 'generateContent', {}, createRequestStatus('team-smart'));
+    assert.strictEqual(badRequestResult.modelId, 'gemini-2.5-pro');
+    assert.strictEqual(badRequestResult.error?.statusCode, 400);
+  });
+
+  it('should not fall back once the client has disconnected', async () => {
+    const dispatcher = new MockDispatcher({ 'gemini-2.5-pro': {} });
+    const router = new ModelRouter(dispatcher as any, new EventManager());
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await router.dispatch('team-smart', 'generateContent', {}, createRequestStatus('team-smart'), { signal: controller.signal });
+
+    assert.strictEqual(result.modelId, 'gemini-2.5-pro');
+    assert.deepStrictEqual(dispatcher.calls, [{ modelId: 'gemini-2.5-pro', fallback: true }]);
+  });
+});
+
+describe('OpenAI and Anthropic routes with model routing', () => {
+  const originalRoutes = config.MODEL_ROUTES;
+  const originalHeartbeat = config.STREAM_HEARTBEAT_INTERVAL_MS;
+  const textResponse = { candidates: [{ content: { role: 'model', parts: [{ text: 'hi' }] }, finishReason: 'STOP' }] };
+  let server: http.Server;
+  let baseUrl: string;
+  let dispatcher: MockDispatcher;
+
+  beforeEach(async () => {
+    config.MODEL_ROUTES = {
+      'team-smart': ['gemini-2.5-pro', 'gemini-2.5-flash'],
+      'team-embed': ['gemini-embedding-exp', 'gemini-embedding-001']
+    };
+    // No key for gemini-2.5-pro or gemini-embedding-exp, so the aliases fall back to the second model
+    dispatcher = new MockDispatcher({
+      'gemini-2.5-pro': {},
+      'gemini-2.5-flash': { apiKey, response: textResponse },
+      'gemini-embedding-exp': {},
+      'gemini-embedding-001': { apiKey, response: { embeddings: [{ values: [0.5] }] } }
+    });
+    const modelRouter = new ModelRouter(dispatcher as any, new EventManager());
+    const app = express();
+    app.use(express.json());
+    app.use('/', createOpenAIRouter(dispatcher as any, {} as ModelCatalog, new StreamHandler(), modelRouter));
+    app.use('/', createAnthropicRouter(dispatcher as any, new StreamHandler(), modelRouter));
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    config.MODEL_ROUTES = originalRoutes;
+    config.STREAM_HEARTBEAT_INTERVAL_MS = originalHeartbeat;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function post(path: string, body: unknown) {
+    return fetch(`${baseUrl}${path}`, { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) });
+  }
+
+  it('should resolve aliases and fall back on /v1/chat/completions', async () => {
+    const response = await post('/v1/chat/completions', { model: 'team-smart', messages: [{ role: 'user', content: 'hello' }] });
+
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(response.headers.get('x-model-used'), 'gemini-2.5-flash');
+    assert.deepStrictEqual(dispatcher.calls.map(call => call.modelId), ['gemini-2.5-pro', 'gemini-2.5-flash']);
+    assert.strictEqual((await response.json()).choices[0].message.content, 'hi');
+  });
+
+  it('should resolve aliases and fall back on /v1/messages', async () => {
+    const response = await post('/v1/messages', { model: 'team-smart', max_tokens: 100, messages: [{ role: 'user', content: 'hello' }] });
+
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(response.headers.get('x-model-used'), 'gemini-2.5-flash');
+    assert.deepStrictEqual(dispatcher.calls.map(call => call.modelId), ['gemini-2.5-pro', 'gemini-2.5-flash']);
+    assert.strictEqual((await response.json()).content[0].text, 'hi');
+  });
+
+  it('should keep the upstream status and X-Model-Used header when a stream fails after a long wait', async () => {
+    config.STREAM_HEARTBEAT_INTERVAL_MS = 10;
+    dispatcher.delayMs = 40;
+    dispatcher.results['gemini-2.5-flash'] = { apiKey, error: new GoogleApiError('Google API Error: quota', 429, 'api_key_1') };
+
+    const openAIResponse = await post('/v1/chat/completions', { model: 'team-smart', stream: true, messages: [{ role: 'user', content: 'hello' }] });
+    const anthropicResponse = await post('/v1/messages', { model: 'team-smart', stream: true, max_tokens: 100, messages: [{ role: 'user', content: 'hello' }] });
+
+    for (const response of [openAIResponse, anthropicResponse]) {
+      assert.strictEqual(response.status, 429);
+      assert.strictEqual(response.headers.get('x-model-used'), 'gemini-2.5-flash');
+      assert.doesNotMatch(await response.text(), /keepalive/);
+    }
+  });
+
+  it('should resolve aliases and fall back on /v1/embeddings and send every batch to the same model', async () => {
+    const input = Array.from({ length: 150 }, (_, index) => `text ${index}`);
+
+    const response = await post('/v1/embeddings', { model: 'team-embed', input });
+
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(response.headers.get('x-model-used'), 'gemini-embedding-001');
+    assert.deepStrictEqual(dispatcher.calls.map(call => call.modelId), ['gemini-embedding-exp', 'gemini-embedding-001', 'gemini-embedding-001']);
+    const itemModels = dispatcher.bodies.map(body => new Set((body as { requests: { model: string }[] }).requests.map(item => item.model)));
+    assert.deepStrictEqual(itemModels.map(models => [...models]), [['models/gemini-embedding-exp'], ['models/gemini-embedding-001'], ['models/gemini-embedding-001']]);
+    assert.strictEqual((await response.json()).data.length, 2);
+  });
+});
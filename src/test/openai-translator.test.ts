@@ -0,0 +1,173 @@
+import * as assert from 'assert';
+import { OpenAITranslator } from '../server/core/OpenAITranslator';
+import { OpenAIChatCompletionRequest } from '../server/types';
+
+describe('OpenAITranslator', () => {
+  describe('toGeminiRequest', () => {
+    it('should map system messages and sampling parameters', () => {
+      const request: OpenAIChatCompletionRequest = {
+        model: 'gemini-2.5-flash',
+        messages: [
+          { role: 'system', content: 'You are helpful.' },
+          { role: 'user', content: 'Hello' }
+        ],
+        temperature: 0.2,
+        max_tokens: 100,
+        stop: 'END'
+      };
+
+      const result = OpenAITranslator.toGeminiRequest(request);
+
+      assert.deepStrictEqual(result.contents, [{ role: 'user', parts: [{ text: 'Hello' }] }]);
+      assert.deepStrictEqual(result.config.systemInstruction, { parts: [{ text: 'You are helpful.' }] });
+      assert.strictEqual(result.config.temperature, 0.2);
+      assert.strictEqual(result.config.maxOutputTokens, 100);
+      assert.deepStrictEqual(result.config.stopSequences, ['END']);
+    });
+
+    it('should map tool calls and tool results to function parts', () => {
+      const request: OpenAIChatCompletionRequest = {
+        model: 'gemini-2.5-flash',
+        messages: [
+          { role: 'user', content: 'Weather in Paris?' },
+          {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+          },
+          { role: 'tool', tool_call_id: 'call_1', content: '{"temp":21}' }
+        ],
+        tools: [{
+          type: 'function',
+          function: {
+            name: 'get_weather',
+            parameters: {
+              $schema: 'http://json-schema.org/draft-07/schema#',
+              type: 'object',
+              additionalProperties: false,
+              properties: { city: { type: ['string', 'null'] } }
+            }
+          }
+        }],
+        tool_choice: 'required'
+      };
+
+      const result = OpenAITranslator.toGeminiRequest(request);
+
+      assert.deepStrictEqual(result.contents[1], {
+        role: 'model',
+        parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }]
+      });
+      assert.deepStrictEqual(result.contents[2], {
+        role: 'user',
+        parts: [{ functionResponse: { name: 'get_weather', response: { temp: 21 } } }]
+      });
+      assert.deepStrictEqual(result.config.tools, [{
+        functionDeclarations: [{
+          name: 'get_weather',
+          description: undefined,
+          parameters: { type: 'object', properties: { city: { type: 'string', nullable: true } } }
+        }]
+      }]);
+      assert.deepStrictEqual(result.config.toolConfig, { functionCallingConfig: { mode: 'ANY' } });
+    });
+
+    it('should convert data URL images to inline data', () => {
+      const request: OpenAIChatCompletionRequest = {
+        model: 'gemini-2.5-flash',
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Describe' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } }
+          ]
+        }]
+      };
+
+      const result = OpenAITranslator.toGeminiRequest(request);
+
+      assert.deepStrictEqual(result.contents[0].parts[1], { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } });
+    });
+  });
+
+  describe('toChatCompletion', () => {
+    it('should map text, finish reason and usage', () => {
+      const completion = OpenAITranslator.toChatCompletion({
+        candidates: [{ content: { role: 'model', parts: [{ text: 'thinking', thought: true }, { text: 'Hi!' }] }, finishReason: 'MAX_TOKENS' }],
+        usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 2, thoughtsTokenCount: 3, totalTokenCount: 10 }
+      }, 'gemini-2.5-flash', 'chatcmpl-1');
+
+      assert.strictEqual(completion.choices[0].message.content, 'Hi!');
+      assert.strictEqual(completion.choices[0].finish_reason, 'length');
+      assert.deepStrictEqual(completion.usage, { prompt_tokens: 5, completion_tokens: 5, total_tokens: 10 });
+    });
+
+    it('should map function calls to tool calls', () => {
+      const completion = OpenAITranslator.toChatCompletion({
+        candidates: [{ content: { role: 'model', parts: [{ functionCall: { id: 'fc_1', name: 'get_weather', args: { city: 'Paris' } } }] }, finishReason: 'STOP' }]
+      }, 'gemini-2.5-flash', 'chatcmpl-2');
+
+      assert.strictEqual(completion.choices[0].finish_reason, 'tool_calls');
+      assert.deepStrictEqual(completion.choices[0].message.tool_calls, [{
+        id: 'fc_1',
+        type: 'function',
+        function: { name: 'get_weather', arguments: '{"city":"Paris"}' }
+      }]);
+    });
+  });
+
+  describe('streaming', () => {
+    it('should emit the role once and finish with the mapped reason', () => {
+      const state = OpenAITranslator.createStreamState('gemini-2.5-flash', 'chatcmpl-3');
+
+      const first = OpenAITranslator.toChatCompletionChunks({ candidates: [{ content: { parts: [{ text: 'Hel' }] } }] }, state);
+      const second = OpenAITranslator.toChatCompletionChunks({
+        candidates: [{ content: { parts: [{ text: 'lo' }] }, finishReason: 'STOP' }],
+        usageMetadata: { promptTokenCount: 1, candidatesTokenCount: 2, totalTokenCount: 3 }
+      }, state);
+      const final = OpenAITranslator.toFinalChunks(state, true);
+
+      assert.deepStrictEqual(first[0].choices[0].delta, { role: 'assistant', content: 'Hel' });
+      assert.deepStrictEqual(second[0].choices[0].delta, { content: 'lo' });
+      assert.strictEqual(final[0].choices[0].finish_reason, 'stop');
+      assert.deepStrictEqual(final[1].usage, { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3 });
+    });
+
+    it('should number streamed tool calls', () => {
+      const state = OpenAITranslator.createStreamState('gemini-2.5-flash', 'chatcmpl-4');
+
+      const chunks = OpenAITranslator.toChatCompletionChunks({
+        candidates: [{ content: { parts: [{ functionCall: { name: 'a', args: {} } }, { functionCall: { name: 'b', args: {} } }] } }]
+      }, state);
+
+      assert.deepStrictEqual(chunks[0].choices[0].delta.tool_calls?.map(call => call.index), [0, 1]);
+      assert.strictEqual(OpenAITranslator.toFinalChunks(state, false)[0].choices[0].finish_reason, 'tool_calls');
+    });
+  });
+
+  describe('embeddings', () => {
+    it('should map OpenAI embedding model names to the configured Gemini model', () => {
+      assert.strictEqual(OpenAITranslator.toGeminiEmbeddingModelId('text-embedding-3-small'), 'gemini-embedding-001');
+      assert.strictEqual(OpenAITranslator.toGeminiEmbeddingModelId('models/text-embedding-004'), 'text-embedding-004');
+    });
+
+    it('should build a batch request with output dimensionality', () => {
+      const request = OpenAITranslator.toBatchEmbedRequest(['a', 'b'], 'gemini-embedding-001', 256);
+
+      assert.deepStrictEqual(request.requests[1], {
+        model: 'models/gemini-embedding-001',
+        content: { parts: [{ text: 'b' }] },
+        outputDimensionality: 256
+      });
+    });
+
+    it('should encode vectors as base64 float32 when requested', () => {
+      const response = OpenAITranslator.toEmbeddingResponse([{ values: [1, 0.5] }], 'text-embedding-3-small', 'base64');
+      const bytes = Buffer.from(response.data[0].embedding as string, 'base64');
+      const decoded = [bytes.readFloatLE(0), bytes.readFloatLE(4)];
+
+      assert.deepStrictEqual(decoded, [1, 0.5]);
+      assert.strictEqual(response.model, 'text-embedding-3-small');
+    });
+  });
+});
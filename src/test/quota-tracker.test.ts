@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import {
+  createQuotaUsage,
+  getQuotaHeadroom,
+  getQuotaLimits,
+  getQuotaReleaseTime,
+  recordQuotaRequest,
+  recordQuotaTokens,
+  wouldExceedQuota
+} from '../server/core/QuotaTracker';
+import config from '../server/config';
+
+describe('QuotaTracker', () => {
+  const originalProfile = config.QUOTA_PROFILE;
+  const originalKeyProfiles = config.KEY_QUOTA_PROFILES;
+  const originalProfiles = config.QUOTA_PROFILES;
+
+  afterEach(() => {
+    config.QUOTA_PROFILE = originalProfile;
+    config.KEY_QUOTA_PROFILES = originalKeyProfiles;
+    config.QUOTA_PROFILES = originalProfiles;
+  });
+
+  it('should match limits by the longest model ID prefix', () => {
+    config.QUOTA_PROFILE = 'free_tier';
+
+    assert.deepStrictEqual(getQuotaLimits('key1', 'models/gemini-2.5-flash-lite'), { rpm: 15, tpm: 250000, rpd: 1000 });
+    assert.strictEqual(getQuotaLimits('key1', 'gemini-2.5-flash-preview-09-2025').rpm, 10);
+    assert.deepStrictEqual(getQuotaLimits('key1', 'gemma-3-27b-it'), {});
+  });
+
+  it('should use per-key and custom profiles', () => {
+    config.QUOTA_PROFILE = 'free_tier';
+    config.KEY_QUOTA_PROFILES = { key2: 'team' };
+    config.QUOTA_PROFILES = { team: { '*': { rpm: 60 } } };
+
+    assert.strictEqual(getQuotaLimits('key2', 'gemini-2.5-pro').rpm, 60);
+    assert.strictEqual(getQuotaLimits('key1', 'gemini-2.5-pro').rpm, 5);
+  });
+
+  it('should block a request that would exceed RPM until the window slides', () => {
+    const now = 1000000;
+    const usage = createQuotaUsage(now);
+    recordQuotaRequest(usage, now);
+    recordQuotaRequest(usage, now + 1000);
+
+    assert.strictEqual(wouldExceedQuota(usage, { rpm: 3 }, now + 2000), false);
+    assert.strictEqual(getQuotaReleaseTime(usage, { rpm: 2 }, now + 2000), now + 60000);
+    assert.strictEqual(wouldExceedQuota(usage, { rpm: 2 }, now + 60001), false);
+  });
+
+  it('should block a request once TPM is used up', () => {
+    const now = 1000000;
+    const usage = createQuotaUsage(now);
+    recordQuotaTokens(usage, 600, now);
+    recordQuotaTokens(usage, 500, now + 1000);
+
+    assert.strictEqual(getQuotaReleaseTime(usage, { tpm: 1000 }, now + 2000), now + 60000);
+    assert.strictEqual(getQuotaHeadroom(usage, { tpm: 2200 }, now + 2000), 0.5);
+  });
+
+  it('should park a key on RPD until the daily reset', () => {
+    const now = Date.parse('2025-01-15T18:30:00Z');
+    const usage = createQuotaUsage(now);
+    recordQuotaRequest(usage, now);
+
+    assert.strictEqual(getQuotaReleaseTime(usage, { rpd: 1 }, now + 120000), Date.parse('2025-01-16T08:00:00Z'));
+    assert.strictEqual(wouldExceedQuota(usage, { rpd: 1 }, Date.parse('2025-01-16T08:00:01Z')), false);
+    assert.strictEqual(usage.dailyRequests, 0);
+  });
+});
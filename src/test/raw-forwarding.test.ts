@@ -0,0 +1,183 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import express from 'express';
+import config from '../server/config';
+import { EventManager, RequestStatus } from '../server/core/EventManager';
+import { GoogleApiError, RawForwardResponse } from '../server/core/GoogleApiForwarder';
+import ModelRouter from '../server/core/ModelRouter';
+import { StreamHandler, StreamResult } from '../server/core/StreamHandler';
+import createProxyRouter, { RawBodyRequest } from '../server/routes/proxy';
+import { ApiKey } from '../server/types/ApiKey';
+
+const apiKey: ApiKey = { key: 'api_key_1', keyId: 'key1', status: 'available', currentRequests: 0 };
+
+// Mock dispatcher returning a scripted raw upstream response after an optional delay
+class MockRawDispatcher {
+  public finished: StreamResult[] = [];
+  public completed = 0;
+  public cancelled = 0;
+
+  constructor(private result: () => { raw?: RawForwardResponse, error?: GoogleApiError }, private delayMs = 0) {}
+
+  createRequestStatus(modelId: string, methodName: string): RequestStatus {
+    return { requestId: 'request1', keyId: 'unknown', modelId, methodName, status: 'pending', startTime: Date.now() };
+  }
+
+  async dispatchRaw() {
+    await new Promise(resolve => setTimeout(resolve, this.delayMs));
+    return { apiKey, ...this.result() };
+  }
+
+  async finishStream(_status: RequestStatus, _apiKey: ApiKey, result: StreamResult): Promise<void> {
+    this.finished.push(result);
+  }
+
+  async completeRequest(): Promise<void> {
+    this.completed++;
+  }
+
+  failRequest(): void {}
+
+  cancelRequest(): void {
+    this.cancelled++;
+  }
+}
+
+function sseBody(...events: unknown[]): Readable {
+  return Readable.from(events.map(event => Buffer.from(`data: ${JSON.stringify(event)}\r\n\r\n`)));
+}
+
+describe('Raw forwarding routes', () => {
+  const originalMode = config.FORWARDING_MODE;
+  const originalHeartbeat = config.STREAM_HEARTBEAT_INTERVAL_MS;
+  let server: http.Server | undefined;
+
+  beforeEach(() => {
+    config.FORWARDING_MODE = 'raw';
+  });
+
+  afterEach(async () => {
+    config.FORWARDING_MODE = originalMode;
+    config.STREAM_HEARTBEAT_INTERVAL_MS = originalHeartbeat;
+    server?.closeAllConnections();
+    await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+    server = undefined;
+  });
+
+  async function startServer(dispatcher: MockRawDispatcher): Promise<string> {
+    const eventManager = new EventManager();
+    const app = express();
+    app.use(express.json({ verify: (req, _res, buf) => { (req as RawBodyRequest).rawBody = buf; } }));
+    app.use('/', createProxyRouter({} as any, dispatcher as any, {} as any, new StreamHandler(), eventManager,
+      new ModelRouter(dispatcher as any, eventManager)));
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  function post(baseUrl: string, path: string) {
+    return fetch(`${baseUrl}${path}`, { method: 'POST', headers: { 'content-type': 'application/json' }, body: '{"contents":[]}' });
+  }
+
+  it('should relay the upstream status, headers and body without hop-by-hop headers', async () => {
+    const dispatcher = new MockRawDispatcher(() => ({
+      raw: {
+        status: 200,
+        headers: {
+          'content-type': ['application/json; charset=UTF-8'],
+          'x-goog-upstream': ['yes'],
+          'connection': ['close'],
+          'keep-alive': ['timeout=99'],
+          'transfer-encoding': ['chunked'],
+          'upgrade': ['h2c']
+        },
+        body: Readable.from([Buffer.from('{"candidates":'), Buffer.from('[]}')])
+      }
+    }));
+    const baseUrl = await startServer(dispatcher);
+
+    const response = await post(baseUrl, '/v1beta/models/gemini-2.5-flash:generateContent');
+
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(response.headers.get('content-type'), 'application/json; charset=UTF-8');
+    assert.strictEqual(response.headers.get('x-goog-upstream'), 'yes');
+    assert.strictEqual(response.headers.get('x-model-used'), 'gemini-2.5-flash');
+    // Node sets its own Connection and Keep-Alive headers; the upstream values must not leak through
+    assert.notStrictEqual(response.headers.get('keep-alive'), 'timeout=99');
+    assert.strictEqual(response.headers.get('upgrade'), null);
+    assert.notStrictEqual(response.headers.get('connection'), 'close');
+    assert.strictEqual(await response.text(), '{"candidates":[]}');
+    assert.strictEqual(dispatcher.completed, 1);
+  });
+
+  it('should relay upstream error responses unchanged', async () => {
+    const errorBody = '{"error":{"code":429,"message":"quota exceeded","status":"RESOURCE_EXHAUSTED"}}';
+    const dispatcher = new MockRawDispatcher(() => ({
+      raw: { status: 429, headers: { 'content-type': ['application/json'], 'retry-after': ['7'] }, body: Buffer.from(errorBody) },
+      error: new GoogleApiError('Google API Error: quota exceeded', 429, 'api_key_1', true)
+    }));
+    const baseUrl = await startServer(dispatcher);
+
+    const response = await post(baseUrl, '/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse');
+
+    assert.strictEqual(response.status, 429);
+    assert.strictEqual(response.headers.get('retry-after'), '7');
+    assert.strictEqual(await response.text(), errorBody);
+    // Failed requests are recorded by the dispatcher, not completed by the route
+    assert.strictEqual(dispatcher.completed, 0);
+  });
+
+  it('should cancel a successful request and discard the upstream body when the client has disconnected', async () => {
+    const body = sseBody({ candidates: [] });
+    const dispatcher = new MockRawDispatcher(() => ({
+      raw: { status: 200, headers: { 'content-type': ['application/json'] }, body }
+    }), 80);
+    const baseUrl = await startServer(dispatcher);
+    const controller = new AbortController();
+
+    const request = fetch(`${baseUrl}/v1beta/models/gemini-2.5-flash:generateContent`, {
+      method: 'POST', headers: { 'content-type': 'application/json' }, body: '{"contents":[]}', signal: controller.signal
+    });
+    setTimeout(() => controller.abort(), 20);
+    await assert.rejects(request);
+    await new Promise(resolve => setTimeout(resolve, 120));
+
+    assert.strictEqual(dispatcher.cancelled, 1);
+    assert.strictEqual(dispatcher.completed, 0);
+    assert.ok(body.destroyed);
+  });
+
+  it('should relay the upstream status and headers of an SSE stream after a long wait', async () => {
+    config.STREAM_HEARTBEAT_INTERVAL_MS = 20;
+    const dispatcher = new MockRawDispatcher(() => ({
+      raw: { status: 200, headers: { 'content-type': ['text/event-stream'], 'x-goog-upstream': ['yes'] }, body: sseBody({ candidates: [] }) }
+    }), 80);
+    const baseUrl = await startServer(dispatcher);
+
+    const response = await post(baseUrl, '/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse');
+
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(response.headers.get('x-goog-upstream'), 'yes');
+    assert.strictEqual(response.headers.get('x-model-used'), 'gemini-2.5-flash');
+    assert.strictEqual(await response.text(), 'data: {"candidates":[]}\r\n\r\n');
+    assert.strictEqual(dispatcher.finished[0].metrics.chunkCount, 1);
+  });
+
+  it('should relay upstream stream errors with their status after a long wait', async () => {
+    config.STREAM_HEARTBEAT_INTERVAL_MS = 20;
+    const errorBody = '{"error":{"code":503,"message":"overloaded","status":"UNAVAILABLE"}}';
+    const dispatcher = new MockRawDispatcher(() => ({
+      raw: { status: 503, headers: { 'content-type': ['application/json'] }, body: Buffer.from(errorBody) },
+      error: new GoogleApiError('Google API Error: overloaded', 503, 'api_key_1')
+    }), 80);
+    const baseUrl = await startServer(dispatcher);
+
+    const response = await post(baseUrl, '/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse');
+
+    assert.strictEqual(response.status, 503);
+    assert.strictEqual(response.headers.get('content-type'), 'application/json');
+    assert.strictEqual(await response.text(), errorBody);
+  });
+});
@@ -0,0 +1,613 @@
+import * as assert from 'assert';
+import RequestDispatcher from '../server/core/RequestDispatcher';
+import { GoogleApiError } from '../server/core/GoogleApiForwarder';
+import { EventManager, RequestStatus } from '../server/core/EventManager';
+import { ApiKey, KeySelectionContext } from '../server/types';
+import config from '../server/config';
+
+// Mock ApiKeyManager exposing only what the dispatcher uses
+class MockApiKeyManager {
+  public coolingDown: string[] = [];
+  public coolDowns: { durationMs: number, reason?: string }[] = [];
+  public disabled: [string, string][] = [];
+  public outcomes: [string, boolean][] = [];
+  public pacingDelays: number[] = [];
+  public events?: EventManager;
+  private keys: ApiKey[];
+
+  constructor(keys: ApiKey[], private maxConcurrency = 0) {
+    this.keys = keys.map(key => ({ ...key }));
+  }
+
+  async getAvailableKey(excludeKeys?: Set<string>, context: KeySelectionContext = {}): Promise<ApiKey | null> {
+    const candidates = this.keys.filter(key =>
+      !excludeKeys?.has(key.key) &&
+      !this.coolingDown.includes(key.key) &&
+      (!key.coolingDownUntil || key.coolingDownUntil <= Date.now()) &&
+      (this.maxConcurrency <= 0 || key.currentRequests < this.maxConcurrency)
+    );
+    if (candidates.length === 0) {
+      return null;
+    }
+    const selected = candidates.find(key => key.key === context.preferredKey) ?? candidates[0];
+    selected.currentRequests++;
+    return { ...selected };
+  }
+
+  getKey(keyId: string): ApiKey {
+    return this.keys.find(key => key.keyId === keyId)!;
+  }
+
+  getAllKeys(): ApiKey[] {
+    return this.keys;
+  }
+
+  markAsDisabled(key: string, reason: string): void {
+    this.disabled.push([key, reason]);
+  }
+
+  markAsCoolingDown(key: string, durationMs: number, reason?: string): void {
+    this.coolingDown.push(key);
+    this.coolDowns.push({ durationMs, reason });
+  }
+
+  recordQuotaRequest(): void {}
+
+  recordQuotaTokens(): void {}
+
+  async recordSuccess(): Promise<void> {}
+
+  getNextQuotaReleaseTime(): number | undefined {
+    return undefined;
+  }
+
+  reservePacingToken(): number {
+    return this.pacingDelays.shift() ?? 0;
+  }
+
+  getNextPacingTime(): number | undefined {
+    return undefined;
+  }
+
+  recordKeyOutcome(key: string, success: boolean): void {
+    this.outcomes.push([key, success]);
+  }
+
+  endCircuitTrial(): void {}
+
+  getNextCircuitRetryTime(): number | undefined {
+    return undefined;
+  }
+
+  decrementRequestCount(key: string): void {
+    const apiKey = this.keys.find(candidate => candidate.key === key)!;
+    apiKey.currentRequests--;
+    this.events?.emitApiKeyStatusUpdate(apiKey);
+  }
+}
+
+// Mock forwarder returning a scripted result per key
+class MockForwarder {
+  public calls: string[] = [];
+
+  constructor(private results: Record<string, GoogleApiError | unknown>) {}
+
+  async forwardRequest(modelId: string, methodName: string, body: unknown, apiKey: ApiKey): Promise<{ response?: unknown, error?: GoogleApiError }> {
+    this.calls.push(apiKey.keyId);
+    const result = this.results[apiKey.keyId];
+    if (result instanceof GoogleApiError) {
+      return { error: result };
+    }
+    return (result as any)?.[Symbol.asyncIterator] ? { stream: result } as any : { response: result };
+  }
+}
+
+describe('RequestDispatcher', () => {
+  const testKeys: ApiKey[] = [
+    { key: 'api_key_1', keyId: 'key1', status: 'available', currentRequests: 0 },
+    { key: 'api_key_2', keyId: 'key2', status: 'available', currentRequests: 0 },
+    { key: 'api_key_3', keyId: 'key3', status: 'available', currentRequests: 0 }
+  ];
+
+  function createDispatcher(forwarder: MockForwarder, keyManager = new MockApiKeyManager(testKeys)) {
+    const events = new EventManager();
+    keyManager.events = events;
+    const updates: RequestStatus[] = [];
+    events.on('requestUpdate', (status: RequestStatus) => updates.push({ ...status }));
+    const dispatcher = new RequestDispatcher(keyManager as any, forwarder as any, events);
+    return { dispatcher, keyManager, updates };
+  }
+
+  it('should retry a rate-limited request on another key', async () => {
+    const forwarder = new MockForwarder({
+      key1: new GoogleApiError('quota', 429, 'api_key_1', true),
+      key2: { candidates: [] }
+    });
+    const { dispatcher, keyManager, updates } = createDispatcher(forwarder);
+    const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+    const result = await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+    assert.strictEqual(result.apiKey?.keyId, 'key2');
+    assert.deepStrictEqual(result.response, { candidates: [] });
+    assert.deepStrictEqual(forwarder.calls, ['key1', 'key2']);
+    assert.deepStrictEqual(keyManager.coolingDown, ['api_key_1']);
+    assert.deepStrictEqual(requestStatus.attempts?.map(a => [a.keyId, a.statusCode]), [['key1', 429], ['key2', undefined]]);
+    assert.deepStrictEqual(updates.map(u => u.status), ['pending', 'retrying', 'success']);
+  });
+
+  it('should not retry errors outside the retry policy', async () => {
+    const forwarder = new MockForwarder({ key1: new GoogleApiError('bad request', 400, 'api_key_1') });
+    const { dispatcher, updates } = createDispatcher(forwarder);
+    const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+    const result = await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+    assert.strictEqual(result.error?.statusCode, 400);
+    assert.deepStrictEqual(forwarder.calls, ['key1']);
+    assert.deepStrictEqual(updates.map(u => u.status), ['pending', 'failed']);
+  });
+
+  it('should fail instead of throwing when no attempt is allowed', async () => {
+    const originalMaxAttempts = config.MAX_RETRY_ATTEMPTS;
+    config.MAX_RETRY_ATTEMPTS = 0;
+    try {
+      const forwarder = new MockForwarder({ key1: { candidates: [] } });
+      const { dispatcher } = createDispatcher(forwarder);
+      const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+      const result = await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+      assert.strictEqual(result.error?.statusCode, 500);
+      assert.strictEqual(requestStatus.status, 'failed');
+      assert.deepStrictEqual(forwarder.calls, []);
+    } finally {
+      config.MAX_RETRY_ATTEMPTS = originalMaxAttempts;
+    }
+  });
+
+  it('should record key health for server errors but not for rate limits', async () => {
+    const forwarder = new MockForwarder({
+      key1: new GoogleApiError('Google API Error: Internal', 500, 'api_key_1'),
+      key2: new GoogleApiError('Google API Error: Too Many Requests', 429, 'api_key_2', true),
+      key3: { candidates: [] }
+    });
+    const { dispatcher, keyManager } = createDispatcher(forwarder);
+    const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+    await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+    assert.deepStrictEqual(keyManager.outcomes, [['api_key_1', false], ['api_key_3', true]]);
+  });
+
+  it('should disable a key that fails authentication without retrying the request', async () => {
+    const forwarder = new MockForwarder({
+      key1: new GoogleApiError('Google API Error: API key not valid. Please pass a valid API key.', 400, 'api_key_1'),
+      key2: { candidates: [] }
+    });
+    const { dispatcher, keyManager } = createDispatcher(forwarder);
+    const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+    const result = await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+    assert.strictEqual(result.error?.statusCode, 400);
+    assert.deepStrictEqual(forwarder.calls, ['key1']);
+    assert.deepStrictEqual(keyManager.disabled.map(([key]) => key), ['api_key_1']);
+    assert.match(keyManager.disabled[0][1], /^400: .*API key not valid/);
+  });
+
+  it('should disable a key on a 403 whose ErrorInfo reason is an API key problem', async () => {
+    const error = new GoogleApiError('Google API Error: Requests from this API key are blocked.', 403, 'api_key_1');
+    error.errorReason = 'API_KEY_SERVICE_BLOCKED';
+    const forwarder = new MockForwarder({ key1: error });
+    const { dispatcher, keyManager } = createDispatcher(forwarder);
+    const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+    await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+    assert.deepStrictEqual(keyManager.disabled.map(([key]) => key), ['api_key_1']);
+  });
+
+  it('should leave every key enabled when a request is denied permission', async () => {
+    const denied = (key: string) => new GoogleApiError('Google API Error: You do not have permission to access the File abc123.', 403, key);
+    const forwarder = new MockForwarder({ key1: denied('api_key_1'), key2: denied('api_key_2'), key3: denied('api_key_3') });
+    const { dispatcher, keyManager } = createDispatcher(forwarder);
+    const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+    const result = await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+    assert.strictEqual(result.error?.statusCode, 403);
+    assert.deepStrictEqual(forwarder.calls, ['key1']);
+    assert.deepStrictEqual(keyManager.disabled, []);
+    assert.strictEqual(requestStatus.status, 'failed');
+  });
+
+  it('should stop after the max attempts budget and return the last error', async () => {
+    const forwarder = new MockForwarder({
+      key1: new GoogleApiError('unavailable', 503, 'api_key_1'),
+      key2: new GoogleApiError('internal', 500, 'api_key_2'),
+      key3: new GoogleApiError('unavailable', 503, 'api_key_3')
+    });
+    const { dispatcher } = createDispatcher(forwarder);
+    const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+    const result = await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+    assert.strictEqual(result.apiKey?.keyId, 'key3');
+    assert.strictEqual(requestStatus.status, 'failed');
+    assert.strictEqual(requestStatus.attempts?.length, 3);
+  });
+
+  it('should stop retrying once no untried key is available', async () => {
+    const forwarder = new MockForwarder({ key1: new GoogleApiError('quota', 429, 'api_key_1', true) });
+    const { dispatcher } = createDispatcher(forwarder, new MockApiKeyManager([testKeys[0]]));
+    const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+    const result = await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+    assert.strictEqual(result.error?.statusCode, 429);
+    assert.strictEqual(requestStatus.status, 'cooling_down');
+    assert.deepStrictEqual(forwarder.calls, ['key1']);
+  });
+
+  it('should report pacing waits separately from the attempt duration', async () => {
+    const forwarder = new MockForwarder({ key1: { candidates: [] } });
+    const { dispatcher, keyManager } = createDispatcher(forwarder);
+    keyManager.pacingDelays = [30];
+    const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+    await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+    assert.strictEqual(requestStatus.pacingDelay, 30);
+    assert.strictEqual(requestStatus.attempts?.[0].pacingDelay, 30);
+    assert.ok(requestStatus.attempts![0].startTime - requestStatus.startTime >= 25);
+  });
+
+  it('should cancel a request whose client disconnects during the pacing wait', async () => {
+    const forwarder = new MockForwarder({ key1: { candidates: [] } });
+    const { dispatcher, keyManager, updates } = createDispatcher(forwarder);
+    keyManager.pacingDelays = [5000];
+    const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+    const controller = new AbortController();
+
+    const startTime = Date.now();
+    const pending = dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+    const result = await pending;
+
+    assert.ok(Date.now() - startTime < 1000);
+    assert.strictEqual(result.error?.isCancelled, true);
+    assert.deepStrictEqual(forwarder.calls, []);
+    assert.strictEqual(keyManager.getKey('key1').currentRequests, 0);
+    assert.deepStrictEqual(updates.map(u => u.status), ['pending', 'cancelled']);
+  });
+
+  it('should record a cancelled request without cooling down or retrying', async () => {
+    const cancelled = new GoogleApiError('Request cancelled: client disconnected.', undefined, 'api_key_1');
+    cancelled.isCancelled = true;
+    const forwarder = new MockForwarder({ key1: cancelled, key2: { candidates: [] } });
+    const { dispatcher, keyManager, updates } = createDispatcher(forwarder);
+    const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+    const result = await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+    assert.strictEqual(result.error?.isCancelled, true);
+    assert.deepStrictEqual(forwarder.calls, ['key1']);
+    assert.deepStrictEqual(keyManager.coolingDown, []);
+    assert.deepStrictEqual(keyManager.outcomes, []);
+    assert.strictEqual(keyManager.getKey('key1').currentRequests, 0);
+    assert.deepStrictEqual(updates.map(u => u.status), ['pending', 'cancelled']);
+  });
+
+  it('should cool the key down for the advertised retry delay', async () => {
+    const error = new GoogleApiError('quota', 429, 'api_key_1', true);
+    error.retryDelayMs = 37000;
+    const { dispatcher, keyManager } = createDispatcher(new MockForwarder({ key1: error }), new MockApiKeyManager([testKeys[0]]));
+    const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+    await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+    assert.deepStrictEqual(keyManager.coolDowns, [{ durationMs: 37000, reason: 'rate_limit' }]);
+    assert.strictEqual(requestStatus.coolDownDuration, 37000);
+  });
+
+  it('should park the key until the daily quota resets', async () => {
+    const error = new GoogleApiError('quota', 429, 'api_key_1', true);
+    error.retryDelayMs = 37000;
+    error.isDailyQuotaExceeded = true;
+    const { dispatcher, keyManager } = createDispatcher(new MockForwarder({ key1: error }), new MockApiKeyManager([testKeys[0]]));
+    const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+    await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+    assert.strictEqual(keyManager.coolDowns[0].reason, 'daily_quota');
+    assert.ok(keyManager.coolDowns[0].durationMs > 0 && keyManager.coolDowns[0].durationMs <= 24 * 60 * 60 * 1000);
+  });
+
+  it('should leave rate limits and missing keys to the caller when a fallback model follows', async () => {
+    const forwarder = new MockForwarder({
+      key1: new GoogleApiError('quota', 429, 'api_key_1', true),
+      key2: new GoogleApiError('quota', 429, 'api_key_2', true),
+      key3: new GoogleApiError('quota', 429, 'api_key_3', true)
+    });
+    const { dispatcher, updates } = createDispatcher(forwarder);
+    const requestStatus = dispatcher.createRequestStatus('gemini-2.5-pro', 'generateContent');
+
+    const rateLimited = await dispatcher.dispatch('gemini-2.5-pro', 'generateContent', {}, requestStatus, { fallback: true });
+    assert.strictEqual(rateLimited.error?.statusCode, 429);
+    assert.deepStrictEqual(requestStatus.attempts?.map(a => a.modelId), ['gemini-2.5-pro', 'gemini-2.5-pro', 'gemini-2.5-pro']);
+
+    // 所有 Key 都在冷却，有回退模型时不进入等待队列
+    const noKey = await dispatcher.dispatch('gemini-2.5-pro', 'generateContent', {}, requestStatus, { fallback: true });
+    assert.deepStrictEqual(noKey, {});
+    assert.strictEqual(dispatcher.getQueueLength(), 0);
+    assert.ok(!updates.some(u => u.status === 'failed' || u.status === 'cooling_down'));
+  });
+
+  describe('concurrency limit', () => {
+    async function* emptyStream(): AsyncIterable<unknown> {}
+
+    it('should release the key on success and on errors', async () => {
+      const forwarder = new MockForwarder({
+        key1: new GoogleApiError('unavailable', 503, 'api_key_1'),
+        key2: { candidates: [] }
+      });
+      const { dispatcher, keyManager } = createDispatcher(forwarder, new MockApiKeyManager(testKeys.slice(0, 2), 1));
+
+      await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent'));
+
+      assert.strictEqual(keyManager.getKey('key1').currentRequests, 0);
+      assert.strictEqual(keyManager.getKey('key2').currentRequests, 0);
+    });
+
+    it('should hold the key for a stream and queue requests until it is released', async () => {
+      const forwarder = new MockForwarder({ key1: emptyStream() });
+      const { dispatcher, keyManager, updates } = createDispatcher(forwarder, new MockApiKeyManager([testKeys[0]], 1));
+      const first = dispatcher.createRequestStatus('gemini-2.5-flash', 'streamGenerateContent');
+      const second = dispatcher.createRequestStatus('gemini-2.5-flash', 'streamGenerateContent');
+
+      const firstResult = await dispatcher.dispatch('gemini-2.5-flash', 'streamGenerateContent', {}, first);
+      const secondResult = dispatcher.dispatch('gemini-2.5-flash', 'streamGenerateContent', {}, second);
+      await new Promise(resolve => setImmediate(resolve));
+
+      assert.ok(firstResult.stream);
+      assert.strictEqual(keyManager.getKey('key1').currentRequests, 1);
+      assert.strictEqual(dispatcher.getQueueLength(), 1);
+
+      await dispatcher.completeRequest(first, firstResult.apiKey!);
+      await secondResult;
+      dispatcher.failRequest(second, 'client went away');
+      dispatcher.failRequest(second, 'client went away');
+
+      assert.strictEqual(keyManager.getKey('key1').currentRequests, 0);
+      assert.ok(updates.some(update => update.requestId === second.requestId && update.status === 'queued'));
+    });
+  });
+
+  it('should report stream metrics when a stream finishes', async () => {
+    async function* stream(): AsyncIterable<unknown> {}
+    const { dispatcher, keyManager, updates } = createDispatcher(new MockForwarder({ key1: stream() }));
+    const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'streamGenerateContent');
+    const usageMetadata = { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 };
+
+    const result = await dispatcher.dispatch('gemini-2.5-flash', 'streamGenerateContent', {}, requestStatus);
+    await dispatcher.finishStream(requestStatus, result.apiKey!, {
+      usageMetadata,
+      metrics: { chunkCount: 3, firstChunkAt: requestStatus.startTime + 120, duration: 400 }
+    });
+
+    const completion = updates[updates.length - 1];
+    assert.strictEqual(completion.status, 'success');
+    assert.strictEqual(completion.timeToFirstToken, 120);
+    assert.strictEqual(completion.chunkCount, 3);
+    assert.strictEqual(completion.streamDuration, 400);
+    assert.deepStrictEqual(completion.usageMetadata, usageMetadata);
+    assert.strictEqual(keyManager.getKey('key1').currentRequests, 0);
+  });
+
+  describe('wait queue', () => {
+    const originalMaxWait = config.QUEUE_MAX_WAIT_MS;
+    const originalMaxDepth = config.QUEUE_MAX_DEPTH;
+
+    afterEach(() => {
+      config.QUEUE_MAX_WAIT_MS = originalMaxWait;
+      config.QUEUE_MAX_DEPTH = originalMaxDepth;
+    });
+
+    function coolingKey(untilMs: number): ApiKey {
+      return { key: 'api_key_1', keyId: 'key1', status: 'cooling_down', coolingDownUntil: Date.now() + untilMs, currentRequests: 0 };
+    }
+
+    it('should leave the queue when the client disconnects', async () => {
+      config.QUEUE_MAX_WAIT_MS = 1000;
+      const forwarder = new MockForwarder({ key1: { candidates: [] } });
+      const { dispatcher, updates } = createDispatcher(forwarder, new MockApiKeyManager([coolingKey(5000)]));
+      const controller = new AbortController();
+      const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+      const pending = dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus, { signal: controller.signal });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      controller.abort();
+      const result = await pending;
+
+      assert.strictEqual(result.apiKey, undefined);
+      assert.strictEqual(dispatcher.getQueueLength(), 0);
+      assert.deepStrictEqual(forwarder.calls, []);
+      assert.deepStrictEqual(updates.map(u => u.status), ['queued', 'cancelled']);
+    });
+
+    it('should park requests until a key leaves cooldown', async () => {
+      const forwarder = new MockForwarder({ key1: { candidates: [] } });
+      const { dispatcher, updates } = createDispatcher(forwarder, new MockApiKeyManager([coolingKey(50)]));
+      const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+      const result = await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+      assert.strictEqual(result.apiKey?.keyId, 'key1');
+      assert.deepStrictEqual(updates.map(u => u.status), ['queued', 'pending', 'success']);
+      assert.strictEqual(updates[0].queuePosition, 1);
+      assert.ok((requestStatus.queueDuration ?? 0) >= 40);
+      assert.strictEqual(dispatcher.getQueueLength(), 0);
+    });
+
+    it('should fail queued requests after the max wait', async () => {
+      config.QUEUE_MAX_WAIT_MS = 30;
+      const { dispatcher } = createDispatcher(new MockForwarder({}), new MockApiKeyManager([coolingKey(10000)]));
+      const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+      const result = await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+      assert.strictEqual(result.apiKey, undefined);
+      assert.strictEqual(requestStatus.status, 'failed');
+      assert.strictEqual(dispatcher.getQueueLength(), 0);
+    });
+
+    it('should not spin on wake-up times that have already passed', async () => {
+      config.QUEUE_MAX_WAIT_MS = 50;
+      // Cooldown has ended but the key is not restored yet, and its only slot is taken
+      const keyManager = new MockApiKeyManager([{ ...coolingKey(-1000), currentRequests: 1 }], 1);
+      const { dispatcher } = createDispatcher(new MockForwarder({}), keyManager);
+      let selections = 0;
+      const getAvailableKey = keyManager.getAvailableKey.bind(keyManager);
+      keyManager.getAvailableKey = (...args) => {
+        selections++;
+        return getAvailableKey(...args);
+      };
+
+      const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+      const result = await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, requestStatus);
+
+      assert.strictEqual(result.apiKey, undefined);
+      assert.strictEqual(requestStatus.status, 'failed');
+      assert.ok(selections <= 2, `selected keys ${selections} times while queued`);
+    });
+
+    it('should reject requests when the queue is full', async () => {
+      config.QUEUE_MAX_WAIT_MS = 30;
+      config.QUEUE_MAX_DEPTH = 1;
+      const { dispatcher } = createDispatcher(new MockForwarder({}), new MockApiKeyManager([coolingKey(10000)]));
+      const first = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+      const second = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+
+      const firstResult = dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, first);
+      await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, second);
+
+      assert.strictEqual(second.status, 'failed');
+      assert.match(second.errorMessage || '', /wait queue is full/);
+      await firstResult;
+    });
+
+    it('should not hold up requests for other models behind a request no key can serve', async () => {
+      config.QUEUE_MAX_WAIT_MS = 100;
+      const forwarder = new MockForwarder({ key1: { candidates: [] } });
+      const keyManager = new MockApiKeyManager([{ ...testKeys[0], currentRequests: 1 }], 1);
+      const { dispatcher } = createDispatcher(forwarder, keyManager);
+      // No key serves gemini-2.5-pro (e.g. excluded by quota or routing group)
+      const getAvailableKey = keyManager.getAvailableKey.bind(keyManager);
+      keyManager.getAvailableKey = (excludeKeys, context = {}) =>
+        context.modelId === 'gemini-2.5-pro' ? Promise.resolve(null) : getAvailableKey(excludeKeys, context);
+
+      const pro = dispatcher.createRequestStatus('gemini-2.5-pro', 'generateContent');
+      const proResult = dispatcher.dispatch('gemini-2.5-pro', 'generateContent', {}, pro);
+      const queuedFlash = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+      const queuedFlashResult = dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, queuedFlash);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      assert.strictEqual(dispatcher.getQueueLength(), 2);
+
+      // The released slot goes to the flash request even though the pro request is at the head
+      keyManager.decrementRequestCount('api_key_1');
+      assert.strictEqual((await queuedFlashResult).apiKey?.keyId, 'key1');
+      assert.strictEqual(dispatcher.getQueueLength(), 1);
+
+      // A new flash request does not queue behind the pro request while the key is free
+      const flash = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+      const flashResult = await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, flash);
+      assert.strictEqual(flashResult.apiKey?.keyId, 'key1');
+      assert.strictEqual(flash.queueDuration, undefined);
+
+      await proResult;
+      assert.strictEqual(pro.status, 'failed');
+    });
+
+    it('should serve queued requests in FIFO order', async () => {
+      const forwarder = new MockForwarder({ key1: { candidates: [] } });
+      const { dispatcher } = createDispatcher(forwarder, new MockApiKeyManager([coolingKey(30)]));
+      const order: string[] = [];
+
+      await Promise.all(['first', 'second', 'third'].map(name =>
+        dispatcher.dispatch('gemini-2.5-flash', 'generateContent', {}, dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent'))
+          .then(() => order.push(name))
+      ));
+
+      assert.deepStrictEqual(order, ['first', 'second', 'third']);
+    });
+  });
+
+  describe('session affinity', () => {
+    const originalAffinity = config.SESSION_AFFINITY;
+
+    beforeEach(() => {
+      config.SESSION_AFFINITY = true;
+    });
+
+    afterEach(() => {
+      config.SESSION_AFFINITY = originalAffinity;
+    });
+
+    function conversation(...turns: string[]) {
+      return { contents: turns.map(text => ({ role: 'user', parts: [{ text }] })) };
+    }
+
+    async function send(dispatcher: RequestDispatcher, body: unknown) {
+      const requestStatus = dispatcher.createRequestStatus('gemini-2.5-flash', 'generateContent');
+      const result = await dispatcher.dispatch('gemini-2.5-flash', 'generateContent', body, requestStatus);
+      return { keyId: result.apiKey?.keyId, requestStatus };
+    }
+
+    it('should keep the turns of a conversation on the same key', async () => {
+      const forwarder = new MockForwarder({
+        key1: { candidates: [] },
+        key2: { candidates: [], usageMetadata: { promptTokenCount: 1000, cachedContentTokenCount: 800 } }
+      });
+      const { dispatcher, keyManager } = createDispatcher(forwarder);
+
+      keyManager.coolingDown.push('api_key_1');
+      const first = await send(dispatcher, conversation('hello'));
+      keyManager.coolingDown = [];
+      const second = await send(dispatcher, conversation('hello', 'tell me more'));
+      const other = await send(dispatcher, conversation('a different conversation'));
+
+      assert.deepStrictEqual([first.keyId, second.keyId, other.keyId], ['key2', 'key2', 'key1']);
+      assert.strictEqual(second.requestStatus.sessionId, first.requestStatus.sessionId);
+      assert.strictEqual(second.requestStatus.cachedTokens, 800);
+      assert.strictEqual(second.requestStatus.promptTokens, 1000);
+    });
+
+    it('should move a conversation to another key while its key is cooling down', async () => {
+      const forwarder = new MockForwarder({ key1: { candidates: [] }, key2: { candidates: [] } });
+      const { dispatcher, keyManager } = createDispatcher(forwarder);
+
+      const first = await send(dispatcher, conversation('hello'));
+      keyManager.coolingDown.push('api_key_1');
+      const second = await send(dispatcher, conversation('hello', 'tell me more'));
+      keyManager.coolingDown = [];
+      const third = await send(dispatcher, conversation('hello', 'tell me more', 'and then?'));
+
+      assert.deepStrictEqual([first.keyId, second.keyId, third.keyId], ['key1', 'key2', 'key2']);
+    });
+
+    it('should not pin sessions when affinity is off', async () => {
+      config.SESSION_AFFINITY = false;
+      const forwarder = new MockForwarder({ key1: { candidates: [] }, key2: { candidates: [] } });
+      const { dispatcher, keyManager } = createDispatcher(forwarder);
+
+      keyManager.coolingDown.push('api_key_1');
+      await send(dispatcher, conversation('hello'));
+      keyManager.coolingDown = [];
+      const second = await send(dispatcher, conversation('hello', 'tell me more'));
+
+      assert.strictEqual(second.keyId, 'key1');
+      assert.strictEqual(second.requestStatus.sessionId, undefined);
+    });
+  });
+});
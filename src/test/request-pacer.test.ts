@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import config from '../server/config';
+import ApiKeyManager from '../server/core/ApiKeyManager';
+import { EventManager } from '../server/core/EventManager';
+import { createPacingBucket, getPacingDelay, reservePacingToken } from '../server/core/RequestPacer';
+
+// Mock VS Code extension context without persisted key status
+const mockContext = {
+  secrets: {
+    store: async () => undefined,
+    get: async () => undefined,
+    delete: async () => undefined
+  },
+  subscriptions: []
+} as unknown as vscode.ExtensionContext;
+
+describe('RequestPacer', () => {
+  const originalConfig = { ...config };
+
+  beforeEach(() => {
+    config.REQUEST_PACING = true;
+    config.PACING_BURST_SIZE = 1;
+    config.PACING_MAX_DELAY_MS = 5000;
+    config.QUOTA_PROFILE = 'paced';
+    config.QUOTA_PROFILES = { paced: { '*': { rpm: 60 } } };
+  });
+
+  afterEach(() => {
+    Object.assign(config, originalConfig);
+  });
+
+  it('should space reserved requests one interval apart', () => {
+    const now = 1000000;
+    const bucket = createPacingBucket(now);
+
+    assert.strictEqual(reservePacingToken(bucket, 60, now), 0);
+    assert.strictEqual(reservePacingToken(bucket, 60, now), 1000);
+    assert.strictEqual(reservePacingToken(bucket, 60, now), 2000);
+    assert.strictEqual(getPacingDelay(bucket, 60, now + 500), 2500);
+  });
+
+  it('should refill at the RPM rate up to the burst size', () => {
+    config.PACING_BURST_SIZE = 2;
+    const now = 1000000;
+    const bucket = createPacingBucket(now);
+
+    reservePacingToken(bucket, 60, now);
+    reservePacingToken(bucket, 60, now);
+    assert.strictEqual(getPacingDelay(bucket, 60, now), 1000);
+    assert.strictEqual(getPacingDelay(bucket, 60, now + 1000), 0);
+
+    getPacingDelay(bucket, 60, now + 60000);
+    assert.strictEqual(bucket.tokens, 2);
+  });
+
+  it('should prefer keys with a token and skip keys that would wait too long', async () => {
+    config.PACING_MAX_DELAY_MS = 1500;
+    const apiKeyManager = new ApiKeyManager([], new EventManager(), mockContext);
+    await apiKeyManager.loadKeys([
+      { key: 'api_key_1', keyId: 'key1', status: 'available', currentRequests: 0 },
+      { key: 'api_key_2', keyId: 'key2', status: 'available', currentRequests: 0 }
+    ]);
+    const context = { modelId: 'gemini-2.5-flash' };
+
+    assert.strictEqual(apiKeyManager.reservePacingToken('api_key_1', context.modelId), 0);
+    const readyKey = await apiKeyManager.getAvailableKey(undefined, context);
+    assert.strictEqual(readyKey?.keyId, 'key2');
+    assert.strictEqual(apiKeyManager.reservePacingToken('api_key_2', context.modelId), 0);
+
+    // Both keys are now one interval away, so the request waits for a token
+    assert.ok(await apiKeyManager.getAvailableKey(undefined, context));
+    assert.ok(apiKeyManager.reservePacingToken('api_key_1', context.modelId) > 0);
+    assert.ok(apiKeyManager.reservePacingToken('api_key_2', context.modelId) > 0);
+
+    // Another reservation would wait about two intervals, longer than PACING_MAX_DELAY_MS
+    assert.strictEqual(await apiKeyManager.getAvailableKey(undefined, context), null);
+    assert.ok(apiKeyManager.getNextPacingTime(context.modelId)! > Date.now());
+  });
+
+  it('should not pace when pacing is off or the key has no RPM limit', async () => {
+    const apiKeyManager = new ApiKeyManager([], new EventManager(), mockContext);
+    await apiKeyManager.loadKeys([{ key: 'api_key_1', keyId: 'key1', status: 'available', currentRequests: 0 }]);
+
+    config.QUOTA_PROFILE = 'none';
+    apiKeyManager.reservePacingToken('api_key_1', 'gemini-2.5-flash');
+    assert.strictEqual(apiKeyManager.reservePacingToken('api_key_1', 'gemini-2.5-flash'), 0);
+
+    config.QUOTA_PROFILE = 'paced';
+    config.REQUEST_PACING = false;
+    assert.strictEqual(apiKeyManager.reservePacingToken('api_key_1', 'gemini-2.5-flash'), 0);
+  });
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { getSessionId } from '../server/core/SessionAffinity';
+
+describe('SessionAffinity', () => {
+  const firstTurn = { role: 'user', parts: [{ text: 'hello' }] };
+  const reply = { role: 'model', parts: [{ text: 'hi there' }] };
+  const nextTurn = { role: 'user', parts: [{ text: 'tell me more' }] };
+
+  it('should derive the same session for every turn of a conversation', () => {
+    const first = getSessionId('gemini-2.5-flash', { contents: [firstTurn] });
+    const later = getSessionId('gemini-2.5-flash', { contents: [firstTurn, reply, nextTurn] });
+
+    assert.ok(first);
+    assert.strictEqual(later, first);
+    assert.notStrictEqual(getSessionId('gemini-2.5-pro', { contents: [firstTurn] }), first);
+    assert.notStrictEqual(getSessionId('gemini-2.5-flash', { contents: [nextTurn] }), first);
+  });
+
+  it('should include the system instruction in SDK and raw request bodies', () => {
+    const sdkBody = { contents: [firstTurn], config: { systemInstruction: 'Be brief.' } };
+    const rawBody = Buffer.from(JSON.stringify({ contents: [firstTurn], systemInstruction: 'Be brief.' }));
+
+    assert.strictEqual(getSessionId('gemini-2.5-flash', rawBody), getSessionId('gemini-2.5-flash', sdkBody));
+    assert.notStrictEqual(getSessionId('gemini-2.5-flash', sdkBody), getSessionId('gemini-2.5-flash', { contents: [firstTurn] }));
+  });
+
+  it('should prefer the X-Session-Id header', () => {
+    const sessionId = getSessionId('gemini-2.5-flash', { contents: [firstTurn] }, { headers: { 'x-session-id': 'chat-42' } });
+    assert.strictEqual(sessionId, 'header:chat-42');
+  });
+
+  it('should skip requests without conversation contents', () => {
+    assert.strictEqual(getSessionId('gemini-embedding-001', { content: { parts: [{ text: 'embed me' }] } }), undefined);
+    assert.strictEqual(getSessionId('gemini-2.5-flash', 'not json'), undefined);
+  });
+});
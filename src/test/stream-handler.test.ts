@@ -0,0 +1,329 @@
+import * as assert from 'assert';
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import { Readable } from 'stream';
+import config from '../server/config';
+import { StreamHandler, StreamTranslator, awaitFirstChunk, withIdleTimeout } from '../server/core/StreamHandler';
+
+// Minimal Express Response recording headers, status and written data
+class MockResponse extends EventEmitter {
+  headers: Record<string, string> = {};
+  statusCode = 200;
+  body = '';
+  jsonBody: unknown;
+  headersSent = false;
+  ended = false;
+
+  setHeader(name: string, value: string): void {
+    this.headers[name] = value;
+  }
+
+  status(code: number): this {
+    this.statusCode = code;
+    return this;
+  }
+
+  json(body: unknown): void {
+    this.headersSent = true;
+    this.jsonBody = body;
+    this.ended = true;
+  }
+
+  write(data: string): boolean {
+    this.headersSent = true;
+    this.body += data;
+    return true;
+  }
+
+  end(): void {
+    this.ended = true;
+  }
+}
+
+async function* chunks(items: unknown[], error?: Error): AsyncIterable<unknown> {
+  for (const item of items) {
+    yield item;
+  }
+  if (error) {
+    throw error;
+  }
+}
+
+describe('StreamHandler', () => {
+  const streamHandler = new StreamHandler();
+
+  it('should pick the format from the alt query parameter', () => {
+    assert.strictEqual(StreamHandler.getStreamFormat('sse'), 'sse');
+    assert.strictEqual(StreamHandler.getStreamFormat(undefined), 'json');
+    assert.strictEqual(StreamHandler.getStreamFormat('json'), 'json');
+  });
+
+  it('should frame chunks as SSE events', async () => {
+    const res = new MockResponse();
+
+    const result = await streamHandler.handleStream(chunks([{ a: 1 }, { a: 2 }]), res as unknown as Response, 'sse');
+
+    assert.strictEqual(result.error, undefined);
+    assert.strictEqual(res.headers['Content-Type'], 'text/event-stream');
+    assert.strictEqual(res.body, 'data: {"a":1}\n\ndata: {"a":2}\n\n');
+    assert.ok(res.ended);
+  });
+
+  it('should report the chunk count, first chunk time and final usage', async () => {
+    const res = new MockResponse();
+    const usageMetadata = { promptTokenCount: 4, totalTokenCount: 9 };
+
+    const result = await streamHandler.handleStream(chunks([{ a: 1 }, { a: 2, usageMetadata }]), res as unknown as Response, 'sse');
+
+    assert.strictEqual(result.metrics.chunkCount, 2);
+    assert.ok(result.metrics.firstChunkAt! <= Date.now());
+    assert.ok(result.metrics.duration >= 0);
+    assert.deepStrictEqual(result.usageMetadata, usageMetadata);
+  });
+
+  it('should frame chunks as a JSON array', async () => {
+    const res = new MockResponse();
+
+    await streamHandler.handleStream(chunks([{ a: 1 }, { a: 2 }]), res as unknown as Response, 'json');
+
+    assert.strictEqual(res.headers['Content-Type'], 'application/json; charset=UTF-8');
+    assert.strictEqual(res.body, '[{"a":1},\r\n{"a":2}]');
+    assert.deepStrictEqual(JSON.parse(res.body), [{ a: 1 }, { a: 2 }]);
+  });
+
+  it('should write an empty array for an empty JSON stream', async () => {
+    const res = new MockResponse();
+
+    await streamHandler.handleStream(chunks([]), res as unknown as Response, 'json');
+
+    assert.strictEqual(res.body, '[]');
+  });
+
+  it('should append the error as the last array element mid-stream', async () => {
+    const res = new MockResponse();
+    const error = Object.assign(new Error('quota exceeded'), { statusCode: 429 });
+
+    const result = await streamHandler.handleStream(chunks([{ a: 1 }], error), res as unknown as Response, 'json');
+
+    assert.strictEqual(result.error, error);
+    assert.deepStrictEqual(JSON.parse(res.body), [
+      { a: 1 },
+      { error: { code: 429, message: 'quota exceeded', status: 'RESOURCE_EXHAUSTED' } }
+    ]);
+  });
+
+  it('should send the error as an SSE event mid-stream', async () => {
+    const res = new MockResponse();
+
+    await streamHandler.handleStream(chunks([{ a: 1 }], new Error('boom')), res as unknown as Response, 'sse');
+
+    assert.strictEqual(res.body, 'data: {"a":1}\n\ndata: {"error":{"code":500,"message":"boom","status":"INTERNAL"}}\n\n');
+  });
+
+  it('should return a plain JSON error when the stream fails before the first chunk', async () => {
+    const res = new MockResponse();
+
+    await streamHandler.handleStream(chunks([], new Error('boom')), res as unknown as Response, 'sse');
+
+    assert.strictEqual(res.statusCode, 500);
+    assert.strictEqual(res.body, '');
+    assert.deepStrictEqual(res.jsonBody, { error: { code: 500, message: 'boom', status: 'INTERNAL' } });
+  });
+
+  it('should stop reading the upstream stream once the client disconnects', async () => {
+    const res = new MockResponse();
+    const controller = new AbortController();
+    let upstreamClosed = false;
+    async function* upstream(): AsyncIterable<unknown> {
+      try {
+        yield { a: 1 };
+        controller.abort();
+        yield { a: 2 };
+        yield { a: 3 };
+      } finally {
+        upstreamClosed = true;
+      }
+    }
+
+    const result = await streamHandler.handleStream(upstream(), res as unknown as Response, 'sse', controller.signal);
+
+    assert.strictEqual(result.cancelled, true);
+    assert.strictEqual(res.body, 'data: {"a":1}\n\n');
+    assert.strictEqual(res.ended, false);
+    assert.ok(upstreamClosed);
+  });
+
+  it('should close a partial SSE event before the error when a raw stream fails mid-way', async () => {
+    const res = new MockResponse();
+    const body = Readable.from(chunks([Buffer.from('data: {"a":1}\r\n\r\n'), Buffer.from('data: {"a"')], new Error('socket hang up')) as AsyncIterable<Buffer>);
+
+    const result = await streamHandler.relayRawStream(body, res as unknown as Response, 'sse');
+
+    assert.strictEqual(result.error?.message, 'socket hang up');
+    assert.strictEqual(res.body, 'data: {"a":1}\r\n\r\ndata: {"a"\n\ndata: {"error":{"code":500,"message":"socket hang up","status":"INTERNAL"}}\n\n');
+    assert.ok(res.ended);
+  });
+
+  it('should count raw SSE events and read their usage', async () => {
+    const res = new MockResponse();
+    const body = Readable.from([
+      Buffer.from('data: {"a":1}\r\n\r\ndata: {"a":2,'),
+      Buffer.from('"usageMetadata":{"totalTokenCount":7}}\r\n\r\n')
+    ]);
+
+    const result = await streamHandler.relayRawStream(body, res as unknown as Response, 'sse');
+
+    assert.strictEqual(result.metrics.chunkCount, 2);
+    assert.deepStrictEqual(result.usageMetadata, { totalTokenCount: 7 });
+    assert.strictEqual(res.body, 'data: {"a":1}\r\n\r\ndata: {"a":2,"usageMetadata":{"totalTokenCount":7}}\r\n\r\n');
+  });
+
+  it('should write translated events, final events and errors', async () => {
+    const translator: StreamTranslator = {
+      toEvents: chunk => (chunk as { text?: string }).text ? [`data: ${(chunk as { text?: string }).text}\n\n`] : [],
+      toFinalEvents: () => ['data: [DONE]\n\n'],
+      toErrorEvent: (statusCode, message) => `event: error\ndata: ${statusCode} ${message}\n\n`
+    };
+    const res = new MockResponse();
+    const failed = new MockResponse();
+
+    const result = await streamHandler.handleTranslatedStream(chunks([{ text: 'hi' }, {}]), res as unknown as Response, translator);
+    await streamHandler.handleTranslatedStream(chunks([{ text: 'hi' }], new Error('boom')), failed as unknown as Response, translator);
+
+    assert.strictEqual(result.metrics.chunkCount, 2);
+    assert.strictEqual(res.headers['Content-Type'], 'text/event-stream');
+    assert.strictEqual(res.body, 'data: hi\n\ndata: [DONE]\n\n');
+    assert.strictEqual(failed.body, 'data: hi\n\nevent: error\ndata: 500 boom\n\n');
+    assert.ok(failed.ended);
+  });
+
+  it('should abort only when the response closes before it finished', () => {
+    const disconnected = Object.assign(new EventEmitter(), { writableFinished: false });
+    const finished = Object.assign(new EventEmitter(), { writableFinished: true });
+    const disconnectedSignal = StreamHandler.createClientAbortSignal(disconnected as unknown as Response);
+    const finishedSignal = StreamHandler.createClientAbortSignal(finished as unknown as Response);
+
+    disconnected.emit('close');
+    finished.emit('close');
+
+    assert.strictEqual(disconnectedSignal.aborted, true);
+    assert.strictEqual(finishedSignal.aborted, false);
+  });
+
+  describe('heartbeats', () => {
+    const originalInterval = config.STREAM_HEARTBEAT_INTERVAL_MS;
+
+    afterEach(() => {
+      config.STREAM_HEARTBEAT_INTERVAL_MS = originalInterval;
+    });
+
+    it('should send SSE headers and comment heartbeats while the response is idle', async () => {
+      config.STREAM_HEARTBEAT_INTERVAL_MS = 10;
+      const res = new MockResponse();
+
+      const stop = StreamHandler.startHeartbeat(res as unknown as Response);
+      await new Promise(resolve => setTimeout(resolve, 35));
+      stop();
+      const result = await streamHandler.handleStream(chunks([{ a: 1 }]), res as unknown as Response, 'sse');
+
+      assert.strictEqual(result.error, undefined);
+      assert.strictEqual(res.headers['Content-Type'], 'text/event-stream');
+      assert.ok(res.body.startsWith(': keepalive\n\n'));
+      assert.ok(res.body.endsWith('data: {"a":1}\n\n'));
+    });
+
+    it('should send heartbeats between chunks only after the stream has started', async () => {
+      config.STREAM_HEARTBEAT_INTERVAL_MS = 10;
+      const res = new MockResponse();
+      async function* slowChunks(): AsyncIterable<unknown> {
+        await new Promise(resolve => setTimeout(resolve, 35));
+        yield { a: 1 };
+        await new Promise(resolve => setTimeout(resolve, 35));
+        yield { b: 2 };
+      }
+
+      await streamHandler.handleStream(slowChunks(), res as unknown as Response, 'sse');
+      const bodyAtEnd = res.body;
+      await new Promise(resolve => setTimeout(resolve, 25));
+
+      assert.ok(res.body.startsWith('data: {"a":1}\n\n: keepalive\n\n'), res.body);
+      assert.ok(res.body.endsWith('data: {"b":2}\n\n'), res.body);
+      assert.strictEqual(res.body, bodyAtEnd);
+    });
+
+    it('should stop when the response closes and not send when disabled', async () => {
+      config.STREAM_HEARTBEAT_INTERVAL_MS = 10;
+      const closed = new MockResponse();
+      StreamHandler.startHeartbeat(closed as unknown as Response);
+      closed.emit('close');
+
+      config.STREAM_HEARTBEAT_INTERVAL_MS = 0;
+      const disabled = new MockResponse();
+      StreamHandler.startHeartbeat(disabled as unknown as Response);
+      await new Promise(resolve => setTimeout(resolve, 25));
+
+      assert.strictEqual(closed.body, '');
+      assert.strictEqual(disabled.body, '');
+    });
+  });
+
+  describe('withIdleTimeout', () => {
+    it('should pass chunks through while they arrive in time', async () => {
+      const received: unknown[] = [];
+      for await (const chunk of withIdleTimeout(chunks([1, 2]), 50, () => new Error('stalled'))) {
+        received.push(chunk);
+      }
+      assert.deepStrictEqual(received, [1, 2]);
+    });
+
+    it('should give up on a stalled stream with the error from onStall', async () => {
+      let stallCount = 0;
+      async function* stalled(): AsyncIterable<number> {
+        yield 1;
+        await new Promise(() => undefined);
+      }
+
+      const received: unknown[] = [];
+      await assert.rejects(async () => {
+        for await (const chunk of withIdleTimeout(stalled(), 20, () => { stallCount++; return new Error('stream stalled'); })) {
+          received.push(chunk);
+        }
+      }, /stream stalled/);
+      assert.deepStrictEqual(received, [1]);
+      assert.strictEqual(stallCount, 1);
+    });
+  });
+
+  describe('awaitFirstChunk', () => {
+    it('should throw errors raised before the first chunk', async () => {
+      await assert.rejects(awaitFirstChunk(chunks([], new Error('quota exceeded'))), /quota exceeded/);
+    });
+
+    it('should yield every chunk of the stream', async () => {
+      const received: unknown[] = [];
+      for await (const chunk of await awaitFirstChunk(chunks([1, 2, 3]))) {
+        received.push(chunk);
+      }
+      assert.deepStrictEqual(received, [1, 2, 3]);
+    });
+
+    it('should close the upstream stream when the consumer stops early', async () => {
+      let upstreamClosed = false;
+      async function* upstream(): AsyncIterable<number> {
+        try {
+          yield 1;
+          yield 2;
+        } finally {
+          upstreamClosed = true;
+        }
+      }
+
+      for await (const chunk of await awaitFirstChunk(upstream())) {
+        if (chunk === 1) {
+          break;
+        }
+      }
+      assert.ok(upstreamClosed);
+    });
+  });
+});
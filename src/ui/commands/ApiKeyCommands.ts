@@ -5,6 +5,7 @@ import { validationService } from '../core/ValidationService';
 import { uiStateManager } from '../core/UIStateManager';
 import { themeService } from '../core/ThemeService';
 import { DataTransformers } from '../utils/DataTransformers';
+import { ApiKeyTreeItem, CONTEXT_VALUES } from '../types/TreeViewTypes';
 import { ApiKey } from '../../server/types/ApiKey';
 import ApiKeyManager from '../../server/core/ApiKeyManager';
 
@@ -47,6 +48,12 @@ export class ApiKeyCommands {
             (keyId?: string) => this.testApiKey(keyId)
         );
 
+        // Register re-enable API key command (inline action on disabled keys)
+        const enableApiKeyCommand = vscode.commands.registerCommand(
+            'geminiAggregator-dev.enableApiKey',
+            (target?: string | ApiKeyTreeItem) => this.enableApiKey(typeof target === 'string' ? target : target?.keyId)
+        );
+
         // Register refresh API keys command
         const refreshApiKeysCommand = vscode.commands.registerCommand(
             'geminiAggregator-dev.refreshApiKeys',
@@ -59,6 +66,7 @@ export class ApiKeyCommands {
             removeApiKeyCommand,
             viewApiKeyDetailsCommand,
             testApiKeyCommand,
+            enableApiKeyCommand,
             refreshApiKeysCommand
         );
 
@@ -195,6 +203,55 @@ export class ApiKeyCommands {
         }
     }
 
+    /**
+     * Re-enable a disabled API key
+     */
+    private async enableApiKey(keyId?: string): Promise<void> {
+        try {
+            if (!this.coreIntegration) {
+                vscode.window.showErrorMessage('Core integration not initialized');
+                return;
+            }
+
+            let targetKeyId = keyId;
+
+            // If no key ID provided, show disabled keys for selection
+            if (!targetKeyId) {
+                const disabledKeys = uiStateManager.getApiKeys().filter(key => key.contextValue === CONTEXT_VALUES.API_KEY_DISABLED);
+                if (disabledKeys.length === 0) {
+                    vscode.window.showInformationMessage('No disabled API keys');
+                    return;
+                }
+
+                const selected = await vscode.window.showQuickPick(disabledKeys.map(key => ({
+                    label: key.keyId || key.id,
+                    description: key.disabledReason,
+                    keyId: key.keyId || key.id
+                })), {
+                    placeHolder: 'Select API key to re-enable',
+                    canPickMany: false
+                });
+
+                if (!selected) {
+                    return; // User cancelled
+                }
+
+                targetKeyId = selected.keyId;
+            }
+
+            const success = await this.coreIntegration.enableApiKey(targetKeyId);
+            if (!success) {
+                throw new Error(`API key "${targetKeyId}" not found`);
+            }
+
+            vscode.window.showInformationMessage(`API Key "${targetKeyId}" re-enabled.`);
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to re-enable API key: ${errorMessage}`);
+        }
+    }
+
     /**
      * View API key details
      */
@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import { inputManager } from '../core/InputManager';
+import { ClientTokenManager } from '../../server/core/ClientTokenManager';
+import { isEndpointUnauthenticated } from '../../server/middlewares/clientAuth';
+
+/**
+ * Commands for the local access tokens clients use to call the aggregator endpoint
+ */
+export class ClientTokenCommands {
+    private clientTokenManager: ClientTokenManager;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(clientTokenManager: ClientTokenManager) {
+        this.clientTokenManager = clientTokenManager;
+    }
+
+    /**
+     * Register all client token commands
+     */
+    public registerCommands(context: vscode.ExtensionContext): void {
+        // Register create client token command
+        const createClientTokenCommand = vscode.commands.registerCommand(
+            'geminiAggregator-dev.createClientToken',
+            () => this.createClientToken()
+        );
+
+        // Register list client tokens command
+        const listClientTokensCommand = vscode.commands.registerCommand(
+            'geminiAggregator-dev.listClientTokens',
+            () => this.listClientTokens()
+        );
+
+        // Register revoke client token command
+        const revokeClientTokenCommand = vscode.commands.registerCommand(
+            'geminiAggregator-dev.revokeClientToken',
+            (tokenId?: string) => this.revokeClientToken(tokenId)
+        );
+
+        // Add to disposables
+        this.disposables.push(
+            createClientTokenCommand,
+            listClientTokensCommand,
+            revokeClientTokenCommand
+        );
+
+        // Add to extension context
+        context.subscriptions.push(...this.disposables);
+    }
+
+    /**
+     * Issue a new client token and show it once
+     */
+    private async createClientToken(): Promise<void> {
+        try {
+            const label = await vscode.window.showInputBox({
+                prompt: 'Name of the client that will use this token',
+                placeHolder: 'e.g. cline, ci-bot',
+                ignoreFocusOut: true,
+                validateInput: value => value.trim() ? undefined : 'Please enter a name'
+            });
+            if (!label) {
+                return; // User cancelled
+            }
+
+            const isFirstToken = isEndpointUnauthenticated(this.clientTokenManager);
+            const { token } = await this.clientTokenManager.createToken(label.trim());
+
+            const message = isFirstToken
+                ? `Client token "${label.trim()}" created. The aggregator now rejects requests without a valid token. Copy it now, it will not be shown again.`
+                : `Client token "${label.trim()}" created. Copy it now, it will not be shown again.`;
+            const action = await vscode.window.showInformationMessage(message, { modal: true }, 'Copy Token');
+            if (action === 'Copy Token') {
+                await vscode.env.clipboard.writeText(token);
+                vscode.window.showInformationMessage('Client token copied to clipboard');
+            }
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to create client token: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Show the issued client tokens
+     */
+    private async listClientTokens(): Promise<void> {
+        const tokens = this.clientTokenManager.getTokens();
+        if (tokens.length === 0) {
+            vscode.window.showInformationMessage(isEndpointUnauthenticated(this.clientTokenManager)
+                ? 'No client tokens issued. The aggregator endpoint accepts requests without a token.'
+                : 'No client tokens issued. requireClientToken is on, so the aggregator endpoint rejects every request until you create one.');
+            return;
+        }
+
+        const items = tokens.map(token => ({
+            label: token.label,
+            description: token.id,
+            detail: `Created ${new Date(token.createdAt).toLocaleString()}`,
+            tokenId: token.id
+        }));
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: `${tokens.length} client token(s) issued. Select one to revoke it`,
+            canPickMany: false
+        });
+        if (selected) {
+            await this.revokeClientToken(selected.tokenId);
+        }
+    }
+
+    /**
+     * Revoke a client token
+     */
+    private async revokeClientToken(tokenId?: string): Promise<void> {
+        try {
+            let targetTokenId = tokenId;
+
+            // If no token ID provided, show selection
+            if (!targetTokenId) {
+                const tokens = this.clientTokenManager.getTokens();
+                if (tokens.length === 0) {
+                    vscode.window.showInformationMessage('No client tokens to revoke');
+                    return;
+                }
+
+                const selected = await vscode.window.showQuickPick(tokens.map(token => ({
+                    label: token.label,
+                    description: token.id,
+                    detail: `Created ${new Date(token.createdAt).toLocaleString()}`,
+                    tokenId: token.id
+                })), {
+                    placeHolder: 'Select client token to revoke',
+                    canPickMany: false
+                });
+                if (!selected) {
+                    return; // User cancelled
+                }
+
+                targetTokenId = selected.tokenId;
+            }
+
+            const clientToken = this.clientTokenManager.getTokens().find(token => token.id === targetTokenId);
+            if (!clientToken) {
+                vscode.window.showErrorMessage(`Client token "${targetTokenId}" not found`);
+                return;
+            }
+
+            // Confirm deletion using InputManager
+            const confirmed = await inputManager.confirmDeletion(clientToken.label, 'client token');
+            if (!confirmed) {
+                return;
+            }
+
+            await this.clientTokenManager.revokeToken(clientToken.id);
+            const message = isEndpointUnauthenticated(this.clientTokenManager)
+                ? `Client token "${clientToken.label}" revoked. No tokens remain, so the aggregator endpoint accepts requests without a token again.`
+                : `Client token "${clientToken.label}" revoked`;
+            vscode.window.showInformationMessage(message);
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to revoke client token: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Dispose resources
+     */
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
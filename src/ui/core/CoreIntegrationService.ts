@@ -13,6 +13,11 @@ import { DataTransformers } from '../utils/DataTransformers';
 export class CoreIntegrationService {
     private disposables: vscode.Disposable[] = [];
     private isInitialized = false;
+    private queuedRequestIds = new Set<string>();
+    private promptTokens = 0;
+    private cachedTokens = 0;
+    private completedStreams = 0;
+    private totalTimeToFirstToken = 0;
 
     constructor(
         private coreEventManager: EventManager,
@@ -53,6 +58,11 @@ export class CoreIntegrationService {
             this.handleApiKeyStatusChanged(data);
         });
 
+        // Live key updates from ApiKeyManager (status, cooldown and in-flight request counts)
+        this.coreEventManager.on('apiKeyStatusUpdate', (apiKey) => {
+            this.handleApiKeyStatusChanged({ apiKey });
+        });
+
         // Listen for proxy events from core system
         this.coreEventManager.on('proxyAdded', (data) => {
             this.handleProxyAdded(data);
@@ -334,10 +344,32 @@ export class CoreIntegrationService {
             // Update request statistics
             const currentStatus = uiStateManager.getServerStatus();
 
-            // Count active requests
-            const activeConnections = data.status === 'pending' ?
-                currentStatus.activeConnections + 1 :
-                Math.max(0, currentStatus.activeConnections - 1);
+            // Count active requests (queued and retrying updates do not change the count)
+            let activeConnections = currentStatus.activeConnections;
+            if (data.status === 'pending') {
+                activeConnections++;
+            } else if (data.status !== 'queued' && data.status !== 'retrying') {
+                activeConnections = Math.max(0, activeConnections - 1);
+            }
+
+            // Track requests waiting in the dispatcher queue
+            if (data.status === 'queued') {
+                this.queuedRequestIds.add(data.requestId);
+            } else {
+                this.queuedRequestIds.delete(data.requestId);
+            }
+
+            // Track implicit cache hits reported in usageMetadata
+            if (data.status === 'success' && data.promptTokens) {
+                this.promptTokens += data.promptTokens;
+                this.cachedTokens += data.cachedTokens || 0;
+            }
+
+            // Track streaming latency reported by the stream handler
+            if (data.status === 'success' && data.timeToFirstToken !== undefined) {
+                this.completedStreams++;
+                this.totalTimeToFirstToken += data.timeToFirstToken;
+            }
 
             // Count total requests
             const totalRequests = data.status === 'completed' || data.status === 'failed' ?
@@ -346,7 +378,12 @@ export class CoreIntegrationService {
 
             uiStateManager.updateServerStatus({
                 activeConnections,
-                totalRequests
+                totalRequests,
+                queuedRequests: this.queuedRequestIds.size,
+                promptTokens: this.promptTokens,
+                cachedTokens: this.cachedTokens,
+                completedStreams: this.completedStreams,
+                averageTimeToFirstToken: this.completedStreams > 0 ? Math.round(this.totalTimeToFirstToken / this.completedStreams) : undefined
             });
         } catch (error) {
             console.error('CoreIntegrationService: Error handling request update:', error);
@@ -432,6 +469,18 @@ export class CoreIntegrationService {
         }
     }
 
+    /**
+     * Re-enable a disabled API key through core manager
+     */
+    public async enableApiKey(keyId: string): Promise<boolean> {
+        try {
+            return await this.apiKeyManager.enableKey(keyId);
+        } catch (error) {
+            console.error('CoreIntegrationService: Error enabling API key:', error);
+            return false;
+        }
+    }
+
     /**
      * Add proxy through core manager
      */
@@ -12,6 +12,9 @@ export class StatusBarManager {
   private serverStatusItem: vscode.StatusBarItem;
   private requestCountItem: vscode.StatusBarItem;
   private healthStatusItem: vscode.StatusBarItem;
+  private clientAuthItem: vscode.StatusBarItem;
+  private isEndpointUnauthenticated = false;
+  private isVisible = false;
   private disposables: vscode.Disposable[] = [];
 
   constructor() {
@@ -28,6 +31,10 @@ export class StatusBarManager {
       vscode.StatusBarAlignment.Left, 
       98
     );
+    this.clientAuthItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      101
+    );
 
     this.setupStatusBarItems();
     this.setupEventListeners();
@@ -50,6 +57,11 @@ export class StatusBarManager {
     // Health status item
     this.healthStatusItem.command = 'geminiAggregator-dev.refreshAll';
     this.healthStatusItem.tooltip = 'Click to refresh proxy health status';
+
+    // Client auth warning item - shown while the endpoint accepts requests without a token
+    this.clientAuthItem.text = '$(unlock) Gemini Proxy: No client auth';
+    this.clientAuthItem.command = 'geminiAggregator-dev.createClientToken';
+    this.clientAuthItem.tooltip = 'The aggregator endpoint accepts requests without an access token, so any local process can spend your API keys. Click to create a client token.';
   }
 
   /**
@@ -118,6 +130,7 @@ export class StatusBarManager {
     const themeDisposable = themeService.onThemeChange(() => {
       // Update status bar items when theme changes
       this.updateFromCurrentState();
+      this.updateClientAuthStatus(this.isEndpointUnauthenticated);
     });
 
     this.disposables.push(themeDisposable);
@@ -149,6 +162,19 @@ export class StatusBarManager {
     this.updateRequestCount(status.totalRequests, status.activeConnections);
   }
 
+  /**
+   * Show or hide the warning that the endpoint accepts requests without a client token
+   */
+  public updateClientAuthStatus(isEndpointUnauthenticated: boolean): void {
+    this.isEndpointUnauthenticated = isEndpointUnauthenticated;
+    themeService.applyStatusBarTheme(this.clientAuthItem, 'warning');
+    if (isEndpointUnauthenticated && this.isVisible) {
+      this.clientAuthItem.show();
+    } else {
+      this.clientAuthItem.hide();
+    }
+  }
+
   /**
    * Update request count display
    */
@@ -242,6 +268,8 @@ export class StatusBarManager {
     this.serverStatusItem.show();
     this.requestCountItem.show();
     this.healthStatusItem.show();
+    this.isVisible = true;
+    this.updateClientAuthStatus(this.isEndpointUnauthenticated);
   }
 
   /**
@@ -251,6 +279,8 @@ export class StatusBarManager {
     this.serverStatusItem.hide();
     this.requestCountItem.hide();
     this.healthStatusItem.hide();
+    this.clientAuthItem.hide();
+    this.isVisible = false;
   }
 
   /**
@@ -463,6 +493,7 @@ export class StatusBarManager {
     this.serverStatusItem.dispose();
     this.requestCountItem.dispose();
     this.healthStatusItem.dispose();
+    this.clientAuthItem.dispose();
     this.disposables.forEach(d => d.dispose());
     this.disposables = [];
     
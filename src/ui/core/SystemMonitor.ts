@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { uiStateManager } from './UIStateManager';
 import { notificationService } from './NotificationService';
 import { ApiKeyTreeItem, ProxyTreeItem } from '../types/TreeViewTypes';
+import { KeyCircuitStateChange } from '../../server/core/EventManager';
 
 /**
  * System monitor for automatic detection of issues and performance problems
@@ -144,6 +145,23 @@ export class SystemMonitor {
     this.lastHealthyStates.set(`apikey-${keyId}`, isHealthy);
   }
 
+  /**
+   * React to a key's circuit breaker opening or closing
+   */
+  public handleKeyCircuitStateChange(change: KeyCircuitStateChange): void {
+    const { apiKey, previousState, state } = change;
+    
+    if (state === 'open') {
+      const health = apiKey.health;
+      const details = health
+        ? `${health.consecutiveFailures} consecutive failures, error rate ${Math.round(health.errorRate * 100)}%`
+        : 'repeated failures';
+      notificationService.showApiKeyError(apiKey.keyId, `Circuit opened after ${details}`);
+    } else if (state === 'closed' && previousState === 'half_open') {
+      notificationService.showRecoveryNotification('apikey', apiKey.keyId);
+    }
+  }
+
   /**
    * Check proxy health and performance
    */
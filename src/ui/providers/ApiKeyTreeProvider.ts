@@ -5,6 +5,10 @@ import { uiStateManager } from '../core/UIStateManager';
 import { DataTransformers } from '../utils/DataTransformers';
 import { accessibilityService } from '../core/AccessibilityService';
 import ApiKeyManager from '../../server/core/ApiKeyManager';
+import { DEFAULT_KEY_GROUP } from '../../server/core/KeyRouting';
+
+// Tree item ID prefix of key group (tier) items
+const KEY_GROUP_ID_PREFIX = 'key-group-';
 
 /**
  * Tree data provider for API Keys view
@@ -160,17 +164,26 @@ export class ApiKeyTreeProvider implements vscode.TreeDataProvider<ApiKeyTreeIte
     // Add current status
     switch (element.status) {
       case 'active':
-        if (element.currentRequests && element.currentRequests > 0) {
+        if (element.maxConcurrency && element.maxConcurrency > 0) {
+          parts.push(`${element.currentRequests || 0}/${element.maxConcurrency} in flight`);
+        } else if (element.currentRequests && element.currentRequests > 0) {
           parts.push(`${element.currentRequests} active requests`);
         } else {
           parts.push('ready');
         }
+        if (element.circuitState === 'half_open') {
+          parts.push('circuit half-open');
+        }
         break;
       case 'rate_limited':
         parts.push('cooling down');
         break;
       case 'error':
-        parts.push('error');
+        if (element.disabledReason) {
+          parts.push(`disabled: ${element.disabledReason}`);
+        } else {
+          parts.push(element.circuitState === 'open' ? 'circuit open' : 'error');
+        }
         break;
       case 'inactive':
         parts.push('inactive');
@@ -261,9 +274,12 @@ export class ApiKeyTreeProvider implements vscode.TreeDataProvider<ApiKeyTreeIte
       items.push(rotatingProxyInfo);
     }
     
-    // Add individual API keys
-    for (const apiKey of apiKeys) {
-      items.push(apiKey);
+    // Add API keys, grouped by tier once keys are assigned to groups
+    const groups = this.getKeyGroups(apiKeys);
+    if (groups.length > 1 || (groups.length === 1 && groups[0] !== DEFAULT_KEY_GROUP)) {
+      items.push(...groups.map(group => this.createKeyGroupItem(group, apiKeys)));
+    } else {
+      items.push(...apiKeys);
     }
     
     // If no API keys, show helpful message
@@ -286,10 +302,41 @@ export class ApiKeyTreeProvider implements vscode.TreeDataProvider<ApiKeyTreeIte
       case 'rotating-proxy-info':
         return this.createRotatingProxyDetails();
       default:
+        if (group.id.startsWith(KEY_GROUP_ID_PREFIX)) {
+          const groupName = group.id.substring(KEY_GROUP_ID_PREFIX.length);
+          return apiKeys.filter(key => (key.group || DEFAULT_KEY_GROUP) === groupName);
+        }
         return [];
     }
   }
 
+  /**
+   * Get the key groups (tiers) in use, sorted by name
+   */
+  private getKeyGroups(apiKeys: ApiKeyTreeItem[]): string[] {
+    return Array.from(new Set(apiKeys.map(key => key.group || DEFAULT_KEY_GROUP))).sort();
+  }
+
+  /**
+   * Create a tier group item containing the keys of one group
+   */
+  private createKeyGroupItem(group: string, apiKeys: ApiKeyTreeItem[]): ApiKeyTreeItem {
+    const groupKeys = apiKeys.filter(key => (key.group || DEFAULT_KEY_GROUP) === group);
+    const activeCount = groupKeys.filter(k => k.status === 'active').length;
+    
+    return {
+      id: `${KEY_GROUP_ID_PREFIX}${group}`,
+      label: `Tier: ${group}`,
+      description: `${activeCount}/${groupKeys.length} active`,
+      tooltip: `${groupKeys.length} keys in group "${group}"`,
+      iconPath: ICONS.GROUP,
+      contextValue: CONTEXT_VALUES.API_KEY_GROUP,
+      collapsibleState: vscode.TreeItemCollapsibleState.Expanded,
+      type: 'apiKeyGroup',
+      status: activeCount > 0 ? 'active' : 'inactive'
+    };
+  }
+
   /**
    * Create status summary group item
    */
@@ -267,6 +267,44 @@ export class ServerStatusTreeProvider implements vscode.TreeDataProvider<ServerS
    */
   private createPerformanceDetails(): ServerStatusTreeItem[] {
     const items: ServerStatusTreeItem[] = [];
+    const serverStatus = uiStateManager.getServerStatus();
+    const queuedRequests = serverStatus.queuedRequests || 0;
+    const promptTokens = serverStatus.promptTokens || 0;
+    const cachedTokens = serverStatus.cachedTokens || 0;
+    const completedStreams = serverStatus.completedStreams || 0;
+
+    items.push({
+      id: 'queued-requests',
+      label: 'Queued Requests',
+      description: queuedRequests.toString(),
+      tooltip: `${queuedRequests} request(s) waiting for an API key to leave cooldown`,
+      iconPath: new vscode.ThemeIcon(queuedRequests > 0 ? 'watch' : 'check'),
+      contextValue: 'queuedRequests',
+      type: 'serverStatus',
+      status: 'active'
+    });
+
+    items.push({
+      id: 'cache-hit-rate',
+      label: 'Cache Hit Rate',
+      description: promptTokens > 0 ? `${Math.round(cachedTokens / promptTokens * 100)}%` : 'No data',
+      tooltip: `${cachedTokens} of ${promptTokens} prompt tokens served from Gemini's implicit context cache (usageMetadata.cachedContentTokenCount)`,
+      iconPath: new vscode.ThemeIcon('database'),
+      contextValue: 'cacheHitRate',
+      type: 'serverStatus',
+      status: promptTokens > 0 ? 'active' : 'inactive'
+    });
+
+    items.push({
+      id: 'time-to-first-token',
+      label: 'Avg Time to First Token',
+      description: completedStreams > 0 ? `${serverStatus.averageTimeToFirstToken}ms` : 'No data',
+      tooltip: `Average time from request start to the first streamed chunk over ${completedStreams} completed streaming request(s), including queueing and retries`,
+      iconPath: new vscode.ThemeIcon('pulse'),
+      contextValue: 'timeToFirstToken',
+      type: 'serverStatus',
+      status: completedStreams > 0 ? 'active' : 'inactive'
+    });
 
     items.push({
       id: 'request-count',
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { CircuitState } from '../../server/types/ApiKey';
 
 /**
  * Base interface for all tree items in the native UI
@@ -19,8 +20,13 @@ export interface BaseTreeItem {
 export interface ApiKeyTreeItem extends BaseTreeItem {
   type: 'apiKey' | 'apiKeyGroup';
   keyId?: string;
+  group?: string;                      // Key group (tier) from the keyGroups setting
   status: 'active' | 'inactive' | 'error' | 'rate_limited';
   currentRequests?: number;
+  maxConcurrency?: number;             // Per-key concurrency limit (0 = unlimited)
+  disabledReason?: string;             // Why the key was disabled (auth failure)
+  healthScore?: number;                // Rolling health score (0–1)
+  circuitState?: CircuitState;         // Circuit breaker state
   lastUsed?: Date;
   proxyAssigned?: string;
   usageStats?: {
@@ -56,6 +62,11 @@ export interface ServerStatus {
   uptime?: number;
   totalRequests: number;
   activeConnections: number;
+  queuedRequests?: number;            // Requests waiting in the dispatcher queue for a free key
+  promptTokens?: number;              // Prompt tokens of successful requests that reported usage
+  cachedTokens?: number;              // Of those, prompt tokens served from Gemini's implicit cache
+  completedStreams?: number;          // Successful streaming requests that reported a time to first token
+  averageTimeToFirstToken?: number;   // Their average time to first token in milliseconds
   lastError?: string;
 }
 
@@ -100,6 +111,7 @@ export interface UIEvents {
  */
 export const CONTEXT_VALUES = {
   API_KEY: 'apiKey',
+  API_KEY_DISABLED: 'apiKeyDisabled',
   API_KEY_GROUP: 'apiKeyGroup',
   PROXY: 'proxy',
   PROXY_GROUP: 'proxyGroup',
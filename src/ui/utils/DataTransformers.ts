@@ -1,4 +1,5 @@
 import { ApiKey } from '../../server/types/ApiKey';
+import { getKeyMaxConcurrency } from '../../server/core/ApiKeyManager';
 import { ProxyServer } from '../../server/types/Proxy';
 import { ApiKeyTreeItem, ProxyTreeItem, ICONS, CONTEXT_VALUES } from '../types/TreeViewTypes';
 import { themeService } from '../core/ThemeService';
@@ -21,11 +22,16 @@ export class DataTransformers {
       description: DataTransformers.getApiKeyDescription(apiKey),
       tooltip: DataTransformers.getApiKeyTooltip(apiKey),
       iconPath: icon,
-      contextValue: CONTEXT_VALUES.API_KEY,
+      contextValue: apiKey.status === 'disabled' ? CONTEXT_VALUES.API_KEY_DISABLED : CONTEXT_VALUES.API_KEY,
       type: 'apiKey',
       keyId: apiKey.keyId,
+      group: apiKey.group,
       status: status,
       currentRequests: apiKey.currentRequests,
+      maxConcurrency: getKeyMaxConcurrency(apiKey.keyId),
+      disabledReason: apiKey.disabledReason,
+      healthScore: apiKey.health?.score,
+      circuitState: apiKey.health?.circuitState,
       lastUsed: typeof apiKey.lastUsed === 'number' ? new Date(apiKey.lastUsed) : apiKey.lastUsed,
       proxyAssigned: apiKey.proxy,
       usageStats: {
@@ -92,7 +98,7 @@ export class DataTransformers {
   private static getApiKeyStatus(apiKey: ApiKey): 'active' | 'inactive' | 'error' | 'rate_limited' {
     switch (apiKey.status) {
       case 'available':
-        return 'active';
+        return apiKey.health?.circuitState === 'open' ? 'error' : 'active';
       case 'cooling_down':
         return 'rate_limited';
       case 'disabled':
@@ -126,7 +132,18 @@ export class DataTransformers {
   private static getApiKeyDescription(apiKey: ApiKey): string {
     const parts: string[] = [];
     
-    if (apiKey.currentRequests > 0) {
+    if (apiKey.status === 'disabled') {
+      parts.push(`disabled: ${apiKey.disabledReason || 'unknown reason'}`);
+    }
+    
+    if (apiKey.health && apiKey.health.circuitState !== 'closed') {
+      parts.push(apiKey.health.circuitState === 'open' ? 'circuit open' : 'circuit half-open');
+    }
+    
+    const maxConcurrency = getKeyMaxConcurrency(apiKey.keyId);
+    if (maxConcurrency > 0) {
+      parts.push(`${apiKey.currentRequests}/${maxConcurrency} in flight`);
+    } else if (apiKey.currentRequests > 0) {
       parts.push(`${apiKey.currentRequests} active`);
     }
     
@@ -153,10 +170,34 @@ export class DataTransformers {
   private static getApiKeyTooltip(apiKey: ApiKey): string {
     const lines: string[] = [
       `API Key: ${apiKey.keyId}`,
+      `Group: ${apiKey.group || 'default'}`,
       `Status: ${apiKey.status}`,
-      `Current Requests: ${apiKey.currentRequests}`
+      `Current Requests: ${apiKey.currentRequests}${getKeyMaxConcurrency(apiKey.keyId) > 0 ? ` / ${getKeyMaxConcurrency(apiKey.keyId)}` : ''}`
     ];
     
+    if (apiKey.status === 'cooling_down' && apiKey.coolingDownUntil) {
+      const backoff = apiKey.coolDownLevel ? `, backoff level ${apiKey.coolDownLevel}` : '';
+      const reason = apiKey.coolDownReason === 'daily_quota' ? 'daily quota exhausted' : `rate limited${backoff}`;
+      lines.push(`Cooling Down: ${reason} until ${new Date(apiKey.coolingDownUntil).toLocaleString()}`);
+    }
+    
+    if (apiKey.status === 'disabled') {
+      lines.push(`Disabled: ${apiKey.disabledReason || 'unknown reason'}`);
+      if (apiKey.nextRevalidationAt) {
+        lines.push(`Next Check: ${new Date(apiKey.nextRevalidationAt).toLocaleString()}`);
+      }
+    }
+    
+    if (apiKey.health) {
+      const latency = apiKey.health.avgLatencyMs !== undefined ? `, avg latency ${apiKey.health.avgLatencyMs}ms` : '';
+      lines.push(`Health: ${Math.round(apiKey.health.score * 100)}% (error rate ${Math.round(apiKey.health.errorRate * 100)}%${latency})`);
+      if (apiKey.health.circuitState === 'open' && apiKey.health.circuitOpenUntil) {
+        lines.push(`Circuit: open until ${new Date(apiKey.health.circuitOpenUntil).toLocaleString()}`);
+      } else if (apiKey.health.circuitState === 'half_open') {
+        lines.push('Circuit: half-open (trial request)');
+      }
+    }
+    
     if (apiKey.proxy) {
       lines.push(`Proxy: ${apiKey.proxy}`);
     }